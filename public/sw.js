@@ -1,6 +1,11 @@
 const CACHE_NAME = "genius-v1.0.0";
 const urlsToCache = ["/", "/manifest.json", "/icon-192.png", "/icon-512.png"];
 
+// リマインダーの設定（アプリから受け取り、バージョン更新時も削除しないキャッシュに保存）
+const REMINDER_CACHE_NAME = "gridrecall-reminder";
+const REMINDER_CACHE_URL = "/__practice-reminder";
+const REMINDER_SYNC_TAG = "practice-reminder";
+
 // Service Workerのインストール
 self.addEventListener("install", (event) => {
   event.waitUntil(
@@ -17,7 +22,7 @@ self.addEventListener("activate", (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+          if (cacheName !== CACHE_NAME && cacheName !== REMINDER_CACHE_NAME) {
             console.log("Deleting old cache:", cacheName);
             return caches.delete(cacheName);
           }
@@ -65,39 +70,102 @@ self.addEventListener("sync", (event) => {
   }
 });
 
-// プッシュ通知の処理（将来的な機能拡張用）
-self.addEventListener("push", (event) => {
-  const options = {
-    body: event.data ? event.data.text() : "新しいゲームが利用可能です！",
-    icon: "/icon-192.png",
-    badge: "/icon-192.png",
-    vibrate: [100, 50, 100],
-    data: {
-      dateOfArrival: Date.now(),
-      primaryKey: 1,
+// 通知の共通オプション
+const createNotificationOptions = (body) => ({
+  body,
+  icon: "/icon-192.png",
+  badge: "/icon-192.png",
+  vibrate: [100, 50, 100],
+  tag: "gridrecall-reminder",
+  data: {
+    dateOfArrival: Date.now(),
+  },
+  actions: [
+    {
+      action: "explore",
+      title: "Practice now",
+      icon: "/icon-192.png",
     },
-    actions: [
-      {
-        action: "explore",
-        title: "ゲームを開始",
-        icon: "/icon-192.png",
-      },
-      {
-        action: "close",
-        title: "閉じる",
-        icon: "/icon-192.png",
-      },
-    ],
-  };
-
-  event.waitUntil(self.registration.showNotification("GridRecall", options));
+    {
+      action: "close",
+      title: "Close",
+      icon: "/icon-192.png",
+    },
+  ],
 });
 
-// 通知クリックの処理
+// プッシュ通知の処理（外部のプッシュサービスは使用していないため、送られてきた場合のみ表示）
+self.addEventListener("push", (event) => {
+  const body = event.data ? event.data.text() : "Time for today's memory practice!";
+  event.waitUntil(self.registration.showNotification("GridRecall", createNotificationOptions(body)));
+});
+
+// ローカル日付（YYYY-MM-DD）
+const toDateKey = (date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+const loadReminder = async () => {
+  const cache = await caches.open(REMINDER_CACHE_NAME);
+  const response = await cache.match(REMINDER_CACHE_URL);
+  return response ? await response.json() : null;
+};
+
+const saveReminder = async (reminder) => {
+  const cache = await caches.open(REMINDER_CACHE_NAME);
+  await cache.put(REMINDER_CACHE_URL, new Response(JSON.stringify(reminder), { headers: { "Content-Type": "application/json" } }));
+};
+
+// 設定した時刻を過ぎていて、今日まだ通知しておらず目標も達成していなければ通知
+const showReminderIfDue = async (now = new Date()) => {
+  const reminder = await loadReminder();
+  if (!reminder || !reminder.enabled) return;
+
+  const today = toDateKey(now);
+  if (reminder.lastShownDate === today || reminder.goalMetDate === today) return;
+
+  const [hours, minutes] = reminder.time.split(":").map(Number);
+  if (now.getHours() * 60 + now.getMinutes() < hours * 60 + minutes) return;
+
+  await self.registration.showNotification("GridRecall", createNotificationOptions("You haven't reached today's practice goal yet."));
+  await saveReminder({ ...reminder, lastShownDate: today });
+};
+
+// アプリからのリマインダーの設定・確認の依頼
+self.addEventListener("message", (event) => {
+  const message = event.data || {};
+
+  if (message.type === "UPDATE_REMINDER") {
+    event.waitUntil(
+      loadReminder().then((current) =>
+        saveReminder({
+          ...message.reminder,
+          goalMetDate: message.goalMetDate,
+          lastShownDate: current ? current.lastShownDate : null,
+        })
+      )
+    );
+  } else if (message.type === "CHECK_REMINDER") {
+    event.waitUntil(showReminderIfDue());
+  }
+});
+
+// 定期バックグラウンド同期（インストールしたアプリでアプリを閉じている間のリマインダー）
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === REMINDER_SYNC_TAG) {
+    event.waitUntil(showReminderIfDue());
+  }
+});
+
+// 通知クリックの処理（開いているウィンドウがあればそれを表示）
 self.addEventListener("notificationclick", (event) => {
   event.notification.close();
+  if (event.action === "close") return;
 
-  if (event.action === "explore") {
-    event.waitUntil(clients.openWindow("/"));
-  }
+  event.waitUntil(
+    clients.matchAll({ type: "window", includeUncontrolled: true }).then((windowClients) => {
+      const client = windowClients.find((windowClient) => "focus" in windowClient);
+      return client ? client.focus() : clients.openWindow("/");
+    })
+  );
 });
@@ -1,12 +1,65 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import SplashScreen from "../components/SplashScreen";
 import GridMemoryGame from "../components/GridMemoryGame";
-import StatsPopup from "../components/StatsPopup";
-import { getUnifiedStatsManager, saveStats, getStats } from "../utils/unifiedStatsManager";
-import { GameStats, GameSettings } from "../utils/gameStats";
-import { loadSettings, DEFAULT_SETTINGS } from "../utils/gameSettings";
+import StatsPopup, { ResetScope } from "../components/StatsPopup";
+import SessionSummary from "../components/SessionSummary";
+import BackupDialog from "../components/BackupDialog";
+import ProfileDialog from "../components/ProfileDialog";
+import AchievementsPanel from "../components/AchievementsPanel";
+import PracticePanel from "../components/PracticePanel";
+import StorageDiagnosticsPanel from "../components/StorageDiagnosticsPanel";
+import { getUnifiedStatsManager, saveStatsByKey, saveTrial } from "../utils/unifiedStatsManager";
+import { StatsChange, subscribeToStatsChanges } from "../utils/statsChannel";
+import { GameStats, GameSettings, TrialRecord, createTrialRecord, generateSettingsKey, initializeStats, toDateKey } from "../utils/gameStats";
+import { GameEngineState, TrialResult } from "../utils/gameEngine";
+import { DEFAULT_SETTINGS, RecallMode, RetentionMask } from "../utils/gameSettings";
+import { loadSettings } from "../utils/unifiedSettingsManager";
+import { Profile, getActiveProfile, getActiveProfileId, switchProfile } from "../utils/profiles";
+import { SkillRating } from "../utils/skillRating";
+import { AchievementDefinition } from "../utils/achievements";
+import { StorageHealthLevel, getStorageHealthLevel, subscribeToStorageErrors } from "../utils/storageHealth";
+import { TrialArchive, selectArchivedSettings } from "../utils/trialArchive";
+import {
+  DEFAULT_PRACTICE_SETTINGS,
+  DailyGoal,
+  PracticeDay,
+  PracticeSettings,
+  calculatePracticeDays,
+  checkReminderInServiceWorker,
+  getMsUntilReminder,
+  loadPracticeSettingsFromStorage,
+  savePracticeSettingsToStorage,
+  syncReminderWithServiceWorker,
+} from "../utils/practiceGoals";
+import { DAILY_CHALLENGE_SETTINGS, generateDailyStatsKey, getDailyChallengeDate, getDailyChallengeSeeds } from "../utils/dailyChallenge";
+import {
+  AdaptiveLevel,
+  AdaptiveSession,
+  clampLevel,
+  createAdaptiveSession,
+  createStaircaseConfig,
+  generateAdaptiveKey,
+  initializeLevel,
+  loadAdaptiveLevelsFromStorage,
+  loadAdaptiveSessionsFromStorage,
+  saveAdaptiveLevelsToStorage,
+  saveAdaptiveSessionToStorage,
+  updateStaircase,
+} from "../utils/adaptiveDifficulty";
+import {
+  HighScoreEntry,
+  SessionModeType,
+  SessionRun,
+  createSessionRun,
+  finishSessionRun,
+  getSessionTimeRemaining,
+  isSessionOver,
+  loadHighScoresFromStorage,
+  saveHighScoreToStorage,
+  updateSessionRun,
+} from "../utils/sessionMode";
 
 // ゲームの状態を管理する型定義
 interface GameState {
@@ -15,10 +68,35 @@ interface GameState {
   answerTime: number;
   numActiveCells: number;
   targetConsecutive: number;
+  recallMode: RecallMode;
+  adaptive: boolean;
+  staircaseUp: number;
+  staircaseDown: number;
+  retentionDelay: number;
+  retentionMask: RetentionMask;
   consecutiveCorrect: number;
   targetAchieved: boolean;
 }
 
+// デイリーチャレンジの進捗
+interface DailyChallengeProgress {
+  dateKey: string;
+  seeds: number[];
+  completed: number;
+  correct: number;
+}
+
+// 実績の通知を表示する時間
+const ACHIEVEMENT_TOAST_DURATION = 4000;
+
+// 今日の練習量を解答記録から集計
+const loadTodayPractice = async (goal: DailyGoal): Promise<PracticeDay | null> => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const records = await getUnifiedStatsManager().getTrialHistory({ since: startOfToday.getTime() });
+  return calculatePracticeDays(records, goal).find((day) => day.date === toDateKey(Date.now())) || null;
+};
+
 // 環境情報の型定義
 interface EnvironmentInfo {
   isPWA: boolean;
@@ -36,6 +114,32 @@ export default function Home() {
   const [showStats, setShowStats] = useState(false);
   const [currentStats, setCurrentStats] = useState<GameStats | null>(null);
   const [environmentInfo, setEnvironmentInfo] = useState<EnvironmentInfo | null>(null);
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallengeProgress | null>(null);
+  const [adaptiveLevel, setAdaptiveLevel] = useState<AdaptiveLevel | null>(null);
+  const [adaptiveSession, setAdaptiveSession] = useState<AdaptiveSession | null>(null);
+  const [adaptiveHistory, setAdaptiveHistory] = useState<AdaptiveSession[]>([]);
+  const [trialHistory, setTrialHistory] = useState<TrialRecord[]>([]);
+  const [trialArchive, setTrialArchive] = useState<TrialArchive | null>(null);
+  const [skillRating, setSkillRating] = useState<SkillRating | null>(null);
+  const [sessionRun, setSessionRun] = useState<SessionRun | null>(null);
+  const [sessionRank, setSessionRank] = useState<number | null>(null);
+  const [sessionHighScores, setSessionHighScores] = useState<HighScoreEntry[]>([]);
+  const [showSessionSummary, setShowSessionSummary] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [activeProfile, setActiveProfile] = useState<Profile | null>(null);
+  const [showAchievements, setShowAchievements] = useState(false);
+  // 通知待ちの実績（先頭から順に表示）
+  const [achievementToasts, setAchievementToasts] = useState<AchievementDefinition[]>([]);
+  const [showPractice, setShowPractice] = useState(false);
+  const [practiceSettings, setPracticeSettings] = useState<PracticeSettings>(DEFAULT_PRACTICE_SETTINGS);
+  const [todayPractice, setTodayPractice] = useState<PracticeDay | null>(null);
+  const [showStorage, setShowStorage] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<{ level: StorageHealthLevel; compacted: number } | null>(null);
+  // 保存データが外部から変更されたときに統計情報を読み込み直すためのカウンター
+  const [dataVersion, setDataVersion] = useState(0);
+  // 取り消し可能なリセット（期限を過ぎると非表示）
+  const [pendingUndo, setPendingUndo] = useState<{ scope: ResetScope; expiresAt: number } | null>(null);
 
   // ゲームの状態を親コンポーネントで管理
   const [gameState, setGameState] = useState<GameState>({
@@ -44,10 +148,47 @@ export default function Home() {
     answerTime: DEFAULT_SETTINGS.answerTime,
     numActiveCells: DEFAULT_SETTINGS.numActiveCells,
     targetConsecutive: DEFAULT_SETTINGS.targetConsecutive,
+    recallMode: DEFAULT_SETTINGS.recallMode,
+    adaptive: DEFAULT_SETTINGS.adaptive,
+    staircaseUp: DEFAULT_SETTINGS.staircaseUp,
+    staircaseDown: DEFAULT_SETTINGS.staircaseDown,
+    retentionDelay: DEFAULT_SETTINGS.retentionDelay,
+    retentionMask: DEFAULT_SETTINGS.retentionMask,
     consecutiveCorrect: 0,
     targetAchieved: false,
   });
 
+  // 保存された設定をゲームの状態に反映
+  const applySavedSettings = async () => {
+    try {
+      const savedSettings = await loadSettings();
+      setGameState((prev) => ({
+        ...prev,
+        gridSize: savedSettings.gridSize,
+        showTime: savedSettings.showTime,
+        answerTime: savedSettings.answerTime,
+        numActiveCells: savedSettings.numActiveCells,
+        targetConsecutive: savedSettings.targetConsecutive,
+        recallMode: savedSettings.recallMode,
+        adaptive: savedSettings.adaptive,
+        staircaseUp: savedSettings.staircaseUp,
+        staircaseDown: savedSettings.staircaseDown,
+        retentionDelay: savedSettings.retentionDelay,
+        retentionMask: savedSettings.retentionMask,
+      }));
+    } catch (error) {
+      console.error("Failed to load settings:", error);
+    }
+  };
+
+  // 統計ページから設定を選んで移動した場合はスプラッシュ画面を表示しない
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).has("play")) {
+      setShowSplash(false);
+      window.history.replaceState(null, "", "/");
+    }
+  }, []);
+
   // 統合統計管理システムと設定の初期化
   useEffect(() => {
     const initManagers = async () => {
@@ -57,61 +198,70 @@ export default function Home() {
 
       // 環境情報を取得
       setEnvironmentInfo(statsManager.getEnvironmentInfo());
+      setActiveProfile(getActiveProfile());
+      setPracticeSettings(loadPracticeSettingsFromStorage());
 
       // 設定を読み込み
+      await applySavedSettings();
+
+      // PWAの初回起動時はブラウザで保存したデータを統合（結果はバックアップ画面の最終統合に表示）
       try {
-        const savedSettings = await loadSettings();
-        setGameState((prev) => ({
-          ...prev,
-          gridSize: savedSettings.gridSize,
-          showTime: savedSettings.showTime,
-          answerTime: savedSettings.answerTime,
-          numActiveCells: savedSettings.numActiveCells,
-          targetConsecutive: savedSettings.targetConsecutive,
-        }));
+        const report = await statsManager.syncOnFirstLaunch();
+        if (report) {
+          setDataVersion((prev) => prev + 1);
+        }
       } catch (error) {
-        console.error("Failed to load settings:", error);
+        console.error("Failed to merge browser data:", error);
       }
     };
 
     initManagers();
   }, []);
 
-  // 設定読み込み後の統計情報取得
+  // 適応難易度（デイリーチャレンジ中は無効）
+  const isAdaptiveActive = gameState.adaptive && !dailyChallenge;
+  const adaptiveKey = generateAdaptiveKey(gameState.gridSize, gameState.recallMode, gameState.retentionDelay, gameState.retentionMask);
+  const staircaseConfig = createStaircaseConfig(gameState.gridSize, gameState.showTime, gameState.staircaseUp, gameState.staircaseDown);
+
+  // 保存されたレベルを読み込み、新しいセッションを開始（プロフィールを切り替えた場合も読み込み直す）
+  const activeProfileId = activeProfile ? activeProfile.id : null;
   useEffect(() => {
-    const loadInitialStats = async () => {
-      const statsManager = getUnifiedStatsManager();
-      const currentSettings: GameSettings = {
+    if (!isAdaptiveActive) {
+      setAdaptiveLevel(null);
+      setAdaptiveSession(null);
+      return;
+    }
+
+    const config = createStaircaseConfig(gameState.gridSize, gameState.showTime, gameState.staircaseUp, gameState.staircaseDown);
+    const savedLevel = loadAdaptiveLevelsFromStorage()[adaptiveKey];
+    setAdaptiveLevel(savedLevel ? clampLevel(savedLevel, config) : initializeLevel(config));
+    setAdaptiveSession(createAdaptiveSession(adaptiveKey));
+  }, [isAdaptiveActive, adaptiveKey, gameState.gridSize, gameState.showTime, gameState.staircaseUp, gameState.staircaseDown, activeProfileId]);
+
+  // 現在プレイ中の設定と統計キー（デイリーチャレンジ中は固定設定）
+  const activeSettings: GameSettings = dailyChallenge
+    ? DAILY_CHALLENGE_SETTINGS
+    : {
         gridSize: gameState.gridSize,
-        showTime: gameState.showTime,
+        showTime: isAdaptiveActive && adaptiveLevel ? adaptiveLevel.showTime : gameState.showTime,
         answerTime: gameState.answerTime,
-        numActiveCells: gameState.numActiveCells,
+        numActiveCells: isAdaptiveActive && adaptiveLevel ? adaptiveLevel.numActiveCells : gameState.numActiveCells,
+        recallMode: gameState.recallMode,
+        retentionDelay: gameState.retentionDelay,
+        retentionMask: gameState.retentionMask,
       };
+  const activeStatsKey = dailyChallenge ? generateDailyStatsKey(dailyChallenge.dateKey) : generateSettingsKey(activeSettings);
 
-      const stats = await statsManager.getStats(currentSettings);
-      setCurrentStats(stats);
-    };
-
-    loadInitialStats();
-  }, [gameState.gridSize, gameState.showTime, gameState.answerTime, gameState.numActiveCells]);
-
-  // ゲーム状態が変更されたときに統計情報を更新
+  // 設定やモードが変更されたときに統計情報を更新
   useEffect(() => {
     const updateCurrentStats = async () => {
       const manager = getUnifiedStatsManager();
-      const currentSettings: GameSettings = {
-        gridSize: gameState.gridSize,
-        showTime: gameState.showTime,
-        answerTime: gameState.answerTime,
-        numActiveCells: gameState.numActiveCells,
-      };
-
-      const stats = await manager.getStats(currentSettings);
-      setCurrentStats(stats);
+      const stats = await manager.getStatsByKey(activeStatsKey);
+      setCurrentStats(stats || initializeStats());
     };
 
     updateCurrentStats();
-  }, [gameState.gridSize, gameState.showTime, gameState.answerTime, gameState.numActiveCells]);
+  }, [activeStatsKey, dataVersion]);
 
   const handleSplashComplete = () => {
     setShowSplash(false);
@@ -129,71 +279,510 @@ export default function Home() {
 
   const handleGameStart = () => {
     setIsFirstTime(false);
+    // セッションはStartボタンを押した時点から計測
+    setSessionRun((prev) => (prev && prev.startedAt === null ? { ...prev, startedAt: Date.now() } : prev));
   };
 
   const handleReset = () => {
     setIsFirstTime(true);
   };
 
+  // 解答後に実績を判定し、新たに達成したものを通知
+  const announceNewAchievements = async () => {
+    try {
+      const unlocked = await getUnifiedStatsManager().checkAchievements();
+      if (unlocked.length > 0) {
+        setAchievementToasts((prev) => [...prev, ...unlocked]);
+      }
+    } catch (error) {
+      console.error("Failed to check achievements:", error);
+    }
+  };
+
+  // 表示中の通知が変わるたびに表示時間を計り直す
+  const currentAchievementToast = achievementToasts.length > 0 ? achievementToasts[0] : null;
+  useEffect(() => {
+    if (!currentAchievementToast) return;
+
+    const timer = setTimeout(() => setAchievementToasts((prev) => prev.slice(1)), ACHIEVEMENT_TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [currentAchievementToast]);
+
   // 統計情報の更新ハンドラー
-  const handleStatsUpdate = async (isCorrect: boolean) => {
-    const currentSettings: GameSettings = {
-      gridSize: gameState.gridSize,
-      showTime: gameState.showTime,
-      answerTime: gameState.answerTime,
-      numActiveCells: gameState.numActiveCells,
-    };
+  const handleStatsUpdate = async ({ isCorrect, score, timedOut }: TrialResult) => {
+    // 適応難易度では設定ごとの正答率ではなくセッションのスパン推定を記録
+    if (isAdaptiveActive) {
+      if (!adaptiveLevel || !adaptiveSession) return;
 
-    await saveStats(currentSettings, isCorrect);
+      const updated = updateStaircase(adaptiveLevel, adaptiveSession, staircaseConfig, isCorrect);
+      setAdaptiveLevel(updated.level);
+      setAdaptiveSession(updated.session);
+      saveAdaptiveLevelsToStorage({ ...loadAdaptiveLevelsFromStorage(), [adaptiveKey]: updated.level });
+      saveAdaptiveSessionToStorage(updated.session);
+      await announceNewAchievements();
+      return;
+    }
+
+    if (dailyChallenge) {
+      setDailyChallenge((prev) => (prev ? { ...prev, completed: prev.completed + 1, correct: prev.correct + (isCorrect ? 1 : 0) } : prev));
+    }
+
+    await saveStatsByKey(activeStatsKey, isCorrect, score, timedOut);
 
     // 統計情報を再取得
-    const updatedStats = await getStats(currentSettings);
-    setCurrentStats(updatedStats);
+    const manager = getUnifiedStatsManager();
+    const updatedStats = await manager.getStatsByKey(activeStatsKey);
+    setCurrentStats(updatedStats || initializeStats());
+    await announceNewAchievements();
+  };
+
+  // セッションを終了してハイスコアを記録
+  const completeSession = useCallback((run: SessionRun) => {
+    const finished = finishSessionRun(run);
+    setSessionRun(finished);
+    setSessionRank(saveHighScoreToStorage(finished));
+    setSessionHighScores(loadHighScoresFromStorage()[finished.mode] || []);
+    setShowSessionSummary(true);
+    setIsFirstTime(true);
+  }, []);
+
+  // タイムアタックの制限時間で終了
+  useEffect(() => {
+    if (!sessionRun || sessionRun.startedAt === null || sessionRun.endedAt !== null) return;
+
+    const remaining = getSessionTimeRemaining(sessionRun);
+    if (remaining === null) return;
+
+    const timer = setTimeout(() => completeSession(sessionRun), remaining);
+    return () => clearTimeout(timer);
+  }, [sessionRun, completeSession]);
+
+  // セッションの開始（デイリーチャレンジ中は選択不可）
+  const handleStartSession = (mode: SessionModeType) => {
+    setIsFirstTime(true);
+    setGameState((prev) => ({ ...prev, consecutiveCorrect: 0, targetAchieved: false }));
+    setShowSessionSummary(false);
+    setSessionRun(createSessionRun(mode, activeSettings));
+  };
+
+  const handleExitSession = () => {
+    setIsFirstTime(true);
+    setShowSessionSummary(false);
+    setSessionRun(null);
+  };
+
+  // 解答記録のキー（適応難易度の記録はレベルごとではなく適応キーにまとめる）
+  const trialRecordKey = isAdaptiveActive ? adaptiveKey : activeStatsKey;
+
+  // 解答記録の保存ハンドラー
+  const handleTrialComplete = async (state: GameEngineState) => {
+    // セッション中は得点を加算し、ミスの上限に達したら終了
+    if (sessionRun && sessionRun.startedAt !== null && !state.isRetry) {
+      const updatedRun = updateSessionRun(sessionRun, activeSettings, state);
+      if (isSessionOver(updatedRun)) {
+        completeSession(updatedRun);
+      } else {
+        setSessionRun(updatedRun);
+      }
+    }
+
+    const record = createTrialRecord(trialRecordKey, activeSettings, state);
+    if (!record) return;
+
+    try {
+      await saveTrial(record);
+      setTodayPractice(await loadTodayPractice(practiceSettings.goal));
+    } catch (error) {
+      console.error("Failed to save trial:", error);
+    }
+  };
+
+  // 今日の練習量（目標の変更・プロフィールの切り替え・データの変更時に集計し直す）
+  useEffect(() => {
+    loadTodayPractice(practiceSettings.goal)
+      .then(setTodayPractice)
+      .catch((error) => console.error("Failed to load today's practice:", error));
+  }, [practiceSettings.goal, dataVersion, activeProfileId]);
+
+  // リマインダーの設定と今日の目標の達成状況をService Workerに送る
+  const isGoalMetToday = !!todayPractice && todayPractice.goalMet;
+  const todayPracticeAmount = practiceSettings.goal.type === "minutes" ? todayPractice?.minutes || 0 : todayPractice?.trials || 0;
+  useEffect(() => {
+    syncReminderWithServiceWorker(practiceSettings.reminder, isGoalMetToday).catch((error) => console.error("Failed to update reminder:", error));
+  }, [practiceSettings.reminder, isGoalMetToday]);
+
+  // アプリを開いている間は設定した時刻にService Workerで通知を確認
+  useEffect(() => {
+    if (!practiceSettings.reminder.enabled) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      timer = setTimeout(() => {
+        checkReminderInServiceWorker().catch((error) => console.error("Failed to check reminder:", error));
+        schedule();
+      }, getMsUntilReminder(practiceSettings.reminder.time));
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [practiceSettings.reminder.enabled, practiceSettings.reminder.time]);
+
+  // 空き容量が少なくなったら古い解答記録を自動で圧縮し、それでも足りない場合はデータが削除される前に知らせる
+  useEffect(() => {
+    if (!activeProfileId) return;
+
+    let cancelled = false;
+    let isChecking = false;
+    let isCompacting = false;
+    let hasCompactionFailed = false;
+    let recheck: { allowCompaction: boolean } | null = null;
+
+    const checkStorageHealth = async (allowCompaction: boolean) => {
+      // 確認中に記録された保存の失敗は、確認が終わってから一度だけ確認し直す
+      if (isChecking) {
+        recheck = { allowCompaction: allowCompaction && (!recheck || recheck.allowCompaction) };
+        return;
+      }
+
+      isChecking = true;
+      try {
+        const manager = getUnifiedStatsManager();
+        const diagnostics = await manager.getStorageDiagnostics();
+        let level = diagnostics.level;
+        let compacted = 0;
+        if (allowCompaction && !hasCompactionFailed && level !== "ok" && diagnostics.compactableTrials > 0) {
+          isCompacting = true;
+          try {
+            compacted = await manager.compactTrialHistory();
+          } catch (error) {
+            // 失敗した圧縮を保存の失敗のたびに繰り返さない
+            hasCompactionFailed = true;
+            throw error;
+          } finally {
+            isCompacting = false;
+          }
+          // 圧縮前の保存の失敗は判定に含めない
+          level = getStorageHealthLevel((await manager.getStorageDiagnostics()).usage, []);
+          setDataVersion((prev) => prev + 1);
+        }
+        if (!cancelled) setStorageWarning(level !== "ok" || compacted > 0 ? { level, compacted } : null);
+      } catch (error) {
+        console.error("Failed to check storage:", error);
+      } finally {
+        isChecking = false;
+        const next = recheck;
+        recheck = null;
+        if (next && !cancelled) checkStorageHealth(next.allowCompaction);
+      }
+    };
+
+    checkStorageHealth(true);
+    const unsubscribe = subscribeToStorageErrors(() => {
+      // 圧縮中の保存の失敗は圧縮自体によるものなので、もう一度圧縮しない
+      checkStorageHealth(!isCompacting);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [activeProfileId]);
+
+  const handlePracticeSettingsChange = (settings: PracticeSettings) => {
+    setPracticeSettings(settings);
+    savePracticeSettingsToStorage(settings);
   };
 
   // 統計情報の表示ハンドラー
   const handleShowStats = async () => {
     const manager = getUnifiedStatsManager();
-    const currentSettings: GameSettings = {
-      gridSize: gameState.gridSize,
-      showTime: gameState.showTime,
-      answerTime: gameState.answerTime,
-      numActiveCells: gameState.numActiveCells,
-    };
-
-    const stats = await manager.getStats(currentSettings);
-    setCurrentStats(stats);
+    const stats = await manager.getStatsByKey(activeStatsKey);
+    setCurrentStats(stats || initializeStats());
+    setAdaptiveHistory(loadAdaptiveSessionsFromStorage().filter((session) => session.key === adaptiveKey));
+    try {
+      setTrialHistory(await manager.getTrialHistory({ settingsKey: trialRecordKey }));
+      setTrialArchive(selectArchivedSettings(manager.getTrialArchive(), trialRecordKey));
+      setSkillRating(await manager.getSkillRating());
+    } catch (error) {
+      console.error("Failed to load trial history:", error);
+      setTrialHistory([]);
+    }
     setShowStats(true);
   };
 
+  // 表示中の統計情報と解答記録を読み込み直す（デイリーチャレンジの進捗も統計から復元）
+  const reloadCurrentStats = async (): Promise<GameStats | null> => {
+    const manager = getUnifiedStatsManager();
+    const stats = await manager.getStatsByKey(activeStatsKey);
+    setCurrentStats(stats || initializeStats());
+    setTrialHistory(await manager.getTrialHistory({ settingsKey: trialRecordKey }));
+    setTrialArchive(selectArchivedSettings(manager.getTrialArchive(), trialRecordKey));
+    setSkillRating(await manager.getSkillRating());
+    setDailyChallenge((prev) =>
+      prev
+        ? { ...prev, completed: stats ? stats.totalChallenges : 0, correct: stats ? stats.recentAnswers.filter((answer) => answer).length : 0 }
+        : prev,
+    );
+    return stats;
+  };
+
+  // 他のタブでの解答やリセットを連続正解数にも反映（目標を達成するたびに0に戻るため、目標数で割った余りを使う）
+  const syncConsecutiveCorrect = (stats: GameStats | null) => {
+    const streak = stats ? stats.currentConsecutiveCorrect : 0;
+    setGameState((prev) => ({
+      ...prev,
+      consecutiveCorrect: streak % prev.targetConsecutive,
+      targetAchieved: prev.targetAchieved && streak > 0 && streak % prev.targetConsecutive === 0,
+    }));
+  };
+
+  // 他のタブで表示中のプロフィールと設定の統計情報が変更されたら読み込み直す
+  const statsChangeHandlerRef = useRef<(change: StatsChange) => void>(() => {});
+  statsChangeHandlerRef.current = (change) => {
+    if (change.profileId !== getActiveProfileId()) return;
+    if (change.settingsKey === null || change.settingsKey === activeStatsKey || change.settingsKey === trialRecordKey) {
+      reloadCurrentStats()
+        .then(syncConsecutiveCorrect)
+        .catch((error) => console.error("Failed to reload stats:", error));
+    }
+  };
+
+  useEffect(() => subscribeToStatsChanges((change) => statsChangeHandlerRef.current(change)), []);
+
+  // 統計情報のリセット（一定時間内は取り消し可能）
+  const handleResetStats = async (scope: ResetScope) => {
+    const manager = getUnifiedStatsManager();
+    try {
+      const snapshot = scope === "all" ? await manager.resetAllStats() : await manager.resetStats(activeStatsKey, trialRecordKey);
+      setPendingUndo({ scope, expiresAt: snapshot.expiresAt });
+      setGameState((prev) => ({ ...prev, consecutiveCorrect: 0, targetAchieved: false }));
+      await reloadCurrentStats();
+    } catch (error) {
+      console.error("Failed to reset stats:", error);
+    }
+  };
+
+  const handleUndoReset = async () => {
+    setPendingUndo(null);
+    try {
+      await getUnifiedStatsManager().undoReset();
+      await reloadCurrentStats();
+    } catch (error) {
+      console.error("Failed to undo reset:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!pendingUndo) return;
+
+    const timer = setTimeout(() => setPendingUndo(null), Math.max(0, pendingUndo.expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [pendingUndo]);
+
+  // バックアップの復元や環境間の統合の後は設定と統計情報を読み込み直す
+  const handleDataChanged = async () => {
+    setIsFirstTime(true);
+    setGameState((prev) => ({ ...prev, consecutiveCorrect: 0, targetAchieved: false }));
+    await applySavedSettings();
+    setDataVersion((prev) => prev + 1);
+  };
+
+  // プロフィールの切り替え（進行中のセッションやデイリーチャレンジは終了し、設定と統計情報を読み込み直す）
+  const handleSwitchProfile = async (profileId: string) => {
+    try {
+      switchProfile(profileId);
+    } catch (error) {
+      console.error("Failed to switch profile:", error);
+      return;
+    }
+
+    setActiveProfile(getActiveProfile());
+    setPracticeSettings(loadPracticeSettingsFromStorage());
+    setShowProfiles(false);
+    setDailyChallenge(null);
+    setSessionRun(null);
+    setShowSessionSummary(false);
+    setPendingUndo(null);
+    setAchievementToasts([]);
+
+    // PWAで初めて使うプロフィールはブラウザで保存したデータを統合
+    try {
+      await getUnifiedStatsManager().syncOnFirstLaunch();
+    } catch (error) {
+      console.error("Failed to merge browser data:", error);
+    }
+    await handleDataChanged();
+  };
+
+  // デイリーチャレンジの開始・終了
+  const handleToggleDailyChallenge = async () => {
+    setIsFirstTime(true);
+    setGameState((prev) => ({ ...prev, consecutiveCorrect: 0, targetAchieved: false }));
+    setSessionRun(null);
+
+    if (dailyChallenge) {
+      setDailyChallenge(null);
+      return;
+    }
+
+    // 今日の挑戦済みの問題数は統計から復元
+    const dateKey = getDailyChallengeDate();
+    const manager = getUnifiedStatsManager();
+    const stats = await manager.getStatsByKey(generateDailyStatsKey(dateKey));
+
+    setDailyChallenge({
+      dateKey,
+      seeds: getDailyChallengeSeeds(dateKey),
+      completed: stats ? stats.totalChallenges : 0,
+      correct: stats ? stats.recentAnswers.filter((answer) => answer).length : 0,
+    });
+  };
+
   return (
     <main className="min-h-screen bg-white flex items-center justify-center">
       {showSplash && <SplashScreen onComplete={handleSplashComplete} />}
       <div className={showSplash ? "hidden" : ""}>
         <GridMemoryGame
           onShowSplash={handleShowSplash}
-          gameState={gameState}
+          gameState={dailyChallenge ? { ...gameState, ...DAILY_CHALLENGE_SETTINGS } : gameState}
           onGameStateUpdate={handleGameStateUpdate}
           showStartButton={isFirstTime}
           onGameStart={handleGameStart}
           onReset={handleReset}
           onStatsUpdate={handleStatsUpdate}
+          onTrialComplete={handleTrialComplete}
           onShowStats={handleShowStats}
+          dailyChallenge={dailyChallenge}
+          onToggleDailyChallenge={handleToggleDailyChallenge}
+          adaptiveLevel={isAdaptiveActive ? adaptiveLevel : null}
+          sessionRun={sessionRun}
+          onStartSession={handleStartSession}
+          onExitSession={handleExitSession}
+          onShowBackup={() => setShowBackup(true)}
+          profileName={activeProfile ? activeProfile.name : ""}
+          onShowProfiles={() => setShowProfiles(true)}
+          onShowAchievements={() => setShowAchievements(true)}
+          onShowPractice={() => setShowPractice(true)}
+          practiceLabel={`Daily goal: ${todayPracticeAmount} / ${practiceSettings.goal.target} ${practiceSettings.goal.type}`}
+          practiceGoalMet={isGoalMetToday}
         />
         {currentStats && (
           <StatsPopup
+            key={activeProfileId || undefined}
             stats={currentStats}
-            currentSettings={{
-              gridSize: gameState.gridSize,
-              showTime: gameState.showTime,
-              answerTime: gameState.answerTime,
-              numActiveCells: gameState.numActiveCells,
-            }}
+            currentSettings={activeSettings}
+            isDailyChallenge={!!dailyChallenge}
+            trialHistory={trialHistory}
+            trialArchive={trialArchive}
+            skillRating={skillRating || undefined}
+            adaptive={isAdaptiveActive && adaptiveSession ? { session: adaptiveSession, history: adaptiveHistory } : undefined}
             isOpen={showStats}
             onClose={() => setShowStats(false)}
+            onReset={handleResetStats}
+          />
+        )}
+
+        {sessionRun && (
+          <SessionSummary
+            run={sessionRun}
+            rank={sessionRank}
+            highScores={sessionHighScores}
+            isOpen={showSessionSummary}
+            onPlayAgain={() => handleStartSession(sessionRun.mode)}
+            onClose={handleExitSession}
           />
         )}
 
+        {/* 保存容量の警告 */}
+        {storageWarning && (
+          <div
+            className={`fixed bottom-16 left-1/2 -translate-x-1/2 px-4 py-2 rounded-lg shadow-lg z-[60] flex items-center gap-3 text-sm border-2 ${
+              storageWarning.level === "critical"
+                ? "bg-red-100 border-red-400 text-red-800"
+                : storageWarning.level === "low"
+                  ? "bg-yellow-100 border-yellow-400 text-yellow-800"
+                  : "bg-green-100 border-green-400 text-green-800"
+            }`}
+          >
+            <span>
+              {storageWarning.compacted > 0 && `Compacted ${storageWarning.compacted} old answer(s) to free up space. `}
+              {storageWarning.compacted === 0 && storageWarning.level !== "ok" && "There was no old history left to compact. "}
+              {storageWarning.level === "critical"
+                ? "Storage is full. Export a backup before data is lost."
+                : storageWarning.level === "low"
+                  ? "Storage is running low."
+                  : ""}
+            </span>
+            <button onClick={() => setShowStorage(true)} className="font-semibold hover:underline">
+              Details
+            </button>
+            <button onClick={() => setStorageWarning(null)} aria-label="Dismiss">
+              ✕
+            </button>
+          </div>
+        )}
+
+        {/* リセットの取り消し */}
+        {pendingUndo && (
+          <div className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-gray-800 text-white px-4 py-2 rounded-lg shadow-lg z-[60] flex items-center gap-4 text-sm">
+            <span>{pendingUndo.scope === "all" ? "All stats were reset" : "Stats for these settings were reset"}</span>
+            <button onClick={handleUndoReset} className="font-semibold text-yellow-300 hover:underline">
+              Undo
+            </button>
+          </div>
+        )}
+
+        {/* 達成した実績の通知 */}
+        {currentAchievementToast && (
+          <div className="fixed top-4 left-1/2 -translate-x-1/2 bg-yellow-100 border-2 border-yellow-400 px-4 py-2 rounded-lg shadow-lg z-[60] flex items-center gap-3 text-sm">
+            <span className="text-2xl">{currentAchievementToast.icon}</span>
+            <div>
+              <div className="font-bold text-yellow-800">Achievement unlocked: {currentAchievementToast.title}</div>
+              <div className="text-yellow-700">{currentAchievementToast.description}</div>
+            </div>
+            <button
+              onClick={() => setAchievementToasts((prev) => prev.slice(1))}
+              className="text-yellow-700 hover:text-yellow-900"
+              aria-label="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
+        <PracticePanel
+          isOpen={showPractice}
+          onClose={() => setShowPractice(false)}
+          settings={practiceSettings}
+          onSettingsChange={handlePracticeSettingsChange}
+        />
+
+        <AchievementsPanel isOpen={showAchievements} onClose={() => setShowAchievements(false)} />
+
+        <BackupDialog
+          isOpen={showBackup}
+          onClose={() => setShowBackup(false)}
+          onDataChanged={handleDataChanged}
+          onShowStorage={() => {
+            setShowBackup(false);
+            setShowStorage(true);
+          }}
+        />
+
+        <StorageDiagnosticsPanel
+          isOpen={showStorage}
+          onClose={() => {
+            setShowStorage(false);
+            setStorageWarning(null);
+          }}
+          onDataChanged={handleDataChanged}
+        />
+
+        <ProfileDialog
+          isOpen={showProfiles}
+          onClose={() => setShowProfiles(false)}
+          onSwitch={handleSwitchProfile}
+          onProfilesChanged={() => setActiveProfile(getActiveProfile())}
+        />
+
         {/* 環境情報のデバッグ表示（開発時のみ） */}
         {process.env.NODE_ENV === "development" && environmentInfo && (
           <div className="fixed bottom-4 right-4 bg-gray-800 text-white p-2 rounded text-xs z-50">
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { GameSettings, GameStatsMap, TrialRecord } from "../../utils/gameStats";
+import { RECALL_MODES, RecallMode } from "../../utils/gameSettings";
+import { getUnifiedStatsManager } from "../../utils/unifiedStatsManager";
+import { loadSettings, saveSettings } from "../../utils/unifiedSettingsManager";
+import { subscribeToStatsChanges } from "../../utils/statsChannel";
+import { getActiveProfile, getActiveProfileId } from "../../utils/profiles";
+import { SkillRating, expectedScore } from "../../utils/skillRating";
+import { TrialArchive } from "../../utils/trialArchive";
+import {
+  STATS_SORT_OPTIONS,
+  StatsBucket,
+  StatsBucketFilter,
+  StatsSortKey,
+  buildStatsBuckets,
+  filterStatsBuckets,
+  sortStatsBuckets,
+} from "../../utils/statsOverview";
+import {
+  DEFAULT_STATS_WINDOW,
+  STATS_WINDOWS,
+  StatsWindowId,
+  WIDE_INTERVAL_THRESHOLD,
+  getStatsWindow,
+  loadStatsWindowFromStorage,
+  saveStatsWindowToStorage,
+} from "../../utils/statsWindows";
+
+const RECALL_MODE_LABELS: Record<RecallMode, string> = {
+  pattern: "Pattern",
+  sequence: "Sequence",
+  reverse: "Reverse",
+};
+
+// 設定の組み合わせを1行で表示
+const formatSettings = (settings: GameSettings): string => {
+  const parts = [
+    `${settings.gridSize}×${settings.gridSize}`,
+    `${settings.numActiveCells} cells`,
+    `${settings.showTime}ms`,
+    settings.answerTime === 0 ? "no limit" : `${settings.answerTime}ms to answer`,
+  ];
+  if (settings.recallMode && settings.recallMode !== "pattern") parts.push(RECALL_MODE_LABELS[settings.recallMode]);
+  if ((settings.retentionDelay || 0) > 0) {
+    const mask = settings.retentionMask && settings.retentionMask !== "none" ? ` (${settings.retentionMask})` : "";
+    parts.push(`${settings.retentionDelay}ms delay${mask}`);
+  }
+  return parts.join(" · ");
+};
+
+const getBucketTitle = (bucket: StatsBucket): string => {
+  if (bucket.settings) return formatSettings(bucket.settings);
+  return bucket.isDaily ? `📅 Daily challenge ${bucket.settingsKey.replace(/^daily-/, "")}` : bucket.settingsKey;
+};
+
+// 全設定の統計情報の一覧
+export default function StatsPage() {
+  const router = useRouter();
+  const [data, setData] = useState<{ statsMap: GameStatsMap; records: TrialRecord[]; archive: TrialArchive | null } | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const [skillRating, setSkillRating] = useState<SkillRating | null>(null);
+  const [sortKey, setSortKey] = useState<StatsSortKey>("lastPlayed");
+  const [filter, setFilter] = useState<StatsBucketFilter>({ includeDaily: false, minChallenges: 1 });
+  const [statsWindow, setStatsWindow] = useState<StatsWindowId>(DEFAULT_STATS_WINDOW);
+
+  // 統計情報を読み込み、他のタブで変更されたら読み込み直す
+  useEffect(() => {
+    const loadBuckets = async () => {
+      try {
+        const manager = getUnifiedStatsManager();
+        setData({ statsMap: await manager.getAllStats(), records: await manager.getTrialHistory(), archive: manager.getTrialArchive() });
+        setSkillRating(await manager.getSkillRating());
+      } catch (error) {
+        console.error("Failed to load stats:", error);
+        setData({ statsMap: {}, records: [], archive: null });
+      }
+    };
+
+    setProfileName(getActiveProfile().name);
+    setStatsWindow(loadStatsWindowFromStorage());
+    loadBuckets();
+    return subscribeToStatsChanges((change) => {
+      if (change.profileId === getActiveProfileId()) loadBuckets();
+    });
+  }, []);
+
+  // 選択した設定を保存してゲーム画面へ移動
+  const handlePlay = async (settings: GameSettings) => {
+    try {
+      const current = await loadSettings();
+      await saveSettings({ ...current, ...settings, adaptive: false });
+      router.push("/?play");
+    } catch (error) {
+      console.error("Failed to apply settings:", error);
+    }
+  };
+
+  const handleStatsWindowChange = (windowId: StatsWindowId) => {
+    setStatsWindow(windowId);
+    saveStatsWindowToStorage(windowId);
+  };
+
+  const buckets = data ? buildStatsBuckets(data.statsMap, data.records, statsWindow, Date.now(), data.archive) : null;
+  const gridSizes = buckets
+    ? [...new Set(buckets.flatMap((bucket) => (bucket.settings ? [bucket.settings.gridSize] : [])))].sort((a, b) => a - b)
+    : [];
+  const visibleBuckets = buckets ? sortStatsBuckets(filterStatsBuckets(buckets, filter), sortKey) : [];
+
+  return (
+    <main className="min-h-screen bg-white flex justify-center p-4">
+      <div className="w-full max-w-md space-y-4">
+        <div className="flex justify-between items-center">
+          <h1 className="text-xl font-bold text-black">📊 All Settings</h1>
+          <Link href="/" className="text-blue-600 hover:underline text-sm">
+            ← Back to game
+          </Link>
+        </div>
+        {profileName && (
+          <div className="text-sm text-gray-600">
+            Profile: {profileName}
+            {skillRating && skillRating.trials > 0 && ` · Skill rating ${skillRating.rating}`}
+          </div>
+        )}
+
+        {/* 並べ替えと絞り込み */}
+        <div className="bg-gray-50 p-3 rounded-lg text-sm text-black grid grid-cols-2 gap-2">
+          <label>
+            Sort by
+            <select value={sortKey} onChange={(e) => setSortKey(e.target.value as StatsSortKey)} className="border px-2 py-1 rounded w-full">
+              {STATS_SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Grid size
+            <select
+              value={filter.gridSize ?? ""}
+              onChange={(e) => setFilter((prev) => ({ ...prev, gridSize: e.target.value ? Number(e.target.value) : undefined }))}
+              className="border px-2 py-1 rounded w-full"
+            >
+              <option value="">All</option>
+              {gridSizes.map((size) => (
+                <option key={size} value={size}>
+                  {size}×{size}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Recall mode
+            <select
+              value={filter.recallMode ?? ""}
+              onChange={(e) => setFilter((prev) => ({ ...prev, recallMode: (e.target.value || undefined) as RecallMode | undefined }))}
+              className="border px-2 py-1 rounded w-full"
+            >
+              <option value="">All</option>
+              {RECALL_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {RECALL_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Min. challenges
+            <input
+              type="number"
+              min={0}
+              value={filter.minChallenges}
+              onChange={(e) => setFilter((prev) => ({ ...prev, minChallenges: Math.max(0, Number(e.target.value) || 0) }))}
+              className="border px-2 py-1 rounded w-full"
+            />
+          </label>
+          <label>
+            Accuracy over
+            <select
+              value={statsWindow}
+              onChange={(e) => handleStatsWindowChange(e.target.value as StatsWindowId)}
+              className="border px-2 py-1 rounded w-full"
+            >
+              {STATS_WINDOWS.map((definition) => (
+                <option key={definition.id} value={definition.id}>
+                  {definition.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 self-end">
+            <input
+              type="checkbox"
+              checked={filter.includeDaily}
+              onChange={(e) => setFilter((prev) => ({ ...prev, includeDaily: e.target.checked }))}
+            />
+            Include daily challenges
+          </label>
+        </div>
+
+        {/* 設定ごとの統計情報 */}
+        {buckets === null ? (
+          <div className="text-sm text-gray-500">Loading…</div>
+        ) : visibleBuckets.length === 0 ? (
+          <div className="text-sm text-gray-500">
+            {buckets.length === 0 ? "No stats yet. Play a few rounds first!" : "No settings match these filters."}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {visibleBuckets.map((bucket) => (
+              <li key={bucket.settingsKey} className="border border-gray-200 rounded-lg p-3 text-sm">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="font-semibold text-gray-800">{getBucketTitle(bucket)}</div>
+                  {bucket.settings && (
+                    <button
+                      onClick={() => handlePlay(bucket.settings!)}
+                      className="bg-blue-500 text-white px-3 py-1 rounded hover:bg-blue-600 transition-colors flex-shrink-0"
+                    >
+                      Play
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-center mt-2">
+                  <div>
+                    <div className="text-lg font-bold text-blue-600">{bucket.window.accuracy !== null ? `${bucket.window.accuracy}%` : "–"}</div>
+                    <div className="text-xs text-gray-500">
+                      {getStatsWindow(statsWindow).label}
+                      {bucket.window.accuracy !== null && (
+                        <span
+                          className={bucket.window.upper! - bucket.window.lower! > WIDE_INTERVAL_THRESHOLD ? "block text-amber-600" : "block"}
+                          title={`95% range from ${bucket.window.answers} answers`}
+                        >
+                          {bucket.window.lower}–{bucket.window.upper}% · n={bucket.window.answers}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-lg font-bold text-green-600">{bucket.stats.maxConsecutiveCorrect}</div>
+                    <div className="text-xs text-gray-500">Best streak</div>
+                  </div>
+                  <div>
+                    <div className="text-lg font-bold text-orange-600">{bucket.stats.totalChallenges}</div>
+                    <div className="text-xs text-gray-500">Challenges</div>
+                  </div>
+                </div>
+                <div className="text-xs text-gray-400 mt-1 space-x-2">
+                  {bucket.difficulty !== null && (
+                    <span>
+                      Difficulty {bucket.difficulty}
+                      {skillRating &&
+                        skillRating.trials > 0 &&
+                        ` (expected ${Math.round(expectedScore(skillRating.rating, bucket.difficulty) * 100)}%)`}
+                    </span>
+                  )}
+                  {bucket.stats.lastPlayedAt && <span>Last played {new Date(bucket.stats.lastPlayedAt).toLocaleDateString()}</span>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
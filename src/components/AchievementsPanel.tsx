@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from "react";
+import { ACHIEVEMENTS, AchievementContext, UnlockedAchievement, getAchievementProgress, loadAchievementsFromStorage } from "../utils/achievements";
+import { getUnifiedStatsManager } from "../utils/unifiedStatsManager";
+
+interface AchievementsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function AchievementsPanel({ isOpen, onClose }: AchievementsPanelProps) {
+  const [context, setContext] = useState<AchievementContext | null>(null);
+  const [unlocked, setUnlocked] = useState<UnlockedAchievement[]>([]);
+
+  // 開くたびに達成状況を読み込む
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setUnlocked(loadAchievementsFromStorage());
+    getUnifiedStatsManager()
+      .getAchievementContext()
+      .then((result) => {
+        if (!cancelled) setContext(result);
+      })
+      .catch((error) => console.error("Failed to load achievements:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const unlockedDates = new Map(unlocked.map((achievement) => [achievement.id, achievement.unlockedAt]));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-lg w-full max-w-sm max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* ヘッダー部分 */}
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+          <h2 className="text-lg font-bold">
+            🏅 Achievements ({unlockedDates.size} / {ACHIEVEMENTS.length})
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-xl p-1" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* スクロール可能なコンテンツ部分 */}
+        <ul className="flex-1 overflow-y-auto p-4 space-y-2">
+          {ACHIEVEMENTS.map((achievement) => {
+            const unlockedAt = unlockedDates.get(achievement.id);
+            const progress = context ? getAchievementProgress(achievement.condition, context) : null;
+
+            return (
+              <li
+                key={achievement.id}
+                className={`flex items-center gap-3 p-3 rounded-lg ${unlockedAt ? "bg-yellow-50 border border-yellow-200" : "bg-gray-50"}`}
+              >
+                <span className={`text-2xl ${unlockedAt ? "" : "grayscale opacity-40"}`}>{achievement.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className={`font-semibold text-sm ${unlockedAt ? "text-yellow-800" : "text-gray-700"}`}>{achievement.title}</div>
+                  <div className="text-xs text-gray-600">{achievement.description}</div>
+                  {unlockedAt ? (
+                    <div className="text-xs text-yellow-700 mt-1">Unlocked {new Date(unlockedAt).toLocaleDateString()}</div>
+                  ) : (
+                    progress && (
+                      <div className="flex items-center gap-2 mt-1">
+                        <div className="flex-1 bg-gray-200 rounded h-1.5">
+                          <div
+                            className="bg-blue-500 rounded h-1.5"
+                            style={{ width: `${Math.min(100, Math.round((progress.current / progress.target) * 100))}%` }}
+                          />
+                        </div>
+                        <span className="text-xs text-gray-500">
+                          {Math.min(progress.current, progress.target)} / {progress.target}
+                        </span>
+                      </div>
+                    )
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  BACKUP_FILE_EXTENSION,
+  BackupEnvelope,
+  BackupError,
+  BackupRestorePreview,
+  BackupRestoreError,
+  createBackup,
+  downloadBackup,
+  getBackupFileName,
+  parseBackup,
+  previewBackupRestore,
+  restoreBackup,
+} from "../utils/backup";
+import { STATS_IMPORT_STRATEGIES, StatsImportStrategy } from "../utils/statsImport";
+import { SyncReport, loadSyncReportFromStorage } from "../utils/environmentSync";
+import { getUnifiedStatsManager } from "../utils/unifiedStatsManager";
+
+interface BackupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDataChanged: () => void;
+  onShowStorage: () => void;
+}
+
+// 統合結果の要約
+const formatSyncReport = (report: SyncReport): string => {
+  const combined = report.combined ? `, ${report.combined} setting(s) combined` : "";
+  return `${new Date(report.syncedAt).toLocaleString()}: ${report.toPWA} setting(s) and ${report.trialsToPWA} trial(s) to the app, ${report.toWeb} setting(s) and ${report.trialsToWeb} trial(s) to the browser${combined}`;
+};
+
+export default function BackupDialog({ isOpen, onClose, onDataChanged, onShowStorage }: BackupDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<BackupEnvelope | null>(null);
+  const [strategy, setStrategy] = useState<StatsImportStrategy>("keepNewer");
+  const [restoreSettings, setRestoreSettings] = useState(true);
+  const [preview, setPreview] = useState<BackupRestorePreview | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [syncReport, setSyncReport] = useState<SyncReport | null>(null);
+
+  // 開くたびに最後の統合結果を読み込む
+  useEffect(() => {
+    if (isOpen) setSyncReport(loadSyncReportFromStorage());
+  }, [isOpen]);
+
+  // 選択したファイルと復元方法から変更内容を再計算
+  useEffect(() => {
+    if (!backup) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    previewBackupRestore(backup, { strategy, restoreSettings })
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((error) => {
+        console.error("Failed to preview backup:", error);
+        if (!cancelled) setErrors([String(error)]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backup, strategy, restoreSettings]);
+
+  if (!isOpen) return null;
+
+  const resetImport = () => {
+    setBackup(null);
+    setErrors([]);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleClose = () => {
+    resetImport();
+    setMessage(null);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const created = await createBackup();
+      downloadBackup(created);
+      setMessage(`Saved ${getBackupFileName(new Date(created.createdAt))}`);
+    } catch (error) {
+      console.error("Failed to create backup:", error);
+      setErrors([String(error)]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setMessage(null);
+    setErrors([]);
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (error) {
+      setBackup(null);
+      setErrors(error instanceof BackupError ? error.errors : [String(error)]);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    setIsBusy(true);
+    try {
+      const result = await restoreBackup(backup, { strategy, restoreSettings });
+      resetImport();
+      setMessage(`Restored ${result.stats.added + result.stats.updated} setting(s) and ${result.newTrials} trial(s)`);
+      onDataChanged();
+    } catch (error) {
+      console.error("Failed to restore backup:", error);
+      setErrors([error instanceof Error ? error.message : String(error)]);
+      // 一部のみ復元できた場合も画面の表示を保存した内容に合わせる
+      if (error instanceof BackupRestoreError && error.applied.length > 0) onDataChanged();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSync = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const report = await getUnifiedStatsManager().syncEnvironments();
+      if (report) {
+        setSyncReport(report);
+        setMessage(`Synced ${report.toWeb + report.toPWA} setting(s) and ${report.trialsToWeb + report.trialsToPWA} trial(s)`);
+        onDataChanged();
+      }
+    } catch (error) {
+      console.error("Failed to sync data:", error);
+      setErrors([String(error)]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          handleClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-lg w-full max-w-sm max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* ヘッダー部分 */}
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+          <h2 className="text-lg font-bold">💾 Backup & Restore</h2>
+          <button onClick={handleClose} className="text-gray-500 hover:text-gray-700 text-xl p-1" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* スクロール可能なコンテンツ部分 */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="text-sm text-gray-600">
+            Stats, settings and trial history of the current profile are saved to a {BACKUP_FILE_EXTENSION} file.
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={handleExport} disabled={isBusy} className="flex-1 bg-blue-500 text-white px-4 py-2 rounded disabled:opacity-50">
+              Export
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+              className="flex-1 bg-gray-500 text-white px-4 py-2 rounded disabled:opacity-50"
+            >
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${BACKUP_FILE_EXTENSION},.json,application/json`}
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+          </div>
+
+          {/* ブラウザとインストールしたアプリのデータの統合 */}
+          {getUnifiedStatsManager().canSyncEnvironments() && (
+            <div className="bg-gray-50 p-3 rounded-lg text-sm space-y-2">
+              <h3 className="font-semibold text-gray-800">🔄 Browser ↔ App</h3>
+              <div className="text-gray-600">Merge the stats saved in the browser with those in the installed app, keeping the newer ones.</div>
+              <button onClick={handleSync} disabled={isBusy} className="w-full bg-green-500 text-white px-4 py-2 rounded disabled:opacity-50">
+                Sync now
+              </button>
+              {syncReport && <div className="text-xs text-gray-500">Last sync {formatSyncReport(syncReport)}</div>}
+            </div>
+          )}
+
+          <button onClick={onShowStorage} className="w-full text-sm text-blue-600 hover:underline text-left">
+            🩺 Storage usage & history compaction →
+          </button>
+
+          {message && <div className="bg-green-50 p-3 rounded-lg text-sm text-green-800">{message}</div>}
+
+          {errors.length > 0 && (
+            <div className="bg-red-50 p-3 rounded-lg text-sm text-red-800">
+              <h3 className="font-semibold mb-1">Could not read the backup</h3>
+              <ul className="list-disc pl-5 space-y-1 max-h-40 overflow-y-auto break-all">
+                {errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* 復元前の確認 */}
+          {backup && (
+            <div className="bg-gray-50 p-3 rounded-lg space-y-3 text-sm">
+              <div>
+                <h3 className="font-semibold text-gray-800">Restore this backup?</h3>
+                <div className="text-gray-600">
+                  Created {new Date(backup.createdAt).toLocaleString()} ({backup.environment}
+                  {backup.profile ? `, ${backup.profile}` : ""})
+                </div>
+              </div>
+
+              <label className="block text-black">
+                Existing stats:
+                <select
+                  value={strategy}
+                  onChange={(e) => setStrategy(e.target.value as StatsImportStrategy)}
+                  className="border px-2 py-1 rounded ml-2"
+                >
+                  {STATS_IMPORT_STRATEGIES.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <div className="text-xs text-gray-500 mt-1">{STATS_IMPORT_STRATEGIES.find((option) => option.value === strategy)?.description}</div>
+              </label>
+
+              <label className="flex items-center gap-2 text-black">
+                <input type="checkbox" checked={restoreSettings} onChange={(e) => setRestoreSettings(e.target.checked)} />
+                Restore settings
+              </label>
+
+              {preview && (
+                <ul className="text-gray-700 space-y-1">
+                  <li>
+                    Stats: {preview.stats.added} new, {preview.stats.updated} updated, {preview.stats.unchanged} unchanged
+                  </li>
+                  <li>Trials: {preview.newTrials} new</li>
+                  {preview.newArchivedDays > 0 && <li>Compacted history: {preview.newArchivedDays} new daily total(s)</li>}
+                  {restoreSettings && <li>Settings: {preview.settingsChanged ? "will be replaced" : "unchanged"}</li>}
+                </ul>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button onClick={resetImport} disabled={isBusy} className="bg-gray-500 text-white px-4 py-2 rounded disabled:opacity-50">
+                  Cancel
+                </button>
+                <button onClick={handleRestore} disabled={isBusy || !preview} className="bg-red-500 text-white px-4 py-2 rounded disabled:opacity-50">
+                  Restore
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
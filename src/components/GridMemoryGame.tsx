@@ -1,6 +1,11 @@
 "use client";
-import React, { useState, useEffect, useCallback } from "react";
-import { saveSettings, validateSettings } from "../utils/gameSettings";
+import React, { useState, useEffect, useCallback, useRef, useSyncExternalStore } from "react";
+import { validateSettings, RecallMode, RECALL_MODES, RetentionMask, RETENTION_MASKS } from "../utils/gameSettings";
+import { GameEngine, GameEngineState, TrialResult, getExpectedSequence, getMemorizeTime, isSequenceMode } from "../utils/gameEngine";
+import { AdaptiveLevel } from "../utils/adaptiveDifficulty";
+import { saveSettings } from "../utils/unifiedSettingsManager";
+import { createSeededRandom } from "../utils/seededRandom";
+import { SESSION_MODES, SESSION_MODE_TYPES, SessionModeType, SessionRun, getSessionTimeRemaining } from "../utils/sessionMode";
 
 interface GameState {
   gridSize: number;
@@ -8,10 +13,37 @@ interface GameState {
   answerTime: number;
   numActiveCells: number;
   targetConsecutive: number;
+  recallMode: RecallMode;
+  adaptive: boolean;
+  staircaseUp: number;
+  staircaseDown: number;
+  retentionDelay: number;
+  retentionMask: RetentionMask;
   consecutiveCorrect: number;
   targetAchieved: boolean;
 }
 
+// 解答方法の表示名
+const RECALL_MODE_LABELS: Record<RecallMode, string> = {
+  pattern: "Pattern",
+  sequence: "Sequence",
+  reverse: "Reverse Sequence",
+};
+
+// 保持時間中の表示の表示名
+const RETENTION_MASK_LABELS: Record<RetentionMask, string> = {
+  none: "Blank",
+  checker: "Checkerboard Mask",
+  noise: "Noise",
+};
+
+interface DailyChallengeProgress {
+  dateKey: string;
+  seeds: number[];
+  completed: number;
+  correct: number;
+}
+
 interface GridMemoryGameProps {
   onShowSplash: () => void;
   gameState: GameState;
@@ -19,10 +51,30 @@ interface GridMemoryGameProps {
   showStartButton: boolean;
   onGameStart: () => void;
   onReset: () => void;
-  onStatsUpdate: (isCorrect: boolean) => void;
+  onStatsUpdate: (result: TrialResult) => void;
+  onTrialComplete: (state: GameEngineState) => void;
   onShowStats: () => void;
+  dailyChallenge: DailyChallengeProgress | null;
+  onToggleDailyChallenge: () => void;
+  adaptiveLevel: AdaptiveLevel | null;
+  sessionRun: SessionRun | null;
+  onStartSession: (mode: SessionModeType) => void;
+  onExitSession: () => void;
+  onShowBackup: () => void;
+  profileName: string;
+  onShowProfiles: () => void;
+  onShowAchievements: () => void;
+  onShowPractice: () => void;
+  practiceLabel: string;
+  practiceGoalMet: boolean;
 }
 
+// 残り時間をm:ss形式で表示
+const formatTimeRemaining = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
+
 export default function GridMemoryGame({
   onShowSplash,
   gameState,
@@ -31,10 +83,43 @@ export default function GridMemoryGame({
   onGameStart,
   onReset,
   onStatsUpdate,
+  onTrialComplete,
   onShowStats,
+  dailyChallenge,
+  onToggleDailyChallenge,
+  adaptiveLevel,
+  sessionRun,
+  onStartSession,
+  onExitSession,
+  onShowBackup,
+  profileName,
+  onShowProfiles,
+  onShowAchievements,
+  onShowPractice,
+  practiceLabel,
+  practiceGoalMet,
 }: GridMemoryGameProps) {
   // 設定可能な値（親から渡された状態を使用）
-  const { gridSize, showTime, answerTime, numActiveCells, targetConsecutive, consecutiveCorrect, targetAchieved } = gameState;
+  const {
+    gridSize,
+    showTime,
+    answerTime,
+    numActiveCells,
+    targetConsecutive,
+    recallMode,
+    adaptive,
+    staircaseUp,
+    staircaseDown,
+    retentionDelay,
+    retentionMask,
+    consecutiveCorrect,
+    targetAchieved,
+  } = gameState;
+
+  // 適応難易度が有効な場合はセル数と表示時間を自動調整された値で出題
+  const isAdaptive = !!adaptiveLevel;
+  const effectiveNumActiveCells = adaptiveLevel ? adaptiveLevel.numActiveCells : numActiveCells;
+  const effectiveShowTime = adaptiveLevel ? adaptiveLevel.showTime : showTime;
 
   // 設定用の一時的な値
   const [tempGridSize, setTempGridSize] = useState(gridSize);
@@ -42,70 +127,112 @@ export default function GridMemoryGame({
   const [tempAnswerTime, setTempAnswerTime] = useState(answerTime);
   const [tempNumActiveCells, setTempNumActiveCells] = useState(numActiveCells);
   const [tempTargetConsecutive, setTempTargetConsecutive] = useState(targetConsecutive);
+  const [tempRecallMode, setTempRecallMode] = useState(recallMode);
+  const [tempAdaptive, setTempAdaptive] = useState(adaptive);
+  const [tempStaircaseUp, setTempStaircaseUp] = useState(staircaseUp);
+  const [tempStaircaseDown, setTempStaircaseDown] = useState(staircaseDown);
+  const [tempRetentionDelay, setTempRetentionDelay] = useState(retentionDelay);
+  const [tempRetentionMask, setTempRetentionMask] = useState(retentionMask);
   const [showSettings, setShowSettings] = useState(false);
-
-  // ゲーム状態
-  const [solution, setSolution] = useState<boolean[]>([]);
-  const [previousSolution, setPreviousSolution] = useState<boolean[]>([]);
-  const [userGrid, setUserGrid] = useState<boolean[]>([]);
-  const [showAnswer, setShowAnswer] = useState(true);
-  const [isFinished, setIsFinished] = useState(false);
-  const [timerExpired, setTimerExpired] = useState(false);
-  const [isRetryMode, setIsRetryMode] = useState(false);
-  const [isInitialized, setIsInitialized] = useState(false);
+  const [showSessionPicker, setShowSessionPicker] = useState(false);
+  // タイムアタックの残り時間表示用の現在時刻
+  const [sessionNow, setSessionNow] = useState(() => Date.now());
+
+  // ゲームエンジン（フェーズ遷移とタイマーを管理）
+  const gradedHandlerRef = useRef<(result: TrialResult, state: GameEngineState) => void>(() => {});
+  const engineRef = useRef<GameEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new GameEngine(
+      { gridSize, showTime: effectiveShowTime, answerTime, numActiveCells: effectiveNumActiveCells, recallMode, retentionDelay },
+      { onGraded: (result, state) => gradedHandlerRef.current(result, state) },
+    );
+  }
+  const engine = engineRef.current;
+  const engineState = useSyncExternalStore(
+    useCallback((listener: () => void) => engine.subscribe(listener), [engine]),
+    () => engine.getState(),
+    () => engine.getState(),
+  );
+  const { phase, solution, sequence, userGrid, userSequence, highlightStep, result } = engineState;
+  const sequential = isSequenceMode(engineState.settings.recallMode);
+  const expectedSequence = getExpectedSequence(sequence, engineState.settings.recallMode);
+  const showAnswer = phase === "memorize";
+  const isFinished = phase === "graded";
+  const isDailyComplete = !!dailyChallenge && dailyChallenge.completed >= dailyChallenge.seeds.length;
+  const dailyDateKey = dailyChallenge ? dailyChallenge.dateKey : null;
+  // セッションの開始・終了を識別するキー
+  const sessionKey = sessionRun ? `${sessionRun.mode}-${sessionRun.endedAt ?? "active"}` : null;
+  const isSessionRunning = !!sessionRun && sessionRun.startedAt !== null && sessionRun.endedAt === null;
+  const sessionTimeRemaining = sessionRun ? getSessionTimeRemaining(sessionRun, sessionNow) : null;
+  // 残り時間バーの長さ（記憶フェーズは表示時間、解答フェーズは解答時間が有限の場合のみ）
+  const countdownDuration =
+    phase === "memorize"
+      ? getMemorizeTime(engineState.settings, sequence.length)
+      : phase === "retention"
+        ? engineState.settings.retentionDelay
+        : phase === "recall" && engineState.settings.answerTime > 0
+          ? engineState.settings.answerTime
+          : 0;
+  // 保持時間中に表示するマスク（ノイズは問題のシードから生成して毎回同じ模様にする）
+  const maskRandom = phase === "retention" && retentionMask === "noise" ? createSeededRandom(((engineState.seed ?? 0) ^ 0x5bd1e995) >>> 0) : null;
+  const maskGrid =
+    phase === "retention" && retentionMask !== "none"
+      ? Array.from({ length: gridSize * gridSize }, (_, index) =>
+          maskRandom ? maskRandom() < 0.5 : (Math.floor(index / gridSize) + (index % gridSize)) % 2 === 0,
+        )
+      : null;
+
+  // 次の問題を開始（デイリーチャレンジ中は当日の問題列から出題）
+  const startNextTrial = () => {
+    if (dailyChallenge) {
+      if (isDailyComplete) return;
+      engine.start(dailyChallenge.seeds[dailyChallenge.completed]);
+    } else {
+      engine.start();
+    }
+  };
+  const startNextTrialRef = useRef(startNextTrial);
+  startNextTrialRef.current = startNextTrial;
 
   // タッチイベント用の状態
   const [touchStartCellIndex, setTouchStartCellIndex] = useState<number | null>(null);
 
-  // グリッド生成
-  const generateGrid = useCallback(() => {
-    const grid = Array(gridSize * gridSize).fill(false);
-    const positions = [];
-    for (let i = 0; i < gridSize * gridSize; i++) {
-      positions.push(i);
-    }
+  // アンマウント時にタイマーを破棄
+  useEffect(() => {
+    return () => engine.dispose();
+  }, [engine]);
 
-    for (let i = 0; i < numActiveCells; i++) {
-      const randomIndex = Math.floor(Math.random() * positions.length);
-      const position = positions.splice(randomIndex, 1)[0];
-      grid[position] = true;
+  // 設定変更時にエンジンを再設定
+  // 適応難易度によるレベル変更は進行中の問題を中断せず次の問題から適用
+  const wasAdaptiveRef = useRef(isAdaptive);
+  useEffect(() => {
+    const settings = { gridSize, showTime: effectiveShowTime, answerTime, numActiveCells: effectiveNumActiveCells, recallMode, retentionDelay };
+    if (isAdaptive && wasAdaptiveRef.current) {
+      engine.updateSettings(settings);
+    } else {
+      engine.configure(settings);
     }
+    wasAdaptiveRef.current = isAdaptive;
+  }, [engine, gridSize, effectiveShowTime, answerTime, effectiveNumActiveCells, recallMode, retentionDelay, isAdaptive]);
 
-    return grid;
-  }, [gridSize, numActiveCells]);
+  // デイリーチャレンジやセッションの開始・終了時は初期状態に戻す
+  useEffect(() => {
+    engine.reset();
+  }, [engine, dailyDateKey, sessionKey]);
 
-  // 初回のみ初期化（Startボタンが非表示の場合のみ）
+  // タイムアタック中は残り時間の表示を更新
   useEffect(() => {
-    if (!isInitialized && !showStartButton) {
-      const newSolution = generateGrid();
-      setSolution(newSolution);
-      setUserGrid(Array(gridSize * gridSize).fill(false));
-      setShowAnswer(true);
-      setIsFinished(false);
-      setTimerExpired(false);
-      setIsRetryMode(false);
-      setIsInitialized(true);
-
-      const showTimer = setTimeout(() => {
-        setShowAnswer(false);
-      }, showTime);
-
-      // 解答時間が0（無期限）の場合はタイマーを設定しない
-      let answerTimer: NodeJS.Timeout | null = null;
-      if (answerTime > 0) {
-        answerTimer = setTimeout(() => {
-          setTimerExpired(true);
-        }, showTime + answerTime);
-      }
+    if (!isSessionRunning) return;
+    const interval = setInterval(() => setSessionNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isSessionRunning]);
 
-      return () => {
-        clearTimeout(showTimer);
-        if (answerTimer) {
-          clearTimeout(answerTimer);
-        }
-      };
+  // Startボタンが非表示の場合は自動的に開始
+  useEffect(() => {
+    if (phase === "idle" && !showStartButton && !isDailyComplete) {
+      startNextTrialRef.current();
     }
-  }, [isInitialized, showStartButton, gridSize, numActiveCells, showTime, answerTime, generateGrid]);
+  }, [engine, phase, showStartButton, isDailyComplete]);
 
   // グリッドサイズ変更時にnumActiveCellsを自動調整
   useEffect(() => {
@@ -115,11 +242,44 @@ export default function GridMemoryGame({
     }
   }, [gridSize, numActiveCells, onGameStateUpdate]);
 
+  // 採点時の処理（最新のpropsを参照するため毎レンダーで更新）
+  gradedHandlerRef.current = (trialResult, state) => {
+    // 解答記録はRetryや時間切れも含めて全て保存
+    onTrialComplete(state);
+
+    // Retryモードの場合は統計情報と連続正解数を更新しない
+    if (state.isRetry) return;
+
+    // 統計情報を更新（時間切れも入力済みの内容で採点して記録）
+    onStatsUpdate(trialResult);
+
+    if (trialResult.isCorrect) {
+      const newConsecutive = consecutiveCorrect + 1;
+
+      // 目標達成チェック
+      if (newConsecutive >= targetConsecutive && !targetAchieved) {
+        onGameStateUpdate({
+          consecutiveCorrect: 0,
+          targetAchieved: true,
+        });
+      } else {
+        onGameStateUpdate({
+          consecutiveCorrect: newConsecutive,
+          targetAchieved: false,
+        });
+      }
+    } else {
+      // 不正解の場合、連続正解数をゼロにリセット
+      onGameStateUpdate({
+        consecutiveCorrect: 0,
+        targetAchieved: false,
+      });
+    }
+  };
+
   const toggleCell = (index: number) => {
-    if (showAnswer || isFinished || timerExpired || showStartButton) return;
-    const newGrid = [...userGrid];
-    newGrid[index] = !newGrid[index];
-    setUserGrid(newGrid);
+    if (showStartButton) return;
+    engine.toggleCell(index);
   };
 
   // タッチスタート時のセルインデックスを記録
@@ -151,108 +311,20 @@ export default function GridMemoryGame({
   };
 
   const checkAnswer = () => {
-    setIsFinished(true);
-
-    // 現在の問題を前回の問題として保存（Retryで使用するため）
-    if (!isRetryMode) {
-      setPreviousSolution([...solution]);
-    }
-
-    // 正解判定
-    const isCorrect = solution.every((cell, index) => cell === userGrid[index]);
-
-    // Retryモードでない場合のみ統計情報と連続正解数を更新
-    if (!isRetryMode) {
-      // 統計情報を更新
-      onStatsUpdate(isCorrect);
-
-      if (isCorrect) {
-        const newConsecutive = consecutiveCorrect + 1;
-
-        // 目標達成チェック
-        if (newConsecutive >= targetConsecutive && !targetAchieved) {
-          onGameStateUpdate({
-            consecutiveCorrect: 0,
-            targetAchieved: true,
-          });
-        } else {
-          onGameStateUpdate({
-            consecutiveCorrect: newConsecutive,
-            targetAchieved: false,
-          });
-        }
-      } else {
-        // 不正解の場合、連続正解数をゼロにリセット
-        onGameStateUpdate({
-          consecutiveCorrect: 0,
-          targetAchieved: false,
-        });
-      }
-    }
+    engine.submit();
   };
 
   const resetGame = () => {
-    const newSolution = generateGrid();
-    setSolution(newSolution);
-    setUserGrid(Array(gridSize * gridSize).fill(false));
-    setShowAnswer(true);
-    setIsFinished(false);
-    setTimerExpired(false);
-    setIsRetryMode(false);
-
-    const showTimer = setTimeout(() => {
-      setShowAnswer(false);
-    }, showTime);
-
-    // 解答時間が0（無期限）の場合はタイマーを設定しない
-    let answerTimer: NodeJS.Timeout | null = null;
-    if (answerTime > 0) {
-      answerTimer = setTimeout(() => {
-        setTimerExpired(true);
-      }, showTime + answerTime);
-    }
-
-    return () => {
-      clearTimeout(showTimer);
-      if (answerTimer) {
-        clearTimeout(answerTimer);
-      }
-    };
+    startNextTrial();
   };
 
   const startGame = () => {
     onGameStart();
-    setIsInitialized(true);
-    resetGame();
+    startNextTrial();
   };
 
   const retryGame = () => {
-    // 前回の問題を復元
-    setSolution([...previousSolution]);
-    setUserGrid(Array(gridSize * gridSize).fill(false));
-    setShowAnswer(true);
-    setIsFinished(false);
-    setTimerExpired(false);
-    setIsRetryMode(true);
-
-    const showTimer = setTimeout(() => {
-      setShowAnswer(false);
-    }, showTime);
-
-    // 解答時間が0（無期限）の場合はタイマーを設定しない
-    let answerTimer: NodeJS.Timeout | null = null;
-    if (answerTime > 0) {
-      answerTimer = setTimeout(() => {
-        setTimerExpired(true);
-      }, showTime + answerTime);
-    }
-
-    return () => {
-      clearTimeout(showTimer);
-      if (answerTimer) {
-        clearTimeout(answerTimer);
-      }
-    };
+    engine.retry();
   };
 
   // 設定を開くときに現在の値を一時的な値にコピー
@@ -262,6 +334,12 @@ export default function GridMemoryGame({
     setTempAnswerTime(answerTime);
     setTempNumActiveCells(numActiveCells);
     setTempTargetConsecutive(targetConsecutive);
+    setTempRecallMode(recallMode);
+    setTempAdaptive(adaptive);
+    setTempStaircaseUp(staircaseUp);
+    setTempStaircaseDown(staircaseDown);
+    setTempRetentionDelay(retentionDelay);
+    setTempRetentionMask(retentionMask);
     setShowSettings(true);
   };
 
@@ -274,6 +352,12 @@ export default function GridMemoryGame({
       answerTime: tempAnswerTime,
       numActiveCells: tempNumActiveCells,
       targetConsecutive: tempTargetConsecutive,
+      recallMode: tempRecallMode,
+      adaptive: tempAdaptive,
+      staircaseUp: tempStaircaseUp,
+      staircaseDown: tempStaircaseDown,
+      retentionDelay: tempRetentionDelay,
+      retentionMask: tempRetentionMask,
     });
 
     // 設定が変更された場合は新しいゲームを開始
@@ -282,7 +366,13 @@ export default function GridMemoryGame({
       validatedSettings.showTime !== showTime ||
       validatedSettings.answerTime !== answerTime ||
       validatedSettings.numActiveCells !== numActiveCells ||
-      validatedSettings.targetConsecutive !== targetConsecutive;
+      validatedSettings.targetConsecutive !== targetConsecutive ||
+      validatedSettings.recallMode !== recallMode ||
+      validatedSettings.adaptive !== adaptive ||
+      validatedSettings.staircaseUp !== staircaseUp ||
+      validatedSettings.staircaseDown !== staircaseDown ||
+      validatedSettings.retentionDelay !== retentionDelay ||
+      validatedSettings.retentionMask !== retentionMask;
 
     // 設定を保存
     try {
@@ -297,18 +387,17 @@ export default function GridMemoryGame({
       answerTime: validatedSettings.answerTime,
       numActiveCells: validatedSettings.numActiveCells,
       targetConsecutive: validatedSettings.targetConsecutive,
+      recallMode: validatedSettings.recallMode,
+      adaptive: validatedSettings.adaptive,
+      staircaseUp: validatedSettings.staircaseUp,
+      staircaseDown: validatedSettings.staircaseDown,
+      retentionDelay: validatedSettings.retentionDelay,
+      retentionMask: validatedSettings.retentionMask,
     });
 
     if (isSettingsChanged) {
       // 設定変更時は起動時のように完全に初期化
-      setIsInitialized(false);
-      setSolution([]);
-      setUserGrid([]);
-      setShowAnswer(true);
-      setIsFinished(false);
-      setTimerExpired(false);
-      setIsRetryMode(false);
-      setPreviousSolution([]);
+      engine.reset();
 
       // 連続正解数と目標達成状態もリセット
       onGameStateUpdate({
@@ -329,7 +418,7 @@ export default function GridMemoryGame({
   };
 
   // 初期化前でStartボタン表示時は空のグリッドを表示
-  if (solution.length === 0 && !showStartButton) {
+  if (phase === "idle" && !showStartButton && !isDailyComplete) {
     return <div>Loading...</div>;
   }
 
@@ -341,15 +430,101 @@ export default function GridMemoryGame({
           <span className="font-normal">Recall</span>
         </button>
         <div className="flex gap-2">
+          <button
+            onClick={onToggleDailyChallenge}
+            className={`${dailyChallenge ? "bg-green-600 hover:bg-green-700" : "bg-green-500 hover:bg-green-600"} text-white p-2 rounded-full transition-colors`}
+            title={dailyChallenge ? "Back to free play" : "Daily challenge"}
+          >
+            📅
+          </button>
+          <button
+            onClick={() => (sessionRun ? onExitSession() : setShowSessionPicker(true))}
+            disabled={!!dailyChallenge}
+            className={`${sessionRun ? "bg-purple-600 hover:bg-purple-700" : "bg-purple-500 hover:bg-purple-600"} text-white p-2 rounded-full transition-colors disabled:opacity-50`}
+            title={sessionRun ? "Back to free play" : "Time attack / Marathon"}
+          >
+            ⏱️
+          </button>
+          <button
+            onClick={onShowProfiles}
+            className="bg-orange-500 text-white p-2 rounded-full hover:bg-orange-600 transition-colors"
+            title={`Profile: ${profileName}`}
+          >
+            👤
+          </button>
+          <button
+            onClick={onShowAchievements}
+            className="bg-yellow-500 text-white p-2 rounded-full hover:bg-yellow-600 transition-colors"
+            title="Achievements"
+          >
+            🏅
+          </button>
+          <button
+            onClick={onShowPractice}
+            className={`${practiceGoalMet ? "bg-green-600 hover:bg-green-700" : "bg-teal-500 hover:bg-teal-600"} text-white p-2 rounded-full transition-colors`}
+            title={practiceLabel}
+          >
+            🎯
+          </button>
           <button onClick={onShowStats} className="bg-blue-500 text-white p-2 rounded-full hover:bg-blue-600 transition-colors" title="Show stats">
             📊
           </button>
-          <button onClick={openSettings} className="bg-gray-500 text-white p-2 rounded-full hover:bg-gray-600 transition-colors" title="Settings">
+          <button
+            onClick={openSettings}
+            disabled={!!dailyChallenge || !!sessionRun}
+            className="bg-gray-500 text-white p-2 rounded-full hover:bg-gray-600 transition-colors disabled:opacity-50"
+            title="Settings"
+          >
             ⚙️
           </button>
         </div>
       </div>
 
+      {/* セッションモードの選択 */}
+      {showSessionPicker && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) {
+              setShowSessionPicker(false);
+            }
+          }}
+        >
+          <div className="bg-white p-6 rounded-lg max-w-sm w-full mx-4" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold">Session Mode</h2>
+              <button onClick={() => setShowSessionPicker(false)} className="text-gray-500 hover:text-gray-700 text-xl">
+                ✕
+              </button>
+            </div>
+
+            <div className="flex flex-col gap-3">
+              {SESSION_MODE_TYPES.map((mode) => {
+                const config = SESSION_MODES[mode];
+                return (
+                  <button
+                    key={mode}
+                    onClick={() => {
+                      setShowSessionPicker(false);
+                      onStartSession(mode);
+                    }}
+                    className="bg-purple-500 text-white px-4 py-3 rounded hover:bg-purple-600 text-left"
+                  >
+                    <div className="font-semibold">{config.label}</div>
+                    <div className="text-xs">
+                      {config.duration !== null
+                        ? `As many correct patterns as possible in ${formatTimeRemaining(config.duration)}`
+                        : `Keep going until ${config.maxMistakes} mistakes`}
+                    </div>
+                  </button>
+                );
+              })}
+              <div className="text-xs text-gray-500">Harder settings and faster answers score more points. Uses your current settings.</div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 設定ポップアップ */}
       {showSettings && (
         <div
@@ -427,7 +602,8 @@ export default function GridMemoryGame({
                     const value = e.target.value === "" ? 0 : parseInt(e.target.value) || 0;
                     setTempNumActiveCells(value);
                   }}
-                  className="border px-2 py-1 rounded w-16 ml-2"
+                  disabled={tempAdaptive}
+                  className="border px-2 py-1 rounded w-16 ml-2 disabled:opacity-50"
                 />
               </label>
               <label className="text-black">
@@ -445,9 +621,104 @@ export default function GridMemoryGame({
                   className="border px-2 py-1 rounded w-16 ml-2"
                 />
               </label>
+              <label className="text-black">
+                Recall Mode:
+                <select
+                  value={tempRecallMode}
+                  onChange={(e) => setTempRecallMode(e.target.value as RecallMode)}
+                  className="border px-2 py-1 rounded ml-2"
+                >
+                  {RECALL_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {RECALL_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-black">
+                Retention Delay (ms):
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  min="0"
+                  max="30000"
+                  value={tempRetentionDelay === 0 ? "" : tempRetentionDelay}
+                  onChange={(e) => {
+                    const value = e.target.value === "" ? 0 : parseInt(e.target.value) || 0;
+                    setTempRetentionDelay(value);
+                  }}
+                  className="border px-2 py-1 rounded w-20 ml-2"
+                />
+              </label>
+              <label className="text-black">
+                Retention Mask:
+                <select
+                  value={tempRetentionMask}
+                  onChange={(e) => setTempRetentionMask(e.target.value as RetentionMask)}
+                  disabled={tempRetentionDelay === 0}
+                  className="border px-2 py-1 rounded ml-2 disabled:opacity-50"
+                >
+                  {RETENTION_MASKS.map((mask) => (
+                    <option key={mask} value={mask}>
+                      {RETENTION_MASK_LABELS[mask]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-black">
+                <input type="checkbox" checked={tempAdaptive} onChange={(e) => setTempAdaptive(e.target.checked)} className="mr-2" />
+                Adaptive Difficulty
+              </label>
+              {tempAdaptive && (
+                <>
+                  <div className="text-xs text-gray-500">
+                    Active cells and show time are tuned automatically. Show Time is used as the slowest level.
+                  </div>
+                  <label className="text-black">
+                    Step Up After (correct):
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      min="1"
+                      max="5"
+                      value={tempStaircaseUp === 0 ? "" : tempStaircaseUp}
+                      onChange={(e) => {
+                        const value = e.target.value === "" ? 0 : parseInt(e.target.value) || 0;
+                        setTempStaircaseUp(value);
+                      }}
+                      className="border px-2 py-1 rounded w-16 ml-2"
+                    />
+                  </label>
+                  <label className="text-black">
+                    Step Down After (wrong):
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      min="1"
+                      max="5"
+                      value={tempStaircaseDown === 0 ? "" : tempStaircaseDown}
+                      onChange={(e) => {
+                        const value = e.target.value === "" ? 0 : parseInt(e.target.value) || 0;
+                        setTempStaircaseDown(value);
+                      }}
+                      className="border px-2 py-1 rounded w-16 ml-2"
+                    />
+                  </label>
+                </>
+              )}
             </div>
 
-            <div className="mt-6 flex justify-end gap-2">
+            <button
+              onClick={() => {
+                cancelSettings();
+                onShowBackup();
+              }}
+              className="mt-4 text-sm text-blue-600 hover:underline"
+            >
+              💾 Backup & Restore
+            </button>
+
+            <div className="mt-4 flex justify-end gap-2">
               <button onClick={cancelSettings} className="bg-gray-500 text-white px-4 py-2 rounded">
                 Cancel
               </button>
@@ -460,7 +731,26 @@ export default function GridMemoryGame({
       )}
 
       {/* 連続正解数と目標達成通知 */}
-      {targetAchieved ? (
+      {sessionRun ? (
+        <div className="text-lg font-semibold text-purple-600 my-4">
+          {sessionRun.mode === "timeAttack" ? "⏱️" : "🏃"} {SESSION_MODES[sessionRun.mode].label}
+          {sessionTimeRemaining !== null && ` ${formatTimeRemaining(sessionTimeRemaining)}`}
+          {SESSION_MODES[sessionRun.mode].maxMistakes !== null &&
+            ` ${"❤️".repeat(Math.max(0, (SESSION_MODES[sessionRun.mode].maxMistakes || 0) - sessionRun.mistakes))}`}
+          {` · Score: ${sessionRun.score}`}
+          {sessionRun.lastPoints > 0 && isFinished && <span className="text-green-600"> (+{sessionRun.lastPoints})</span>}
+        </div>
+      ) : dailyChallenge ? (
+        isDailyComplete ? (
+          <div className="text-xl font-bold text-green-600 bg-green-100 px-4 py-2 rounded-lg border-2 border-green-500 my-4">
+            📅 Daily Challenge Complete: {dailyChallenge.correct} / {dailyChallenge.seeds.length}
+          </div>
+        ) : (
+          <div className="text-lg font-semibold text-green-600 my-4">
+            📅 Daily {dailyChallenge.dateKey}: {dailyChallenge.completed} / {dailyChallenge.seeds.length} (Correct: {dailyChallenge.correct})
+          </div>
+        )
+      ) : targetAchieved ? (
         <div className="text-xl font-bold text-green-600 bg-green-100 px-4 py-2 rounded-lg border-2 border-green-500 my-4">
           🎉 {targetConsecutive} Consecutive Correct! 🎉
         </div>
@@ -470,6 +760,21 @@ export default function GridMemoryGame({
         </div>
       )}
 
+      {/* 残り時間バー（フェーズが変わるたびにアニメーションをやり直す） */}
+      <div className="mb-2 flex items-center justify-center" style={{ width: "min(calc(100vw - 1rem), 600px)", height: "20px" }}>
+        {countdownDuration > 0 ? (
+          <div className="w-full h-2 bg-gray-700 rounded overflow-hidden">
+            <div
+              key={`${phase}-${engineState.startedAt}`}
+              className={`h-full countdown-bar ${phase === "memorize" ? "bg-blue-500" : phase === "retention" ? "bg-gray-400" : "bg-orange-500"}`}
+              style={{ animationDuration: `${countdownDuration}ms` }}
+            />
+          </div>
+        ) : (
+          isFinished && result?.timedOut && <div className="text-sm font-semibold text-orange-500">⌛ Time&apos;s up!</div>
+        )}
+      </div>
+
       <div
         className="grid mx-2 select-text"
         style={{
@@ -489,12 +794,35 @@ export default function GridMemoryGame({
             // Startボタン表示時はsolutionが空なので、仮の配列を使用
             const actualCell = solution.length > 0 ? solution[index] : false;
             let backgroundColor = "white";
+            let label: number | null = null;
             const row = Math.floor(index / gridSize);
             const col = index % gridSize;
 
-            if (showAnswer && actualCell) {
+            if (maskGrid) {
+              // 保持時間中はマスクのみ表示
+              backgroundColor = maskGrid[index] ? "dimgray" : "white";
+            } else if (sequential) {
+              // 順序モード: 点灯中のセルのみ表示し、タップ順を番号で表示
+              const tapPosition = userSequence.indexOf(index);
+              const expectedPosition = expectedSequence.indexOf(index);
+              label = tapPosition >= 0 ? tapPosition + 1 : null;
+
+              if (showAnswer && sequence[highlightStep] === index) {
+                backgroundColor = "black";
+              } else if (isFinished) {
+                if (expectedPosition >= 0 && tapPosition === expectedPosition) {
+                  backgroundColor = "lightgreen";
+                } else if (expectedPosition >= 0 && tapPosition < 0) {
+                  backgroundColor = "lightblue";
+                } else if (tapPosition >= 0) {
+                  backgroundColor = "salmon";
+                }
+              } else if (tapPosition >= 0) {
+                backgroundColor = "black";
+              }
+            } else if (showAnswer && actualCell) {
               backgroundColor = "black";
-            } else if (isFinished || timerExpired) {
+            } else if (isFinished) {
               if (actualCell && userGrid[index]) {
                 backgroundColor = "lightgreen";
               } else if (actualCell && !userGrid[index]) {
@@ -529,34 +857,40 @@ export default function GridMemoryGame({
                   msUserSelect: "none",
                   touchAction: "manipulation", // タッチ操作を最適化
                   WebkitTapHighlightColor: "transparent", // iOS Safariのタップハイライトを無効化
+                  color: backgroundColor === "black" ? "white" : "black",
                 }}
-              />
+              >
+                {label}
+              </div>
             );
           })}
       </div>
 
       <div className="mt-4 flex gap-2">
         {showStartButton ? (
-          <button onClick={startGame} className="bg-blue-500 text-white px-8 py-3 text-lg rounded hover:bg-blue-600">
-            Start
-          </button>
+          !isDailyComplete && (
+            <button onClick={startGame} className="bg-blue-500 text-white px-8 py-3 text-lg rounded hover:bg-blue-600">
+              Start
+            </button>
+          )
         ) : (
           <>
-            {!isFinished && !timerExpired && (
+            {/* 解答フェーズのみ採点できる（記憶・保持フェーズ中に押して空の解答が記録されないように） */}
+            {phase === "recall" && (
               <button onClick={checkAnswer} className="bg-blue-500 text-white px-8 py-3 text-lg rounded hover:bg-blue-600">
                 Check
               </button>
             )}
-            {(isFinished || timerExpired) && (
+            {isFinished && (
               <>
-                {/* 不正解の場合のみRetryボタンを表示 */}
-                {solution.some((cell, index) => cell !== userGrid[index]) && (
+                {/* 不正解の場合のみRetryボタンを表示（セッション中は再挑戦なし） */}
+                {!result?.isCorrect && !sessionRun && (
                   <button onClick={retryGame} className="bg-orange-500 text-white px-8 py-3 text-lg rounded hover:bg-orange-600">
                     Retry
                   </button>
                 )}
-                {/* 正解の場合のみNextボタンを表示 */}
-                {solution.every((cell, index) => cell === userGrid[index]) && (
+                {/* 正解の場合のみNextボタンを表示（セッション中は不正解でも次へ進む） */}
+                {(result?.isCorrect || sessionRun) && !isDailyComplete && (
                   <button onClick={resetGame} className="bg-green-500 text-white px-8 py-3 text-lg rounded hover:bg-green-600">
                     Next
                   </button>
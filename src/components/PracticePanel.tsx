@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import { toDateKey } from "../utils/gameStats";
+import { calculateLongestPlayStreak } from "../utils/achievements";
+import {
+  DAILY_GOAL_LIMITS,
+  DailyGoalType,
+  PracticeDay,
+  PracticeSettings,
+  calculateCurrentPlayStreak,
+  calculatePracticeDays,
+  canUseReminders,
+  getCalendarDates,
+  getGoalProgress,
+  requestReminderPermission,
+  validatePracticeSettings,
+} from "../utils/practiceGoals";
+import { getUnifiedStatsManager } from "../utils/unifiedStatsManager";
+
+interface PracticePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: PracticeSettings;
+  onSettingsChange: (settings: PracticeSettings) => void;
+}
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export default function PracticePanel({ isOpen, onClose, settings, onSettingsChange }: PracticePanelProps) {
+  const [days, setDays] = useState<Map<string, PracticeDay>>(new Map());
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  // 開くたびと目標を変更したときに練習した日を集計し直す
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    getUnifiedStatsManager()
+      .getTrialHistory()
+      .then((records) => {
+        if (!cancelled) setDays(new Map(calculatePracticeDays(records, settings.goal).map((day) => [day.date, day])));
+      })
+      .catch((error) => console.error("Failed to load practice history:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, settings.goal]);
+
+  if (!isOpen) return null;
+
+  const today = toDateKey(Date.now());
+  const todayPractice = days.get(today);
+  const practicedDates = [...days.values()].filter((day) => day.trials > 0).map((day) => day.date);
+  const goalUnit = settings.goal.type === "minutes" ? "min" : "trials";
+
+  const changeMonth = (offset: number) => {
+    setMonth((prev) => {
+      const date = new Date(prev.year, prev.month + offset, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+  };
+
+  const handleReminderToggle = async (enabled: boolean) => {
+    setPermissionError(null);
+    if (enabled && !(await requestReminderPermission())) {
+      setPermissionError("Notifications are blocked. Allow them in your browser settings to get reminders.");
+      return;
+    }
+    onSettingsChange({ ...settings, reminder: { ...settings.reminder, enabled } });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-lg w-full max-w-sm max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* ヘッダー部分 */}
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+          <h2 className="text-lg font-bold">🎯 Daily Practice</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-xl p-1" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* スクロール可能なコンテンツ部分 */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* 今日の進捗と連続練習日数 */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="bg-blue-50 p-3 rounded-lg">
+              <h3 className="font-semibold text-blue-800 mb-1 text-sm">Today</h3>
+              <div className="text-xl font-bold text-blue-600">
+                {settings.goal.type === "minutes" ? todayPractice?.minutes || 0 : todayPractice?.trials || 0} / {settings.goal.target}
+              </div>
+              <div className="bg-blue-100 rounded h-2 mt-1">
+                <div className="bg-blue-500 rounded h-2" style={{ width: `${Math.round(getGoalProgress(todayPractice, settings.goal) * 100)}%` }} />
+              </div>
+              <div className="text-xs text-blue-700 mt-1">{todayPractice?.goalMet ? "Goal reached 🎉" : goalUnit}</div>
+            </div>
+            <div className="bg-orange-50 p-3 rounded-lg">
+              <h3 className="font-semibold text-orange-800 mb-1 text-sm">🔥 Day Streak</h3>
+              <div className="text-xl font-bold text-orange-600">{calculateCurrentPlayStreak(practicedDates, today)}</div>
+              <div className="text-xs text-orange-700">Longest: {calculateLongestPlayStreak(practicedDates)}</div>
+            </div>
+          </div>
+
+          {/* 目標の設定 */}
+          <div className="bg-gray-50 p-3 rounded-lg text-sm text-black space-y-2">
+            <h3 className="font-semibold text-gray-800">Daily goal</h3>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={DAILY_GOAL_LIMITS[settings.goal.type].min}
+                max={DAILY_GOAL_LIMITS[settings.goal.type].max}
+                value={settings.goal.target}
+                onChange={(e) =>
+                  onSettingsChange(validatePracticeSettings({ ...settings, goal: { ...settings.goal, target: Number(e.target.value) } }))
+                }
+                className="border px-2 py-1 rounded w-20"
+              />
+              <select
+                value={settings.goal.type}
+                onChange={(e) =>
+                  onSettingsChange(validatePracticeSettings({ ...settings, goal: { ...settings.goal, type: e.target.value as DailyGoalType } }))
+                }
+                className="border px-2 py-1 rounded flex-1"
+              >
+                <option value="trials">trials per day</option>
+                <option value="minutes">minutes per day</option>
+              </select>
+            </div>
+          </div>
+
+          {/* 練習した日のカレンダー */}
+          <div className="bg-gray-50 p-3 rounded-lg text-sm">
+            <div className="flex justify-between items-center mb-2">
+              <button onClick={() => changeMonth(-1)} className="text-gray-600 hover:text-gray-800 px-2" aria-label="Previous month">
+                ‹
+              </button>
+              <h3 className="font-semibold text-gray-800">
+                {new Date(month.year, month.month, 1).toLocaleDateString(undefined, { year: "numeric", month: "long" })}
+              </h3>
+              <button onClick={() => changeMonth(1)} className="text-gray-600 hover:text-gray-800 px-2" aria-label="Next month">
+                ›
+              </button>
+            </div>
+            <div className="grid grid-cols-7 gap-1 text-center text-xs">
+              {WEEKDAY_LABELS.map((label) => (
+                <div key={label} className="text-gray-500">
+                  {label}
+                </div>
+              ))}
+              {getCalendarDates(month.year, month.month).map((date, index) => {
+                if (!date) return <div key={`blank-${index}`} />;
+
+                const day = days.get(date);
+                const color = day?.goalMet ? "bg-green-500 text-white" : day && day.trials > 0 ? "bg-green-100 text-green-800" : "text-gray-600";
+                return (
+                  <div
+                    key={date}
+                    className={`rounded py-1 ${color} ${date === today ? "ring-2 ring-blue-400" : ""}`}
+                    title={day ? `${date}: ${day.trials} trials, ${day.minutes} min` : date}
+                  >
+                    {Number(date.slice(8, 10))}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-3 text-xs text-gray-500 mt-2">
+              <span>
+                <span className="inline-block w-3 h-3 rounded bg-green-100 align-middle mr-1" />
+                Practiced
+              </span>
+              <span>
+                <span className="inline-block w-3 h-3 rounded bg-green-500 align-middle mr-1" />
+                Goal reached
+              </span>
+            </div>
+          </div>
+
+          {/* リマインダー */}
+          {canUseReminders() && (
+            <div className="bg-gray-50 p-3 rounded-lg text-sm text-black space-y-2">
+              <h3 className="font-semibold text-gray-800">🔔 Reminder</h3>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={settings.reminder.enabled} onChange={(e) => handleReminderToggle(e.target.checked)} />
+                Remind me if I haven&apos;t reached my goal by
+                <input
+                  type="time"
+                  value={settings.reminder.time}
+                  onChange={(e) =>
+                    onSettingsChange(validatePracticeSettings({ ...settings, reminder: { ...settings.reminder, time: e.target.value } }))
+                  }
+                  className="border px-2 py-1 rounded"
+                />
+              </label>
+              <div className="text-xs text-gray-500">
+                Reminders are shown by this device only. When the app is closed they require the installed app on a supporting browser.
+              </div>
+              {permissionError && <div className="text-xs text-red-600">{permissionError}</div>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from "react";
+import {
+  DEFAULT_PROFILE_ID,
+  MAX_PROFILE_NAME_LENGTH,
+  Profile,
+  createProfile,
+  deleteProfile,
+  getActiveProfileId,
+  loadProfilesFromStorage,
+  renameProfile,
+  validateProfileName,
+} from "../utils/profiles";
+
+interface ProfileDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSwitch: (profileId: string) => void;
+  onProfilesChanged: () => void;
+}
+
+export default function ProfileDialog({ isOpen, onClose, onSwitch, onProfilesChanged }: ProfileDialogProps) {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // 開くたびに一覧を読み込む（他のタブで追加・削除された場合も反映）
+  useEffect(() => {
+    if (isOpen) setProfiles(loadProfilesFromStorage().profiles);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const activeProfileId = getActiveProfileId();
+
+  const refresh = () => {
+    setProfiles(loadProfilesFromStorage().profiles);
+    onProfilesChanged();
+  };
+
+  const handleClose = () => {
+    setNewName("");
+    setEditing(null);
+    setConfirmDeleteId(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleCreate = () => {
+    try {
+      createProfile(newName);
+      setNewName("");
+      setError(null);
+      refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleRename = () => {
+    if (!editing) return;
+
+    try {
+      renameProfile(editing.id, editing.name);
+      setEditing(null);
+      setError(null);
+      refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDelete = async (profileId: string) => {
+    setIsBusy(true);
+    try {
+      await deleteProfile(profileId);
+      setConfirmDeleteId(null);
+      setError(null);
+      refresh();
+    } catch (e) {
+      console.error("Failed to delete profile:", e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSwitch = (profileId: string) => {
+    setEditing(null);
+    setConfirmDeleteId(null);
+    setError(null);
+    onSwitch(profileId);
+  };
+
+  const newNameError = newName.trim() === "" ? null : validateProfileName(newName, profiles);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          handleClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-lg w-full max-w-sm max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* ヘッダー部分 */}
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+          <h2 className="text-lg font-bold">👤 Profiles</h2>
+          <button onClick={handleClose} className="text-gray-500 hover:text-gray-700 text-xl p-1" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* スクロール可能なコンテンツ部分 */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="text-sm text-gray-600">Each profile keeps its own settings, stats and trial history on this device.</div>
+
+          <ul className="space-y-2">
+            {profiles.map((profile) => {
+              const isActive = profile.id === activeProfileId;
+
+              // 名前の変更
+              if (editing && editing.id === profile.id) {
+                return (
+                  <li key={profile.id} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={editing.name}
+                      maxLength={MAX_PROFILE_NAME_LENGTH}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                      className="flex-1 border px-2 py-1 rounded text-black"
+                      autoFocus
+                    />
+                    <button onClick={handleRename} className="bg-blue-500 text-white px-3 py-1 rounded text-sm">
+                      Save
+                    </button>
+                    <button onClick={() => setEditing(null)} className="bg-gray-500 text-white px-3 py-1 rounded text-sm">
+                      Cancel
+                    </button>
+                  </li>
+                );
+              }
+
+              // 削除の確認
+              if (confirmDeleteId === profile.id) {
+                return (
+                  <li key={profile.id} className="bg-red-50 p-2 rounded text-sm space-y-2">
+                    <div className="text-red-800">Delete {profile.name} and all of its data?</div>
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        disabled={isBusy}
+                        className="bg-gray-500 text-white px-3 py-1 rounded disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleDelete(profile.id)}
+                        disabled={isBusy}
+                        className="bg-red-500 text-white px-3 py-1 rounded disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                );
+              }
+
+              return (
+                <li
+                  key={profile.id}
+                  className={`flex items-center gap-2 p-2 rounded ${isActive ? "bg-orange-50 border border-orange-200" : "bg-gray-50"}`}
+                >
+                  <span className="flex-1 text-black truncate">
+                    {profile.name}
+                    {isActive && <span className="text-xs text-orange-600 ml-2">current</span>}
+                  </span>
+                  {!isActive && (
+                    <button onClick={() => handleSwitch(profile.id)} className="bg-orange-500 text-white px-3 py-1 rounded text-sm">
+                      Switch
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditing({ id: profile.id, name: profile.name })}
+                    className="text-gray-500 hover:text-gray-700 px-1"
+                    title="Rename"
+                  >
+                    ✏️
+                  </button>
+                  {/* デフォルトと使用中のプロフィールは削除できない */}
+                  {!isActive && profile.id !== DEFAULT_PROFILE_ID && (
+                    <button onClick={() => setConfirmDeleteId(profile.id)} className="text-gray-500 hover:text-red-600 px-1" title="Delete">
+                      🗑️
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {/* プロフィールの追加 */}
+          <div className="space-y-1">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                placeholder="New profile name"
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && !newNameError && newName.trim() !== "" && handleCreate()}
+                className="flex-1 border px-2 py-1 rounded text-black"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={newName.trim() === "" || !!newNameError}
+                className="bg-blue-500 text-white px-4 py-1 rounded disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+            {newNameError && <div className="text-xs text-red-600">{newNameError}</div>}
+          </div>
+
+          {error && <div className="bg-red-50 p-3 rounded-lg text-sm text-red-800">{error}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import React from "react";
+
+export interface ChartPoint {
+  label: string; // 横軸のラベル（日付など）
+  value: number | null; // 値がない点は線を途切れさせる
+}
+
+interface ProgressChartProps {
+  title: string;
+  points: ChartPoint[];
+  variant: "line" | "bar";
+  color: string;
+  formatValue: (value: number) => string;
+  minValue?: number; // 省略時は0
+  maxValue?: number; // 省略時はデータの最大値
+}
+
+// グラフの描画領域
+const WIDTH = 300;
+const HEIGHT = 90;
+const PADDING = { top: 8, right: 8, bottom: 16, left: 36 };
+
+// 日付（YYYY-MM-DD）を短く表示
+const formatLabel = (label: string): string => {
+  const match = label.match(/^\d{4}-(\d{2})-(\d{2})$/);
+  return match ? `${Number(match[1])}/${Number(match[2])}` : label;
+};
+
+// 外部のライブラリを使わずにSVGで描画する推移グラフ
+export default function ProgressChart({ title, points, variant, color, formatValue, minValue = 0, maxValue }: ProgressChartProps) {
+  const values = points.map((point) => point.value).filter((value): value is number => value !== null);
+  const latest = [...points].reverse().find((point) => point.value !== null);
+
+  const top = Math.max(maxValue !== undefined ? maxValue : Math.max(...values, 0), minValue + 1);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const step = points.length > 0 ? plotWidth / points.length : plotWidth;
+
+  const x = (index: number) => PADDING.left + step * (index + 0.5);
+  const y = (value: number) => PADDING.top + plotHeight * (1 - (value - minValue) / (top - minValue));
+
+  // 値がない点で区切った折れ線
+  const segments: string[] = [];
+  let current: string[] = [];
+  points.forEach((point, index) => {
+    if (point.value === null) {
+      if (current.length > 0) segments.push(current.join(" "));
+      current = [];
+      return;
+    }
+    current.push(`${x(index).toFixed(1)},${y(point.value).toFixed(1)}`);
+  });
+  if (current.length > 0) segments.push(current.join(" "));
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline text-xs mb-1">
+        <span className="font-semibold text-gray-800">{title}</span>
+        {latest && latest.value !== null && <span className="text-gray-600">Latest: {formatValue(latest.value)}</span>}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        {/* 目盛り */}
+        <line x1={PADDING.left} y1={y(top)} x2={WIDTH - PADDING.right} y2={y(top)} stroke="#e5e7eb" />
+        <line x1={PADDING.left} y1={y(minValue)} x2={WIDTH - PADDING.right} y2={y(minValue)} stroke="#d1d5db" />
+        <text x={PADDING.left - 4} y={y(top) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+          {formatValue(top)}
+        </text>
+        <text x={PADDING.left - 4} y={y(minValue) + 3} textAnchor="end" fontSize="9" fill="#6b7280">
+          {formatValue(minValue)}
+        </text>
+        {points.length > 0 && (
+          <>
+            <text x={PADDING.left} y={HEIGHT - 4} fontSize="9" fill="#6b7280">
+              {formatLabel(points[0].label)}
+            </text>
+            {points.length > 1 && (
+              <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" fontSize="9" fill="#6b7280">
+                {formatLabel(points[points.length - 1].label)}
+              </text>
+            )}
+          </>
+        )}
+
+        {variant === "bar"
+          ? points.map((point, index) =>
+              point.value === null ? null : (
+                <rect
+                  key={point.label}
+                  x={x(index) - step * 0.35}
+                  y={y(point.value)}
+                  width={step * 0.7}
+                  height={y(minValue) - y(point.value)}
+                  fill={color}
+                  rx={1}
+                >
+                  <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+                </rect>
+              ),
+            )
+          : segments.map((segment, index) => <polyline key={index} points={segment} fill="none" stroke={color} strokeWidth={1.5} />)}
+
+        {/* 各点（ツールチップ付き） */}
+        {variant === "line" &&
+          points.map((point, index) =>
+            point.value === null ? null : (
+              <circle key={point.label} cx={x(index)} cy={y(point.value)} r={2} fill={color}>
+                <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+              </circle>
+            ),
+          )}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React from "react";
+import { HighScoreEntry, SESSION_MODES, SessionRun } from "../utils/sessionMode";
+
+interface SessionSummaryProps {
+  run: SessionRun;
+  rank: number | null;
+  highScores: HighScoreEntry[];
+  isOpen: boolean;
+  onPlayAgain: () => void;
+  onClose: () => void;
+}
+
+export default function SessionSummary({ run, rank, highScores, isOpen, onPlayAgain, onClose }: SessionSummaryProps) {
+  if (!isOpen) return null;
+
+  const accuracy = run.trials > 0 ? Math.round((run.correct / run.trials) * 100) : 0;
+  const currentId = run.endedAt !== null ? `${run.mode}-${run.endedAt}` : null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-lg w-full max-w-sm max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* ヘッダー部分 */}
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+          <h2 className="text-lg font-bold">🏁 {SESSION_MODES[run.mode].label} Result</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-xl p-1" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* スクロール可能なコンテンツ部分 */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="bg-purple-50 p-3 rounded-lg text-center">
+            <h3 className="font-semibold text-purple-800 mb-1 text-sm">Score</h3>
+            <div className="text-3xl font-bold text-purple-600">{run.score}</div>
+            {rank !== null && <div className="text-sm font-semibold text-purple-800 mt-1">{rank === 1 ? "🏆 New High Score!" : `Rank #${rank}`}</div>}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-green-50 p-2 rounded-lg">
+              <h3 className="font-semibold text-green-800 text-xs">Correct</h3>
+              <div className="text-lg font-bold text-green-600">
+                {run.correct} / {run.trials}
+              </div>
+            </div>
+            <div className="bg-blue-50 p-2 rounded-lg">
+              <h3 className="font-semibold text-blue-800 text-xs">Accuracy</h3>
+              <div className="text-lg font-bold text-blue-600">{accuracy}%</div>
+            </div>
+            <div className="bg-orange-50 p-2 rounded-lg">
+              <h3 className="font-semibold text-orange-800 text-xs">Best Streak</h3>
+              <div className="text-lg font-bold text-orange-600">{run.bestStreak}</div>
+            </div>
+          </div>
+
+          {/* ハイスコア表 */}
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <h3 className="font-semibold text-gray-800 mb-2">🏆 High Scores</h3>
+            {highScores.length === 0 ? (
+              <div className="text-sm text-gray-500">No scores yet</div>
+            ) : (
+              <ol className="text-sm text-gray-600 space-y-1">
+                {highScores.map((entry, index) => (
+                  <li key={entry.id} className={`flex justify-between ${entry.id === currentId ? "font-bold text-purple-700" : ""}`}>
+                    <span>
+                      {index + 1}. {entry.score}
+                    </span>
+                    <span className="text-xs">
+                      {entry.correct}/{entry.trials} · {entry.settingsKey} · {new Date(entry.date).toLocaleDateString()}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+
+        {/* フッター部分 */}
+        <div className="p-4 border-t border-gray-200 flex-shrink-0 flex gap-2">
+          <button onClick={onClose} className="flex-1 bg-gray-500 text-white px-6 py-3 rounded-lg hover:bg-gray-600 transition-colors font-medium">
+            Close
+          </button>
+          <button
+            onClick={onPlayAgain}
+            className="flex-1 bg-purple-500 text-white px-6 py-3 rounded-lg hover:bg-purple-600 transition-colors font-medium"
+          >
+            Play Again
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
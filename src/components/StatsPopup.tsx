@@ -1,21 +1,86 @@
-import React from "react";
-import { GameStats, calculateAccuracy, GameSettings } from "../utils/gameStats";
+import React, { useState } from "react";
+import Link from "next/link";
+import { GameStats, calculateScoreMetrics, GameSettings, MAX_RECENT_ANSWERS } from "../utils/gameStats";
+import { AdaptiveSession } from "../utils/adaptiveDifficulty";
+import { TrialRecord } from "../utils/gameStats";
+import { calculateDailyProgress, calculateResponseTimeStats, calculateSpeedAccuracy, formatSeconds } from "../utils/trialAnalytics";
+import { SkillRating, calculateDifficultyRating, expectedScore, isProvisionalRating } from "../utils/skillRating";
+import {
+  STATS_WINDOWS,
+  StatsWindowId,
+  WIDE_INTERVAL_THRESHOLD,
+  calculateBestAccuracyInterval,
+  calculateWindowStats,
+  loadStatsWindowFromStorage,
+  saveStatsWindowToStorage,
+} from "../utils/statsWindows";
+import { TrialArchive } from "../utils/trialArchive";
+import ProgressChart from "./ProgressChart";
 
 interface StatsPopupProps {
   stats: GameStats;
   currentSettings: GameSettings;
+  isDailyChallenge?: boolean;
+  trialHistory?: TrialRecord[];
+  trialArchive?: TrialArchive | null; // 現在の設定の圧縮済みの集計
+  skillRating?: SkillRating;
+  adaptive?: {
+    session: AdaptiveSession;
+    history: AdaptiveSession[];
+  };
   isOpen: boolean;
   onClose: () => void;
+  onReset: (scope: ResetScope) => void;
 }
 
-export default function StatsPopup({ stats, currentSettings, isOpen, onClose }: StatsPopupProps) {
+export type ResetScope = "current" | "all";
+
+// 推移グラフに表示する日数（プレイした日のみ数える）
+const PROGRESS_CHART_DAYS = 30;
+
+const RESET_CONFIRM_MESSAGES: Record<ResetScope, string> = {
+  current: "Delete the stats and trial history for the current settings?",
+  all: "Delete the stats and trial history for every setting?",
+};
+
+export default function StatsPopup({
+  stats,
+  currentSettings,
+  isDailyChallenge,
+  trialHistory = [],
+  trialArchive = null,
+  skillRating,
+  adaptive,
+  isOpen,
+  onClose,
+  onReset,
+}: StatsPopupProps) {
+  // 確認中のリセット
+  const [confirmReset, setConfirmReset] = useState<ResetScope | null>(null);
+  // 正答率を集計する範囲
+  const [statsWindow, setStatsWindow] = useState<StatsWindowId>(loadStatsWindowFromStorage);
+
   if (!isOpen) return null;
 
-  const accuracy = calculateAccuracy(stats);
+  const windowStats = calculateWindowStats(trialHistory, statsWindow, stats, Date.now(), trialArchive);
+  const bestAccuracy = calculateBestAccuracyInterval(stats);
+  const handleStatsWindowChange = (windowId: StatsWindowId) => {
+    setStatsWindow(windowId);
+    saveStatsWindowToStorage(windowId);
+  };
+  const scoreMetrics = calculateScoreMetrics(stats);
+  const responseTimeStats = calculateResponseTimeStats(trialHistory);
+  const speedAccuracy = calculateSpeedAccuracy(trialHistory);
+  const dailyProgress = calculateDailyProgress(trialHistory, trialArchive).slice(-PROGRESS_CHART_DAYS);
+
+  // 現在の設定の難易度とスキルレーティングの推移
+  const difficultyRating = calculateDifficultyRating(currentSettings);
+  const ratingHistory = skillRating ? skillRating.history.slice(-PROGRESS_CHART_DAYS) : [];
+  const ratingValues = ratingHistory.map((point) => point.rating);
 
-  // デバッグ用：統計データの状態を確認
-  console.log("StatsPopup - stats:", stats);
-  console.log("StatsPopup - bestAccuracy:", stats.bestAccuracy);
+  // 適応難易度の最高スパン（現在のセッションを含む）
+  const bestSpan = adaptive ? Math.max(adaptive.session.spanEstimate, ...adaptive.history.map((session) => session.spanEstimate)) : 0;
+  const pastSessions = adaptive ? adaptive.history.filter((session) => session.id !== adaptive.session.id).slice(0, 5) : [];
 
   return (
     <div
@@ -39,7 +104,7 @@ export default function StatsPopup({ stats, currentSettings, isOpen, onClose }:
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
           {/* 現在の設定 */}
           <div className="bg-gray-50 p-3 rounded-lg">
-            <h3 className="font-semibold text-gray-800 mb-2">⚙️ Current Settings</h3>
+            <h3 className="font-semibold text-gray-800 mb-2">{isDailyChallenge ? "📅 Daily Challenge" : "⚙️ Current Settings"}</h3>
             <div className="text-sm text-gray-600 space-y-1">
               <div>
                 Grid Size: {currentSettings.gridSize}×{currentSettings.gridSize}
@@ -47,46 +112,304 @@ export default function StatsPopup({ stats, currentSettings, isOpen, onClose }:
               <div>Show Time: {currentSettings.showTime}ms</div>
               <div>Answer Time: {currentSettings.answerTime === 0 ? "Unlimited" : `${currentSettings.answerTime}ms`}</div>
               <div>Active Cells: {currentSettings.numActiveCells}</div>
+              {currentSettings.recallMode && currentSettings.recallMode !== "pattern" && (
+                <div>Recall Mode: {currentSettings.recallMode === "reverse" ? "Reverse Sequence" : "Sequence"}</div>
+              )}
+              {(currentSettings.retentionDelay || 0) > 0 && (
+                <div>
+                  Retention Delay: {currentSettings.retentionDelay}ms
+                  {currentSettings.retentionMask === "checker" ? " (Checkerboard Mask)" : currentSettings.retentionMask === "noise" ? " (Noise)" : ""}
+                </div>
+              )}
             </div>
           </div>
 
-          {/* 統計情報 */}
-          <div className="space-y-3">
-            <div className="bg-blue-50 p-3 rounded-lg">
-              <h3 className="font-semibold text-blue-800 mb-1 text-sm">📈 Last 100 Accuracy</h3>
-              <div className="text-xl font-bold text-blue-600">{accuracy}%</div>
+          {/* スキルレーティング（全設定共通） */}
+          {skillRating && (
+            <div className="bg-amber-50 p-3 rounded-lg space-y-2">
+              <h3 className="font-semibold text-amber-800 text-sm">🧮 Skill Rating</h3>
+              <div className="flex items-baseline gap-2">
+                <span className="text-xl font-bold text-amber-600">{skillRating.rating}</span>
+                {isProvisionalRating(skillRating) && <span className="text-xs text-amber-700">(provisional)</span>}
+              </div>
+              <div className="text-xs text-amber-700 space-y-0.5">
+                <div>
+                  Peak {skillRating.peak} · {skillRating.trials} rated answers across all settings
+                </div>
+                <div>
+                  These settings: difficulty {difficultyRating} · expected accuracy{" "}
+                  {Math.round(expectedScore(skillRating.rating, difficultyRating) * 100)}%
+                </div>
+              </div>
+              {ratingHistory.length > 1 && (
+                <ProgressChart
+                  title="Rating"
+                  points={ratingHistory.map((point) => ({ label: point.date, value: point.rating }))}
+                  variant="line"
+                  color="#d97706"
+                  formatValue={(value) => String(Math.round(value))}
+                  minValue={Math.floor(Math.min(...ratingValues) / 100) * 100}
+                  maxValue={Math.ceil(Math.max(...ratingValues) / 100) * 100}
+                />
+              )}
+            </div>
+          )}
+
+          {/* 日ごとの推移 */}
+          {dailyProgress.length > 0 && (
+            <div className="bg-gray-50 p-3 rounded-lg space-y-3">
+              <h3 className="font-semibold text-gray-800 text-sm">📈 Progress (last {dailyProgress.length} days played)</h3>
+              <ProgressChart
+                title="Daily Accuracy"
+                points={dailyProgress.map((point) => ({ label: point.date, value: point.accuracy }))}
+                variant="line"
+                color="#3b82f6"
+                formatValue={(value) => `${Math.round(value)}%`}
+                maxValue={100}
+              />
+              <ProgressChart
+                title="Trials per Day"
+                points={dailyProgress.map((point) => ({ label: point.date, value: point.trials }))}
+                variant="bar"
+                color="#f97316"
+                formatValue={(value) => String(Math.round(value))}
+              />
+              <ProgressChart
+                title="Best Streak"
+                points={dailyProgress.map((point) => ({ label: point.date, value: point.bestStreak }))}
+                variant="line"
+                color="#22c55e"
+                formatValue={(value) => String(Math.round(value))}
+              />
+              <ProgressChart
+                title={
+                  dailyProgress.some((point) => point.meanResponseTime !== null)
+                    ? "Response Time (median, mean on compacted days)"
+                    : "Median Response Time"
+                }
+                points={dailyProgress.map((point) => ({ label: point.date, value: point.medianResponseTime ?? point.meanResponseTime }))}
+                variant="line"
+                color="#6366f1"
+                formatValue={formatSeconds}
+              />
             </div>
+          )}
 
-            <div className="bg-yellow-50 p-3 rounded-lg">
-              <h3 className="font-semibold text-yellow-800 mb-1 text-sm">🏆 Best 100-Question Accuracy</h3>
-              <div className="text-xl font-bold text-yellow-600">
-                {stats.recentAnswers.length >= 100 ? (
-                  `${stats.bestAccuracy !== undefined && stats.bestAccuracy !== null ? stats.bestAccuracy : 0}%`
+          {/* 適応難易度のセッション情報 */}
+          {adaptive && (
+            <div className="space-y-3">
+              <div className="bg-blue-50 p-3 rounded-lg">
+                <h3 className="font-semibold text-blue-800 mb-1 text-sm">🧠 Session Span Estimate</h3>
+                <div className="text-xl font-bold text-blue-600">{adaptive.session.spanEstimate}</div>
+                <div className="text-xs text-blue-600">
+                  {adaptive.session.correct} / {adaptive.session.trials} correct · {adaptive.session.reversalLevels.length} reversals
+                </div>
+              </div>
+
+              <div className="bg-yellow-50 p-3 rounded-lg">
+                <h3 className="font-semibold text-yellow-800 mb-1 text-sm">🏆 Best Span</h3>
+                <div className="text-xl font-bold text-yellow-600">{bestSpan}</div>
+              </div>
+
+              {pastSessions.length > 0 && (
+                <div className="bg-gray-50 p-3 rounded-lg">
+                  <h3 className="font-semibold text-gray-800 mb-2 text-sm">🗓️ Recent Sessions</h3>
+                  <div className="text-sm text-gray-600 space-y-1">
+                    {pastSessions.map((session) => (
+                      <div key={session.id} className="flex justify-between">
+                        <span>{new Date(session.startedAt).toLocaleDateString()}</span>
+                        <span>
+                          Span {session.spanEstimate} ({session.trials} trials)
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 反応時間 */}
+          <div className="bg-indigo-50 p-3 rounded-lg">
+            <h3 className="font-semibold text-indigo-800 mb-1 text-sm">⏱️ Response Time</h3>
+            {responseTimeStats ? (
+              <>
+                <div className="text-xl font-bold text-indigo-600">{formatSeconds(responseTimeStats.median)}</div>
+                <div className="text-xs text-indigo-700 space-y-0.5">
+                  <div>
+                    Median of {responseTimeStats.count} answers · P25–P75: {formatSeconds(responseTimeStats.p25)}–
+                    {formatSeconds(responseTimeStats.p75)}
+                  </div>
+                  <div>P90: {formatSeconds(responseTimeStats.p90)}</div>
+                  {responseTimeStats.meanTapInterval !== null && (
+                    <div>Avg. time between taps: {formatSeconds(responseTimeStats.meanTapInterval)}</div>
+                  )}
+                </div>
+                {speedAccuracy.length > 0 && (
+                  <div className="mt-2">
+                    <div className="text-xs font-semibold text-indigo-800 mb-1">Speed vs Accuracy</div>
+                    <div className="space-y-1">
+                      {speedAccuracy.map((bin) => (
+                        <div key={bin.label} className="flex items-center gap-2 text-xs text-indigo-700">
+                          <span className="w-24 flex-shrink-0">
+                            {formatSeconds(bin.minTime)}–{formatSeconds(bin.maxTime)}
+                          </span>
+                          <div className="flex-1 bg-indigo-100 rounded h-2">
+                            <div className="bg-indigo-500 rounded h-2" style={{ width: `${bin.accuracy}%` }} />
+                          </div>
+                          <span className="w-10 text-right">{bin.accuracy}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            ) : (
+              <span className="text-sm text-indigo-600">(No timed answers yet)</span>
+            )}
+          </div>
+
+          {/* 統計情報 */}
+          {!adaptive && (
+            <div className="space-y-3">
+              <div className="bg-blue-50 p-3 rounded-lg">
+                <div className="flex justify-between items-center mb-1">
+                  <h3 className="font-semibold text-blue-800 text-sm">📈 Accuracy</h3>
+                  <select
+                    value={statsWindow}
+                    onChange={(e) => handleStatsWindowChange(e.target.value as StatsWindowId)}
+                    className="border border-blue-200 bg-white text-blue-800 text-xs px-1 py-0.5 rounded"
+                    aria-label="Accuracy window"
+                  >
+                    {STATS_WINDOWS.map((definition) => (
+                      <option key={definition.id} value={definition.id}>
+                        {definition.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {windowStats.accuracy !== null ? (
+                  <>
+                    <div className="text-xl font-bold text-blue-600">{windowStats.accuracy}%</div>
+                    <div className="text-xs text-blue-700 space-y-0.5">
+                      <div>
+                        {windowStats.correct} / {windowStats.answers} correct · 95% range {windowStats.lower}–{windowStats.upper}%
+                      </div>
+                      {windowStats.upper! - windowStats.lower! > WIDE_INTERVAL_THRESHOLD && (
+                        <div className="text-blue-500">Few answers so far, so the true accuracy could be anywhere in this range.</div>
+                      )}
+                    </div>
+                  </>
                 ) : (
-                  <span className="text-sm text-yellow-600">(Available after 100 answers)</span>
+                  <span className="text-sm text-blue-600">(No answers in this period)</span>
                 )}
               </div>
-            </div>
 
-            <div className="bg-green-50 p-3 rounded-lg">
-              <h3 className="font-semibold text-green-800 mb-1 text-sm">🏆 Best Streak</h3>
-              <div className="text-xl font-bold text-green-600">{stats.maxConsecutiveCorrect}</div>
-            </div>
+              <div className="bg-teal-50 p-3 rounded-lg">
+                <h3 className="font-semibold text-teal-800 mb-1 text-sm">🎯 Cell-Level Scores</h3>
+                {scoreMetrics ? (
+                  <>
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      <div>
+                        <div className="text-xl font-bold text-teal-600">{scoreMetrics.precision}%</div>
+                        <div className="text-xs text-teal-700">Precision</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-teal-600">{scoreMetrics.recall}%</div>
+                        <div className="text-xs text-teal-700">Recall</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-teal-600">{scoreMetrics.dPrime.toFixed(2)}</div>
+                        <div className="text-xs text-teal-700">d′</div>
+                      </div>
+                    </div>
+                    <div className="text-xs text-teal-600 mt-1">Last {scoreMetrics.trials} scored answers</div>
+                  </>
+                ) : (
+                  <span className="text-sm text-teal-600">(No scored answers yet)</span>
+                )}
+              </div>
 
-            <div className="bg-purple-50 p-3 rounded-lg">
-              <h3 className="font-semibold text-purple-800 mb-1 text-sm">🎯 Current Streak</h3>
-              <div className="text-xl font-bold text-purple-600">{stats.currentConsecutiveCorrect}</div>
-            </div>
+              <div className="bg-yellow-50 p-3 rounded-lg">
+                <h3 className="font-semibold text-yellow-800 mb-1 text-sm">🏆 Best {MAX_RECENT_ANSWERS}-Question Accuracy</h3>
+                {bestAccuracy ? (
+                  <>
+                    <div className="text-xl font-bold text-yellow-600">{bestAccuracy.accuracy}%</div>
+                    <div className="text-xs text-yellow-700 space-y-0.5">
+                      <div>
+                        Over {bestAccuracy.answers} answer(s) · 95% range {bestAccuracy.lower}–{bestAccuracy.upper}%
+                      </div>
+                      {bestAccuracy.upper - bestAccuracy.lower > WIDE_INTERVAL_THRESHOLD && (
+                        <div className="text-yellow-600">Few answers so far, so the true accuracy could be anywhere in this range.</div>
+                      )}
+                    </div>
+                  </>
+                ) : (
+                  <span className="text-sm text-yellow-600">(No answers yet)</span>
+                )}
+              </div>
 
-            <div className="bg-orange-50 p-3 rounded-lg">
-              <h3 className="font-semibold text-orange-800 mb-1 text-sm">🎮 Total Challenges</h3>
-              <div className="text-xl font-bold text-orange-600">{stats.totalChallenges}</div>
+              <div className="bg-green-50 p-3 rounded-lg">
+                <h3 className="font-semibold text-green-800 mb-1 text-sm">🏆 Best Streak</h3>
+                <div className="text-xl font-bold text-green-600">{stats.maxConsecutiveCorrect}</div>
+              </div>
+
+              <div className="bg-purple-50 p-3 rounded-lg">
+                <h3 className="font-semibold text-purple-800 mb-1 text-sm">🎯 Current Streak</h3>
+                <div className="text-xl font-bold text-purple-600">{stats.currentConsecutiveCorrect}</div>
+              </div>
+
+              <div className="bg-orange-50 p-3 rounded-lg">
+                <h3 className="font-semibold text-orange-800 mb-1 text-sm">🎮 Total Challenges</h3>
+                <div className="text-xl font-bold text-orange-600">{stats.totalChallenges}</div>
+              </div>
+
+              {/* 時間切れで採点された問題数（Total Challengesに含まれる） */}
+              {(stats.timeouts || 0) > 0 && (
+                <div className="bg-red-50 p-3 rounded-lg">
+                  <h3 className="font-semibold text-red-800 mb-1 text-sm">⌛ Timeouts</h3>
+                  <div className="text-xl font-bold text-red-600">
+                    {stats.timeouts} ({Math.round(((stats.timeouts || 0) / Math.max(1, stats.totalChallenges)) * 100)}%)
+                  </div>
+                </div>
+              )}
             </div>
-          </div>
+          )}
         </div>
 
         {/* フッター部分 */}
-        <div className="p-4 border-t border-gray-200 flex-shrink-0">
+        <div className="p-4 border-t border-gray-200 flex-shrink-0 space-y-3">
+          {confirmReset ? (
+            <div className="bg-red-50 p-3 rounded-lg text-sm">
+              <div className="text-red-800 mb-2">{RESET_CONFIRM_MESSAGES[confirmReset]}</div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setConfirmReset(null)} className="bg-gray-500 text-white px-3 py-1 rounded">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    onReset(confirmReset);
+                    setConfirmReset(null);
+                  }}
+                  className="bg-red-500 text-white px-3 py-1 rounded"
+                >
+                  Reset
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-center gap-4 text-sm">
+              <button onClick={() => setConfirmReset("current")} className="text-red-600 hover:underline">
+                Reset these stats
+              </button>
+              <button onClick={() => setConfirmReset("all")} className="text-red-600 hover:underline">
+                Reset all stats
+              </button>
+            </div>
+          )}
+          <Link href="/stats" className="block text-center text-sm text-blue-600 hover:underline">
+            Compare all settings →
+          </Link>
           <button onClick={onClose} className="w-full bg-blue-500 text-white px-6 py-3 rounded-lg hover:bg-blue-600 transition-colors font-medium">
             Close
           </button>
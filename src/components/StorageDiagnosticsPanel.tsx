@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from "react";
+import { StorageType } from "../utils/statsStore";
+import {
+  LOCAL_STORAGE_QUOTA,
+  StorageErrorRecord,
+  StorageHealthLevel,
+  formatBytes,
+  getStorageErrors,
+  getStorageHealthLevel,
+  getStorageUsageRatio,
+  requestPersistentStorage,
+} from "../utils/storageHealth";
+import { StorageDiagnostics, getUnifiedStatsManager } from "../utils/unifiedStatsManager";
+
+interface StorageDiagnosticsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDataChanged: () => void;
+}
+
+const STORAGE_TYPE_LABELS: Record<StorageType, string> = {
+  indexeddb: "IndexedDB (installed app)",
+  localStorage: "localStorage (browser)",
+  memory: "Memory only (not saved)",
+};
+
+const HEALTH_MESSAGES: Record<StorageHealthLevel, string> = {
+  ok: "Storage is healthy.",
+  low: "Storage is running low. Compact old history or export a backup so nothing is lost.",
+  critical: "Storage is almost full and new answers may not be saved. Compact old history and export a backup now.",
+};
+
+const HEALTH_COLORS: Record<StorageHealthLevel, string> = {
+  ok: "bg-green-50 text-green-800",
+  low: "bg-yellow-50 text-yellow-800",
+  critical: "bg-red-50 text-red-800",
+};
+
+export default function StorageDiagnosticsPanel({ isOpen, onClose, onDataChanged }: StorageDiagnosticsPanelProps) {
+  const [diagnostics, setDiagnostics] = useState<StorageDiagnostics | null>(null);
+  const [errors, setErrors] = useState<StorageErrorRecord[]>([]);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadDiagnostics = async () => {
+    try {
+      setDiagnostics(await getUnifiedStatsManager().getStorageDiagnostics());
+      setErrors(getStorageErrors());
+    } catch (error) {
+      console.error("Failed to load storage diagnostics:", error);
+    }
+  };
+
+  // 開くたびに使用量を測り直す
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setMessage(null);
+    loadDiagnostics();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handlePersist = async () => {
+    setIsBusy(true);
+    const granted = await requestPersistentStorage();
+    setMessage(
+      granted
+        ? { text: "Your data is now protected from automatic cleanup.", isError: false }
+        : { text: "The browser did not allow persistent storage.", isError: true },
+    );
+    await loadDiagnostics();
+    setIsBusy(false);
+  };
+
+  const handleCompact = async () => {
+    setIsBusy(true);
+    try {
+      const compacted = await getUnifiedStatsManager().compactTrialHistory();
+      if (compacted > 0) {
+        setMessage({ text: `Compacted ${compacted} answer(s) into daily totals`, isError: false });
+        onDataChanged();
+      } else {
+        setMessage({ text: "Nothing could be compacted. Export a backup to keep your data safe.", isError: true });
+      }
+    } catch (error) {
+      console.error("Failed to compact trial history:", error);
+      setMessage({ text: String(error), isError: true });
+    }
+    await loadDiagnostics();
+    setIsBusy(false);
+  };
+
+  const usage = diagnostics ? diagnostics.usage : null;
+  const ratio = usage ? getStorageUsageRatio(usage) : null;
+  const level = usage ? getStorageHealthLevel(usage, errors) : "ok";
+  const archive = diagnostics ? diagnostics.archive : null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div className="bg-white rounded-lg w-full max-w-sm max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* ヘッダー部分 */}
+        <div className="flex justify-between items-center p-4 border-b border-gray-200 flex-shrink-0">
+          <h2 className="text-lg font-bold">🩺 Storage</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-xl p-1" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* スクロール可能なコンテンツ部分 */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          {!diagnostics || !usage ? (
+            <div className="text-gray-500">Measuring…</div>
+          ) : (
+            <>
+              <div className={`p-3 rounded-lg ${HEALTH_COLORS[level]}`}>{HEALTH_MESSAGES[level]}</div>
+
+              {/* 使用量 */}
+              <div className="bg-gray-50 p-3 rounded-lg space-y-2">
+                <h3 className="font-semibold text-gray-800">Usage</h3>
+                <div className="text-gray-600">Saved in {STORAGE_TYPE_LABELS[usage.storageType]}</div>
+                {ratio !== null && (
+                  <div className="bg-gray-200 rounded h-2">
+                    <div
+                      className={`rounded h-2 ${level === "critical" ? "bg-red-500" : level === "low" ? "bg-yellow-500" : "bg-blue-500"}`}
+                      style={{ width: `${Math.min(100, Math.round(ratio * 100))}%` }}
+                    />
+                  </div>
+                )}
+                <ul className="text-xs text-gray-600 space-y-0.5">
+                  {usage.usage !== null && usage.quota !== null && (
+                    <li>
+                      Site storage: {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+                    </li>
+                  )}
+                  {usage.storageType === "localStorage" && (
+                    <li>
+                      Browser storage: {formatBytes(usage.localStorageBytes)} of about {formatBytes(LOCAL_STORAGE_QUOTA)}
+                    </li>
+                  )}
+                  <li>
+                    {diagnostics.settingsCount} setting(s) · {diagnostics.trialCount} answer(s) in detailed history
+                  </li>
+                </ul>
+              </div>
+
+              {/* 永続化 */}
+              <div className="bg-gray-50 p-3 rounded-lg space-y-2">
+                <h3 className="font-semibold text-gray-800">Persistence</h3>
+                <div className="text-gray-600">
+                  {usage.persisted === null
+                    ? "This browser does not report whether data is kept."
+                    : usage.persisted
+                      ? "Protected: the browser will not clear this data to free up space."
+                      : "Not protected: the browser may clear this data when the device runs low on space."}
+                </div>
+                {usage.persisted === false && (
+                  <button onClick={handlePersist} disabled={isBusy} className="w-full bg-blue-500 text-white px-4 py-2 rounded disabled:opacity-50">
+                    Keep my data
+                  </button>
+                )}
+              </div>
+
+              {/* 解答記録の圧縮 */}
+              <div className="bg-gray-50 p-3 rounded-lg space-y-2">
+                <h3 className="font-semibold text-gray-800">Compact history</h3>
+                <div className="text-gray-600">
+                  Answers from before {new Date(diagnostics.compactionCutoff).toLocaleDateString()} are replaced with daily totals per setting. Stats,
+                  best scores and skill rating are kept, but charts and the practice calendar only show the last {diagnostics.keepDays} days in
+                  detail. The less space is left, the fewer days are kept.
+                </div>
+                <button
+                  onClick={handleCompact}
+                  disabled={isBusy || diagnostics.compactableTrials === 0}
+                  className="w-full bg-gray-600 text-white px-4 py-2 rounded disabled:opacity-50"
+                >
+                  Compact {diagnostics.compactableTrials} answer(s)
+                </button>
+                {diagnostics.compactableTrials === 0 && level !== "ok" && (
+                  <div className="text-xs text-red-700">
+                    All answers are from the last {diagnostics.keepDays} days, so compacting cannot free up space. Export a backup and reset settings
+                    you no longer play.
+                  </div>
+                )}
+                {archive && (
+                  <div className="text-xs text-gray-500">
+                    Archived so far: {archive.archivedTrials} answer(s) over {new Set(archive.aggregates.map((aggregate) => aggregate.date)).size}{" "}
+                    day(s)
+                  </div>
+                )}
+              </div>
+
+              {/* 保存の失敗 */}
+              {errors.length > 0 && (
+                <div className="bg-red-50 p-3 rounded-lg text-red-800">
+                  <h3 className="font-semibold mb-1">Recent save failures</h3>
+                  <ul className="text-xs space-y-1 max-h-32 overflow-y-auto break-all">
+                    {errors.map((error, index) => (
+                      <li key={index}>
+                        {new Date(error.occurredAt).toLocaleTimeString()} · {error.operation}:{" "}
+                        {error.isQuotaExceeded ? "storage full" : error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {message && (
+            <div className={`p-3 rounded-lg ${message.isError ? "bg-red-50 text-red-800" : "bg-green-50 text-green-800"}`}>{message.text}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
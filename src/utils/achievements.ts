@@ -0,0 +1,155 @@
+import { GameStatsMap, parseSettingsKey } from "./gameStats";
+import { calculateDifficultyRating } from "./skillRating";
+import { getProfileStorageKey } from "./profiles";
+
+// 実績（条件をデータとして定義し、解答のたびに統計情報から判定する）
+
+export type AchievementCondition =
+  | { type: "streak"; count: number } // いずれかの設定での最高連続正解数
+  | { type: "totalChallenges"; count: number } // 全設定の合計解答数
+  | { type: "accuracy"; accuracy: number; minDifficulty: number } // 難易度レーティングが一定以上の設定での100問の最高正答率
+  | { type: "dailyStreak"; days: number }; // 連続してプレイした日数
+
+export interface AchievementDefinition {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+  condition: AchievementCondition;
+}
+
+export interface UnlockedAchievement {
+  id: string;
+  unlockedAt: string;
+}
+
+// 判定に使うデータ
+export interface AchievementContext {
+  statsMap: GameStatsMap;
+  playDates: string[]; // プレイした日（YYYY-MM-DD）
+}
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: "streak-5", icon: "🔥", title: "Warming Up", description: "Answer 5 in a row correctly", condition: { type: "streak", count: 5 } },
+  { id: "streak-10", icon: "🔥", title: "On Fire", description: "Answer 10 in a row correctly", condition: { type: "streak", count: 10 } },
+  { id: "streak-25", icon: "🔥", title: "Unstoppable", description: "Answer 25 in a row correctly", condition: { type: "streak", count: 25 } },
+  { id: "streak-50", icon: "🔥", title: "Photographic", description: "Answer 50 in a row correctly", condition: { type: "streak", count: 50 } },
+  { id: "total-100", icon: "🎮", title: "Getting Started", description: "Play 100 challenges", condition: { type: "totalChallenges", count: 100 } },
+  { id: "total-500", icon: "🎮", title: "Regular", description: "Play 500 challenges", condition: { type: "totalChallenges", count: 500 } },
+  { id: "total-1000", icon: "🎮", title: "Dedicated", description: "Play 1,000 challenges", condition: { type: "totalChallenges", count: 1000 } },
+  { id: "total-5000", icon: "🎮", title: "Grid Master", description: "Play 5,000 challenges", condition: { type: "totalChallenges", count: 5000 } },
+  {
+    id: "accuracy-1400",
+    icon: "🎯",
+    title: "Sharp Eye",
+    description: "Reach 80% over 100 questions on settings rated 1400+",
+    condition: { type: "accuracy", accuracy: 80, minDifficulty: 1400 },
+  },
+  {
+    id: "accuracy-1700",
+    icon: "🎯",
+    title: "Eagle Eye",
+    description: "Reach 80% over 100 questions on settings rated 1700+",
+    condition: { type: "accuracy", accuracy: 80, minDifficulty: 1700 },
+  },
+  {
+    id: "accuracy-2000",
+    icon: "🎯",
+    title: "Total Recall",
+    description: "Reach 70% over 100 questions on settings rated 2000+",
+    condition: { type: "accuracy", accuracy: 70, minDifficulty: 2000 },
+  },
+  { id: "daily-3", icon: "📅", title: "Habit Forming", description: "Play 3 days in a row", condition: { type: "dailyStreak", days: 3 } },
+  { id: "daily-7", icon: "📅", title: "Weekly Routine", description: "Play 7 days in a row", condition: { type: "dailyStreak", days: 7 } },
+  { id: "daily-30", icon: "📅", title: "Monthly Devotion", description: "Play 30 days in a row", condition: { type: "dailyStreak", days: 30 } },
+];
+
+// 連続プレイの判定に必要な日数
+export const MAX_DAILY_STREAK_DAYS = Math.max(
+  ...ACHIEVEMENTS.map((achievement) => (achievement.condition.type === "dailyStreak" ? achievement.condition.days : 0)),
+);
+
+// ローカル日付（YYYY-MM-DD）を通算日数に変換（夏時間の影響を受けないようUTCで計算）
+const toDayNumber = (date: string): number => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / (24 * 60 * 60 * 1000);
+};
+
+// 最長の連続プレイ日数
+export const calculateLongestPlayStreak = (playDates: string[]): number => {
+  const days = [...new Set(playDates)].map(toDayNumber).sort((a, b) => a - b);
+
+  let longest = 0;
+  let current = 0;
+  days.forEach((day, index) => {
+    current = index > 0 && day - days[index - 1] === 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+};
+
+// 条件の達成度
+export const getAchievementProgress = (condition: AchievementCondition, context: AchievementContext): AchievementProgress => {
+  const entries = Object.entries(context.statsMap);
+
+  switch (condition.type) {
+    case "streak":
+      return { current: Math.max(0, ...entries.map(([, stats]) => stats.maxConsecutiveCorrect)), target: condition.count };
+    case "totalChallenges":
+      return { current: entries.reduce((sum, [, stats]) => sum + stats.totalChallenges, 0), target: condition.count };
+    case "accuracy": {
+      // 100問の正答率は100問解答した後にのみ記録される
+      const accuracies = entries
+        .filter(([settingsKey, stats]) => {
+          const settings = parseSettingsKey(settingsKey);
+          return settings && stats.totalChallenges >= 100 && calculateDifficultyRating(settings) >= condition.minDifficulty;
+        })
+        .map(([, stats]) => stats.bestAccuracy || 0);
+      return { current: Math.max(0, ...accuracies), target: condition.accuracy };
+    }
+    case "dailyStreak":
+      return { current: calculateLongestPlayStreak(context.playDates), target: condition.days };
+  }
+};
+
+export const isAchievementUnlocked = (achievement: AchievementDefinition, context: AchievementContext): boolean => {
+  const progress = getAchievementProgress(achievement.condition, context);
+  return progress.current >= progress.target;
+};
+
+// 新たに達成した実績（解除済みのものは除く）
+export const findNewAchievements = (context: AchievementContext, unlocked: UnlockedAchievement[]): AchievementDefinition[] => {
+  const unlockedIds = new Set(unlocked.map((achievement) => achievement.id));
+  return ACHIEVEMENTS.filter((achievement) => !unlockedIds.has(achievement.id) && isAchievementUnlocked(achievement, context));
+};
+
+// 解除済みの実績（プロフィールごとに保存）
+export const loadAchievementsFromStorage = (profileId?: string): UnlockedAchievement[] => {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("achievements", profileId));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load achievements:", error);
+  }
+
+  return [];
+};
+
+export const saveAchievementsToStorage = (achievements: UnlockedAchievement[], profileId?: string): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(getProfileStorageKey("achievements", profileId), JSON.stringify(achievements));
+  } catch (error) {
+    console.error("Failed to save achievements:", error);
+  }
+};
@@ -0,0 +1,213 @@
+import { RecallMode, RetentionMask } from "./gameSettings";
+import { getRetentionKeySuffix } from "./gameStats";
+import { getProfileStorageKey } from "./profiles";
+
+// 適応難易度（上下法）
+// 連続正解でセル数を増やし、セル数が上限に達したら表示時間を短くする。
+// 連続不正解では逆の順序で易しくする。
+
+export interface StaircaseConfig {
+  up: number; // 難易度を上げるまでの連続正解数
+  down: number; // 難易度を下げるまでの連続不正解数
+  minCells: number;
+  maxCells: number;
+  baseShowTime: number;
+  minShowTime: number;
+  showTimeStep: number;
+}
+
+export interface AdaptiveLevel {
+  numActiveCells: number;
+  showTime: number;
+}
+
+export interface AdaptiveSession {
+  id: string;
+  key: string;
+  startedAt: string;
+  updatedAt: string;
+  trials: number;
+  correct: number;
+  correctRun: number;
+  wrongRun: number;
+  lastDirection: "up" | "down" | null;
+  reversalLevels: number[]; // 反転時のセル数
+  maxCellsCorrect: number;
+  spanEstimate: number;
+}
+
+export interface AdaptiveLevelMap {
+  [key: string]: AdaptiveLevel;
+}
+
+export const MAX_ADAPTIVE_SESSIONS = 50;
+// スパン推定に使う直近の反転回数
+const SPAN_REVERSAL_WINDOW = 6;
+const INITIAL_CELLS = 3;
+
+// グリッドサイズ・解答方法・保持時間ごとにレベルを保持
+export const generateAdaptiveKey = (
+  gridSize: number,
+  recallMode: RecallMode = "pattern",
+  retentionDelay: number = 0,
+  retentionMask: RetentionMask = "none",
+): string => {
+  return `adaptive-${gridSize}-${recallMode}${getRetentionKeySuffix(retentionDelay, retentionMask)}`;
+};
+
+export const createStaircaseConfig = (gridSize: number, baseShowTime: number, up: number, down: number): StaircaseConfig => ({
+  up,
+  down,
+  minCells: 1,
+  maxCells: gridSize * gridSize,
+  baseShowTime,
+  minShowTime: 100,
+  showTimeStep: 100,
+});
+
+export const initializeLevel = (config: StaircaseConfig): AdaptiveLevel => ({
+  numActiveCells: Math.min(INITIAL_CELLS, config.maxCells),
+  showTime: config.baseShowTime,
+});
+
+// 設定範囲外のレベルを補正
+export const clampLevel = (level: AdaptiveLevel, config: StaircaseConfig): AdaptiveLevel => ({
+  numActiveCells: Math.max(config.minCells, Math.min(config.maxCells, level.numActiveCells)),
+  showTime: Math.max(config.minShowTime, Math.min(config.baseShowTime, level.showTime)),
+});
+
+export const stepUp = (level: AdaptiveLevel, config: StaircaseConfig): AdaptiveLevel => {
+  if (level.numActiveCells < config.maxCells) {
+    return { ...level, numActiveCells: level.numActiveCells + 1 };
+  }
+  return { ...level, showTime: Math.max(config.minShowTime, level.showTime - config.showTimeStep) };
+};
+
+export const stepDown = (level: AdaptiveLevel, config: StaircaseConfig): AdaptiveLevel => {
+  if (level.showTime < config.baseShowTime) {
+    return { ...level, showTime: Math.min(config.baseShowTime, level.showTime + config.showTimeStep) };
+  }
+  return { ...level, numActiveCells: Math.max(config.minCells, level.numActiveCells - 1) };
+};
+
+export const createAdaptiveSession = (key: string): AdaptiveSession => {
+  const now = new Date().toISOString();
+  return {
+    id: `${key}-${Date.now()}`,
+    key,
+    startedAt: now,
+    updatedAt: now,
+    trials: 0,
+    correct: 0,
+    correctRun: 0,
+    wrongRun: 0,
+    lastDirection: null,
+    reversalLevels: [],
+    maxCellsCorrect: 0,
+    spanEstimate: 0,
+  };
+};
+
+// 直近の反転点の平均セル数をスパンとする（反転がない場合は正解した最大セル数）
+export const estimateSpan = (session: AdaptiveSession): number => {
+  const reversals = session.reversalLevels.slice(-SPAN_REVERSAL_WINDOW);
+  if (reversals.length === 0) return session.maxCellsCorrect;
+
+  const sum = reversals.reduce((total, cells) => total + cells, 0);
+  return Math.round((sum / reversals.length) * 10) / 10;
+};
+
+// 1問の結果からレベルとセッションを更新
+export const updateStaircase = (
+  level: AdaptiveLevel,
+  session: AdaptiveSession,
+  config: StaircaseConfig,
+  isCorrect: boolean,
+): { level: AdaptiveLevel; session: AdaptiveSession } => {
+  const correctRun = isCorrect ? session.correctRun + 1 : 0;
+  const wrongRun = isCorrect ? 0 : session.wrongRun + 1;
+
+  let direction: "up" | "down" | null = null;
+  if (correctRun >= config.up) {
+    direction = "up";
+  } else if (wrongRun >= config.down) {
+    direction = "down";
+  }
+
+  const reversalLevels = [...session.reversalLevels];
+  if (direction && session.lastDirection && direction !== session.lastDirection) {
+    reversalLevels.push(level.numActiveCells);
+  }
+
+  const nextLevel = direction === "up" ? stepUp(level, config) : direction === "down" ? stepDown(level, config) : level;
+
+  const updatedSession: AdaptiveSession = {
+    ...session,
+    updatedAt: new Date().toISOString(),
+    trials: session.trials + 1,
+    correct: session.correct + (isCorrect ? 1 : 0),
+    correctRun: direction ? 0 : correctRun,
+    wrongRun: direction ? 0 : wrongRun,
+    lastDirection: direction || session.lastDirection,
+    reversalLevels,
+    maxCellsCorrect: isCorrect ? Math.max(session.maxCellsCorrect, level.numActiveCells) : session.maxCellsCorrect,
+  };
+  updatedSession.spanEstimate = estimateSpan(updatedSession);
+
+  return { level: nextLevel, session: updatedSession };
+};
+
+// ローカルストレージからレベルを読み込み
+export const loadAdaptiveLevelsFromStorage = (): AdaptiveLevelMap => {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("adaptiveLevels"));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load adaptive levels:", error);
+  }
+
+  return {};
+};
+
+export const saveAdaptiveLevelsToStorage = (levels: AdaptiveLevelMap): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(getProfileStorageKey("adaptiveLevels"), JSON.stringify(levels));
+  } catch (error) {
+    console.error("Failed to save adaptive levels:", error);
+  }
+};
+
+// ローカルストレージからセッション履歴を読み込み（新しい順）
+export const loadAdaptiveSessionsFromStorage = (): AdaptiveSession[] => {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("adaptiveSessions"));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load adaptive sessions:", error);
+  }
+
+  return [];
+};
+
+// セッションを保存（同じIDのセッションは上書き）
+export const saveAdaptiveSessionToStorage = (session: AdaptiveSession): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    const sessions = loadAdaptiveSessionsFromStorage().filter((item) => item.id !== session.id);
+    sessions.unshift(session);
+    localStorage.setItem(getProfileStorageKey("adaptiveSessions"), JSON.stringify(sessions.slice(0, MAX_ADAPTIVE_SESSIONS)));
+  } catch (error) {
+    console.error("Failed to save adaptive session:", error);
+  }
+};
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TrialRecord, initializeStats, updateStats } from "./gameStats";
+import { BackupError, BackupRestoreError, calculateChecksum, createBackup, parseBackup, restoreBackup, serializeBackup } from "./backup";
+import { getUnifiedStatsManager } from "./unifiedStatsManager";
+import { compactTrials } from "./trialArchive";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createTrial = (id: string, timestamp: number): TrialRecord => ({
+  id,
+  timestamp,
+  date: "2024-01-01",
+  settingsKey: "key",
+  settings: { gridSize: 4, showTime: 500, answerTime: 0, numActiveCells: 5, recallMode: "pattern" },
+  seed: 1,
+  solution: [0, 1, 2, 3, 4],
+  response: [0, 1, 2, 3, 4],
+  isCorrect: true,
+  timedOut: false,
+  score: { hits: 5, misses: 0, falseAlarms: 0, correctRejections: 11 },
+  responseTime: 1200,
+  taps: [],
+  isRetry: false,
+});
+
+describe("backup trial archive", () => {
+  it("includes the archive in the backup and its checksum", async () => {
+    const manager = getUnifiedStatsManager();
+    await manager.saveTrial(createTrial("old", 1000));
+    await manager.saveTrial(createTrial("new", Date.now()));
+    await manager.compactTrialHistory(Date.now() - DAY);
+
+    const backup = await createBackup();
+    expect(backup.data.archive).toEqual(manager.getTrialArchive());
+    expect(parseBackup(serializeBackup(backup)).data.archive).toEqual(backup.data.archive);
+
+    const edited = { ...backup, data: { ...backup.data, archive: { ...backup.data.archive!, archivedTrials: 99 } } };
+    expect(() => parseBackup(serializeBackup(edited))).toThrow(/checksum mismatch/);
+  });
+
+  it("rejects a malformed archive", () => {
+    const archive = { archivedBefore: 0, archivedTrials: 1, aggregates: [{ date: "yesterday", settingsKey: "key", trials: -1 }], skillRating: null };
+    const data = { stats: {}, settings: {}, archive };
+    const json = JSON.stringify({ format: "gridrecall-backup", version: 1, checksum: calculateChecksum(data as never), data });
+
+    expect(() => parseBackup(json)).toThrow(BackupError);
+    try {
+      parseBackup(json);
+    } catch (error) {
+      expect((error as BackupError).errors).toContain("data.archive.aggregates[0].date: expected YYYY-MM-DD");
+      expect((error as BackupError).errors).toContain("data.archive.aggregates[0].trials: expected a non-negative integer");
+    }
+  });
+
+  it("restores the archive without counting it twice", async () => {
+    const archive = compactTrials(null, [createTrial("a", 1000), createTrial("b", 2000)], DAY);
+    const backup = await createBackup();
+    backup.data.archive = archive;
+
+    const options = { strategy: "combine" as const, restoreSettings: false };
+    expect((await restoreBackup(backup, options)).newArchivedDays).toBe(1);
+    expect((await restoreBackup(backup, options)).newArchivedDays).toBe(0);
+    expect(getUnifiedStatsManager().getTrialArchive()!.archivedTrials).toBe(2);
+  });
+});
+
+describe("partial restore", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reports what was restored and can be restored again without counting stats twice", async () => {
+    const manager = getUnifiedStatsManager();
+    const backup = await createBackup();
+    backup.data.stats = { "restore-key": updateStats(updateStats(initializeStats(), true), false) };
+    backup.data.trials = [createTrial("restore-a", 1000)];
+    backup.data.archive = compactTrials(null, [createTrial("restore-b", 500)], DAY);
+    const options = { strategy: "combine" as const, restoreSettings: false };
+
+    vi.spyOn(manager, "importTrialArchive").mockRejectedValueOnce(new Error("storage full"));
+    const error = await restoreBackup(backup, options).catch((error) => error);
+    expect(error).toBeInstanceOf(BackupRestoreError);
+    expect(error).toMatchObject({ applied: ["trials"], failed: "archived history" });
+    expect(error.message).toContain("storage full");
+    expect(await manager.getStatsByKey("restore-key")).toBeNull();
+
+    await restoreBackup(backup, options);
+    expect((await manager.getStatsByKey("restore-key"))!.totalChallenges).toBe(2);
+    expect((await manager.getTrialHistory()).filter((record) => record.id === "restore-a")).toHaveLength(1);
+  });
+});
+
+describe("backup trial validation", () => {
+  const parseWithTrials = (trials: unknown[]) => {
+    const data = { stats: {}, settings: {}, trials };
+    return parseBackup(JSON.stringify({ format: "gridrecall-backup", version: 1, checksum: calculateChecksum(data as never), data }));
+  };
+
+  const getErrors = (trials: unknown[]): string[] => {
+    try {
+      parseWithTrials(trials);
+      return [];
+    } catch (error) {
+      return (error as BackupError).errors;
+    }
+  };
+
+  it("accepts complete trial records", () => {
+    expect(parseWithTrials([createTrial("a", 1000)]).data.trials).toHaveLength(1);
+  });
+
+  it("rejects trial records with a broken shape", () => {
+    const record = createTrial("a", 1000);
+    const errors = getErrors([
+      { ...record, settings: { ...record.settings, recallMode: "mirror" } },
+      { ...record, id: "b", solution: [0, 99], score: { hits: 1 } },
+      { ...record, id: "c", date: 20240101, isRetry: "no", responseTime: -1 },
+    ]);
+
+    expect(errors).toContain('data.trials[0].settings.recallMode: expected one of pattern, sequence, reverse, got "mirror"');
+    expect(errors).toContain("data.trials[1].solution[1]: expected a cell index, got 99");
+    expect(errors).toContain("data.trials[1].score.misses: expected a non-negative integer, got undefined");
+    expect(errors).toContain("data.trials[2].date: expected a YYYY-MM-DD date, got 20240101");
+    expect(errors).toContain('data.trials[2].isRetry: expected a boolean, got "no"');
+    expect(errors).toContain("data.trials[2].responseTime: expected a non-negative number or null, got -1");
+  });
+
+  it("rejects duplicate trial ids", () => {
+    expect(getErrors([createTrial("a", 1000), createTrial("a", 2000)])).toEqual(['data.trials[1].id: duplicate id "a"']);
+  });
+});
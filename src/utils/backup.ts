@@ -0,0 +1,275 @@
+import { GameStatsMap, TrialRecord } from "./gameStats";
+import { GameSettings, validateSettings } from "./gameSettings";
+import { SETTINGS_MIGRATIONS, SETTINGS_SCHEMA_VERSION, STATS_SCHEMA_VERSION, migrateRecord, parseSchemaVersion } from "./migrations";
+import { hashStringToSeed } from "./seededRandom";
+import { StatsImportPreview, StatsImportStrategy, isCount, validateStatsMap, validateTrialRecord } from "./statsImport";
+import { StorageType } from "./statsStore";
+import { getUnifiedStatsManager } from "./unifiedStatsManager";
+import { getActiveProfile } from "./profiles";
+import { loadSettings, saveSettings } from "./unifiedSettingsManager";
+import { TrialArchive, mergeArchives } from "./trialArchive";
+
+// バックアップファイル（統計情報・設定・解答記録・圧縮済みの解答記録の集計をまとめた形式）
+
+export const BACKUP_FORMAT = "gridrecall-backup";
+export const BACKUP_VERSION = 1;
+export const BACKUP_FILE_EXTENSION = ".gridrecall.json";
+
+export interface BackupData {
+  stats: GameStatsMap;
+  settings: GameSettings;
+  trials?: TrialRecord[]; // 解答記録がない場合は省略
+  archive?: TrialArchive; // 圧縮していない場合は省略
+}
+
+export interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  version: number; // バックアップ形式のバージョン
+  createdAt: string;
+  environment: StorageType; // 作成元の保存先
+  profile?: string; // 作成元のプロフィール名（復元先は使用中のプロフィール）
+  schemaVersions: { stats: number; settings: number }; // 作成時のデータ形式のバージョン
+  checksum: string; // dataの破損・手動編集の検出用（改ざん防止ではない）
+  data: BackupData;
+}
+
+export interface BackupRestoreOptions {
+  strategy: StatsImportStrategy;
+  restoreSettings: boolean;
+}
+
+export interface BackupRestorePreview {
+  stats: StatsImportPreview;
+  newTrials: number; // 未保存の解答記録の件数（同じIDの記録は追加しない）
+  newArchivedDays: number; // 追加される圧縮済みの日ごと・設定ごとの集計の件数
+  settingsChanged: boolean;
+}
+
+// 検証エラー（errorsに問題のある箇所ごとのメッセージを保持）
+export class BackupError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid backup file:\n${errors.join("\n")}`);
+    this.name = "BackupError";
+  }
+}
+
+// 復元の途中で保存に失敗した（appliedは保存できた項目）
+export class BackupRestoreError extends Error {
+  constructor(
+    readonly applied: string[],
+    readonly failed: string,
+    readonly cause: unknown,
+  ) {
+    super(
+      `Restore was only partly applied: ${applied.length > 0 ? applied.join(", ") : "nothing"} restored, but ${failed} could not be saved (${String(cause)}). Restoring the same backup again is safe.`,
+    );
+    this.name = "BackupRestoreError";
+  }
+}
+
+// dataのJSON文字列からチェックサムを計算（FNV-1a）
+export const calculateChecksum = (data: BackupData): string => {
+  return `fnv1a:${hashStringToSeed(JSON.stringify(data)).toString(16).padStart(8, "0")}`;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+// 解答記録を検証（同じIDの記録が複数ある場合もエラー）
+const validateTrials = (trials: unknown): string[] => {
+  if (!Array.isArray(trials)) {
+    return ["data.trials: expected an array"];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<unknown>();
+  trials.forEach((record, index) => {
+    const path = `data.trials[${index}]`;
+    errors.push(...validateTrialRecord(record, path));
+    if (isPlainObject(record) && typeof record.id === "string") {
+      if (ids.has(record.id)) errors.push(`${path}.id: duplicate id ${JSON.stringify(record.id)}`);
+      ids.add(record.id);
+    }
+  });
+  return errors;
+};
+
+// 圧縮済みの解答記録の集計を検証
+const validateArchive = (archive: unknown): string[] => {
+  if (!isPlainObject(archive)) {
+    return ["data.archive: expected an object"];
+  }
+
+  const errors: string[] = [];
+  if (typeof archive.archivedBefore !== "number") errors.push("data.archive.archivedBefore: expected a number");
+  if (!isCount(archive.archivedTrials)) errors.push("data.archive.archivedTrials: expected a non-negative integer");
+  if (archive.skillRating !== null && !(isPlainObject(archive.skillRating) && typeof archive.skillRating.rating === "number")) {
+    errors.push("data.archive.skillRating: expected a skill rating or null");
+  }
+  if (!Array.isArray(archive.aggregates)) {
+    errors.push("data.archive.aggregates: expected an array");
+    return errors;
+  }
+
+  archive.aggregates.forEach((aggregate, index) => {
+    const path = `data.archive.aggregates[${index}]`;
+    if (!isPlainObject(aggregate)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+    if (typeof aggregate.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(aggregate.date)) errors.push(`${path}.date: expected YYYY-MM-DD`);
+    if (typeof aggregate.settingsKey !== "string") errors.push(`${path}.settingsKey: expected a string`);
+    (["trials", "correct", "timeouts", "retries", "responseTimeTotal", "responseTimeCount"] as const).forEach((field) => {
+      if (!isCount(aggregate[field])) errors.push(`${path}.${field}: expected a non-negative integer`);
+    });
+    if (aggregate.bestStreak !== undefined && !isCount(aggregate.bestStreak)) errors.push(`${path}.bestStreak: expected a non-negative integer`);
+    if (isCount(aggregate.trials) && isCount(aggregate.correct) && aggregate.correct > aggregate.trials) {
+      errors.push(`${path}.correct: cannot exceed trials`);
+    }
+  });
+  return errors;
+};
+
+// 使用中のプロフィールの統計情報・設定・解答記録・圧縮記録からバックアップを作成
+export const createBackup = async (): Promise<BackupEnvelope> => {
+  const manager = getUnifiedStatsManager();
+  const [stats, trials, settings] = await Promise.all([manager.getAllStats(), manager.getTrialHistory(), loadSettings()]);
+  const archive = manager.getTrialArchive();
+  const data: BackupData = { stats, settings, ...(trials.length > 0 ? { trials } : {}), ...(archive ? { archive } : {}) };
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    environment: manager.getEnvironmentInfo().storageType,
+    profile: getActiveProfile().name,
+    schemaVersions: { stats: STATS_SCHEMA_VERSION, settings: SETTINGS_SCHEMA_VERSION },
+    checksum: calculateChecksum(data),
+    data,
+  };
+};
+
+// バックアップファイルを解析して検証し、データを最新の形式に変換（問題がある場合はBackupErrorを投げる）
+export const parseBackup = (json: string): BackupEnvelope => {
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(json);
+  } catch (error) {
+    throw new BackupError([`not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  if (!isPlainObject(envelope) || envelope.format !== BACKUP_FORMAT) {
+    throw new BackupError(["not a Grid Recall backup file"]);
+  }
+  if (typeof envelope.version !== "number" || envelope.version > BACKUP_VERSION) {
+    throw new BackupError([`backup version ${JSON.stringify(envelope.version)} is not supported (latest: ${BACKUP_VERSION})`]);
+  }
+  if (!isPlainObject(envelope.data)) {
+    throw new BackupError(["data: expected an object"]);
+  }
+
+  const data = envelope.data as unknown as BackupData;
+  if (envelope.checksum !== calculateChecksum(data)) {
+    throw new BackupError(["checksum mismatch: the file is corrupted or was edited"]);
+  }
+
+  const errors: string[] = [];
+  const { statsMap, errors: statsErrors } = validateStatsMap(data.stats);
+  errors.push(...statsErrors.map((error) => `data.stats.${error}`));
+
+  if (!isPlainObject(data.settings)) {
+    errors.push("data.settings: expected an object");
+  }
+  if (data.trials !== undefined) {
+    errors.push(...validateTrials(data.trials));
+  }
+  if (data.archive !== undefined) {
+    errors.push(...validateArchive(data.archive));
+  }
+  if (errors.length > 0) {
+    throw new BackupError(errors);
+  }
+
+  const schemaVersions = isPlainObject(envelope.schemaVersions) ? envelope.schemaVersions : {};
+  const settings = validateSettings(migrateRecord<GameSettings>(data.settings, parseSchemaVersion(schemaVersions.settings), SETTINGS_MIGRATIONS));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: envelope.version,
+    createdAt: String(envelope.createdAt),
+    environment: envelope.environment as StorageType,
+    ...(typeof envelope.profile === "string" ? { profile: envelope.profile } : {}),
+    schemaVersions: { stats: STATS_SCHEMA_VERSION, settings: SETTINGS_SCHEMA_VERSION },
+    checksum: String(envelope.checksum),
+    data: { stats: statsMap, settings, ...(data.trials ? { trials: data.trials } : {}), ...(data.archive ? { archive: data.archive } : {}) },
+  };
+};
+
+export const serializeBackup = (backup: BackupEnvelope): string => {
+  return JSON.stringify(backup, null, 2);
+};
+
+// 復元した場合の変更内容（保存はしない）
+export const previewBackupRestore = async (backup: BackupEnvelope, options: BackupRestoreOptions): Promise<BackupRestorePreview> => {
+  const manager = getUnifiedStatsManager();
+  const stats = await manager.importStats(JSON.stringify(backup.data.stats), { strategy: options.strategy, dryRun: true });
+  const existingIds = new Set((await manager.getTrialHistory()).map((record) => record.id));
+  const currentSettings = await loadSettings();
+  const existingArchive = manager.getTrialArchive();
+
+  return {
+    stats,
+    newTrials: (backup.data.trials || []).filter((record) => !existingIds.has(record.id)).length,
+    newArchivedDays: backup.data.archive
+      ? mergeArchives(existingArchive, backup.data.archive).aggregates.length - (existingArchive ? existingArchive.aggregates.length : 0)
+      : 0,
+    settingsChanged: options.restoreSettings && JSON.stringify(currentSettings) !== JSON.stringify(backup.data.settings),
+  };
+};
+
+// バックアップから復元
+// 何度実行しても結果が変わらない項目（解答記録・圧縮記録・設定）を先に保存し、合算すると重複する統計情報は最後にまとめて保存する。
+// 途中で失敗した場合は保存できた項目をBackupRestoreErrorで知らせる（統計情報はまだ保存していないため、もう一度復元しても重複しない）。
+export const restoreBackup = async (backup: BackupEnvelope, options: BackupRestoreOptions): Promise<BackupRestorePreview> => {
+  const manager = getUnifiedStatsManager();
+  const preview = await previewBackupRestore(backup, options);
+
+  const { trials, archive, settings, stats } = backup.data;
+  const steps: { name: string; run: () => Promise<unknown> }[] = [{ name: "trials", run: () => manager.importTrials(trials || []) }];
+  if (archive) steps.push({ name: "archived history", run: () => manager.importTrialArchive(archive) });
+  if (options.restoreSettings) steps.push({ name: "settings", run: () => saveSettings(settings) });
+  steps.push({ name: "stats", run: () => manager.importStats(JSON.stringify(stats), { strategy: options.strategy }) });
+
+  const applied: string[] = [];
+  for (const step of steps) {
+    try {
+      await step.run();
+    } catch (error) {
+      throw new BackupRestoreError(applied, step.name, error);
+    }
+    applied.push(step.name);
+  }
+
+  console.log(`Restored backup from ${backup.environment} (${backup.createdAt})`);
+  return preview;
+};
+
+// ファイル名（例: gridrecall-2024-01-01.gridrecall.json）
+export const getBackupFileName = (date: Date = new Date()): string => {
+  const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  return `gridrecall-${dateKey}${BACKUP_FILE_EXTENSION}`;
+};
+
+// バックアップをファイルとしてダウンロード
+export const downloadBackup = (backup: BackupEnvelope): void => {
+  const blob = new Blob([serializeBackup(backup)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getBackupFileName(new Date(backup.createdAt));
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,43 @@
+import { GameSettings } from "./gameStats";
+import { hashStringToSeed } from "./seededRandom";
+
+// デイリーチャレンジは全員が同じ設定・同じ問題列に挑戦する
+export const DAILY_CHALLENGE_LENGTH = 10;
+
+export const DAILY_CHALLENGE_SETTINGS: GameSettings = {
+  gridSize: 5,
+  showTime: 1000,
+  answerTime: 0,
+  numActiveCells: 7,
+  recallMode: "pattern",
+  retentionDelay: 0,
+  retentionMask: "none",
+};
+
+const DAILY_STATS_KEY_PREFIX = "daily-";
+
+// ローカル日付からキーを生成（YYYY-MM-DD）
+export const getDailyChallengeDate = (date: Date = new Date()): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+// その日の問題列のシードを生成
+export const getDailyChallengeSeeds = (dateKey: string, count: number = DAILY_CHALLENGE_LENGTH): number[] => {
+  const seeds: number[] = [];
+  for (let i = 0; i < count; i++) {
+    seeds.push(hashStringToSeed(`gridrecall:${dateKey}:${i}`));
+  }
+  return seeds;
+};
+
+// デイリーチャレンジ用の統計キー（フリープレイのキーとは重複しない）
+export const generateDailyStatsKey = (dateKey: string): string => {
+  return `${DAILY_STATS_KEY_PREFIX}${dateKey}`;
+};
+
+export const isDailyStatsKey = (settingsKey: string): boolean => {
+  return settingsKey.startsWith(DAILY_STATS_KEY_PREFIX);
+};
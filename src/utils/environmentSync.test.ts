@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { GameStats, initializeStats, updateStats } from "./gameStats";
+import { MemoryStatsStore } from "./statsStore";
+import { mergeStatsStores } from "./environmentSync";
+
+const KEY = "key";
+
+// 正誤の順に解答した統計情報
+const play = (stats: GameStats, answers: boolean[], startAt: number): GameStats => {
+  return answers.reduce((current, isCorrect, index) => updateStats(current, isCorrect, undefined, false, startAt + index), stats);
+};
+
+const createStores = async (web: GameStats | null, pwa: GameStats | null) => {
+  const webStore = new MemoryStatsStore();
+  const pwaStore = new MemoryStatsStore();
+  if (web) await webStore.saveStats(KEY, web);
+  if (pwa) await pwaStore.saveStats(KEY, pwa);
+  return { webStore, pwaStore };
+};
+
+describe("mergeStatsStores", () => {
+  it("combines stats played independently on both sides", async () => {
+    const { webStore, pwaStore } = await createStores(play(initializeStats(), [true, true], 1000), play(initializeStats(), [false], 2000));
+
+    const report = await mergeStatsStores(webStore, pwaStore, {});
+    const merged = await webStore.getStats(KEY);
+    expect(report.combined).toBe(1);
+    expect(merged).toEqual(await pwaStore.getStats(KEY));
+    expect(merged!.totalChallenges).toBe(3);
+    expect(merged!.recentAnswers).toEqual([true, true, false]);
+  });
+
+  it("copies stats that changed on one side only", async () => {
+    const base = play(initializeStats(), [true], 1000);
+    const { webStore, pwaStore } = await createStores(play(base, [false], 2000), base);
+
+    const report = await mergeStatsStores(webStore, pwaStore, { [KEY]: base });
+    expect(report.toPWA).toBe(1);
+    expect((await pwaStore.getStats(KEY))!.totalChallenges).toBe(2);
+  });
+
+  it("counts answers from before the last sync once", async () => {
+    const base = play(initializeStats(), [true, true], 1000);
+    const { webStore, pwaStore } = await createStores(play(base, [false], 2000), play(base, [true, true], 3000));
+
+    await mergeStatsStores(webStore, pwaStore, { [KEY]: base });
+    const merged = await webStore.getStats(KEY);
+    expect(merged!.totalChallenges).toBe(5);
+    expect(merged!.recentAnswers).toEqual([true, true, false, true, true]);
+    expect(merged!.currentConsecutiveCorrect).toBe(2);
+
+    // 統合済みのデータをもう一度統合しても変わらない
+    const report = await mergeStatsStores(webStore, pwaStore, { [KEY]: merged! });
+    expect(report.unchanged).toBe(1);
+    expect(await webStore.getStats(KEY)).toEqual(merged);
+  });
+
+  it("keeps the newer stats when the last sync is unknown", async () => {
+    const { webStore, pwaStore } = await createStores(play(initializeStats(), [true, true], 1000), play(initializeStats(), [false], 2000));
+
+    const report = await mergeStatsStores(webStore, pwaStore, null);
+    expect(report.toWeb).toBe(1);
+    expect((await webStore.getStats(KEY))!.totalChallenges).toBe(1);
+  });
+});
@@ -0,0 +1,180 @@
+import { GameStats, GameStatsMap } from "./gameStats";
+import { isSameStats, mergeStats } from "./statsImport";
+import { StatsEntry, StatsStore } from "./statsStore";
+import { getProfileStorageKey } from "./profiles";
+
+// Web（ローカルストレージ）とインストールしたPWA（IndexedDB）のデータの統合
+// 設定キーごとに、片方だけが前回の統合から変わっていればその統計情報を両方に保存し、両方で遊んでいれば増えた分を合算して両方に保存する。
+// 解答記録はIDで重複を除いて両方に追加する。同じデータに対して何度実行しても、どちらから実行しても同じ結果になる。
+
+export type SyncDirection = "toWeb" | "toPWA" | "combined" | "none";
+
+export interface SyncChange {
+  settingsKey: string;
+  direction: SyncDirection;
+}
+
+export interface SyncReport {
+  syncedAt: string;
+  changes: SyncChange[];
+  toWeb: number;
+  toPWA: number;
+  combined: number;
+  unchanged: number;
+  trialsToWeb: number;
+  trialsToPWA: number;
+}
+
+// どちらの統計情報を残すかを判定
+// 同じ内容なら何もしない。片方だけが前回の統合結果（base）から変わっていればその統計情報を残し、両方とも変わっていれば合算する。
+// baseがundefinedの場合は前回の統合結果が分からない（記録する前に統合した）ため、合算せずに更新時刻が新しい方、
+// なければ解答数が多い方、それも同じならPWAを優先する。
+export const chooseSyncDirection = (web: StatsEntry | null, pwa: StatsEntry | null, base?: GameStats | null): SyncDirection => {
+  if (!web && !pwa) return "none";
+  if (!pwa) return "toPWA";
+  if (!web) return "toWeb";
+  if (isSameStats(web.stats, pwa.stats)) return "none";
+
+  if (base !== undefined) {
+    if (base && isSameStats(base, pwa.stats)) return "toPWA";
+    if (base && isSameStats(base, web.stats)) return "toWeb";
+    return "combined";
+  }
+
+  if (web.updatedAt !== null && pwa.updatedAt !== null && web.updatedAt !== pwa.updatedAt) {
+    return web.updatedAt > pwa.updatedAt ? "toPWA" : "toWeb";
+  }
+  return web.stats.totalChallenges > pwa.stats.totalChallenges ? "toPWA" : "toWeb";
+};
+
+// 前回の統合以降に増えた分（直近の記録は末尾に追加されるため、増えた問題数だけ末尾から取り出す）
+// 解答数が前回より少ない場合は統合後にリセットしたため、リセット後の記録を全て返す。
+const getStatsSince = (stats: GameStats, base: GameStats): GameStats => {
+  if (stats.totalChallenges < base.totalChallenges) return stats;
+
+  const added = stats.totalChallenges - base.totalChallenges;
+  return {
+    ...stats,
+    totalChallenges: added,
+    recentAnswers: added > 0 ? stats.recentAnswers.slice(-added) : [],
+    currentConsecutiveCorrect: Math.min(stats.currentConsecutiveCorrect, added),
+    recentScores: added > 0 ? (stats.recentScores || []).slice(-added) : [],
+    timeouts: Math.max(0, (stats.timeouts || 0) - (base.timeouts || 0)),
+  };
+};
+
+// 両方で遊んだ統計情報を合算（前回の統合結果は一度だけ数える）
+export const combineSyncedStats = (web: GameStats, pwa: GameStats, base: GameStats | null): GameStats => {
+  if (!base) return mergeStats(web, pwa, "combine");
+
+  const added = mergeStats(getStatsSince(web, base), getStatsSince(pwa, base), "combine");
+  const isReset = web.totalChallenges < base.totalChallenges || pwa.totalChallenges < base.totalChallenges;
+  return isReset ? added : mergeStats(base, added, "combine");
+};
+
+// 2つの保存先を統合して結果を返す
+// baseMapは前回の統合結果（nullの場合は前回の統合結果が分からないため、合算せずに新しい方を残す）。
+export const mergeStatsStores = async (web: StatsStore, pwa: StatsStore, baseMap: GameStatsMap | null = {}): Promise<SyncReport> => {
+  const webEntries = new Map((await web.getStatsEntries()).map((entry) => [entry.settingsKey, entry]));
+  const pwaEntries = new Map((await pwa.getStatsEntries()).map((entry) => [entry.settingsKey, entry]));
+  const settingsKeys = [...new Set([...webEntries.keys(), ...pwaEntries.keys()])].sort();
+
+  const changes: SyncChange[] = [];
+  for (const settingsKey of settingsKeys) {
+    const webEntry = webEntries.get(settingsKey) || null;
+    const pwaEntry = pwaEntries.get(settingsKey) || null;
+    const base = baseMap ? baseMap[settingsKey] || null : undefined;
+    const direction = chooseSyncDirection(webEntry, pwaEntry, base);
+
+    if (direction === "toPWA") {
+      await pwa.saveStats(settingsKey, webEntry!.stats);
+    } else if (direction === "toWeb") {
+      await web.saveStats(settingsKey, pwaEntry!.stats);
+    } else if (direction === "combined") {
+      const combined = combineSyncedStats(webEntry!.stats, pwaEntry!.stats, base!);
+      await web.saveStats(settingsKey, combined);
+      await pwa.saveStats(settingsKey, combined);
+    }
+    changes.push({ settingsKey, direction });
+  }
+
+  const webTrials = await web.getTrials();
+  const pwaTrials = await pwa.getTrials();
+  const webTrialIds = new Set(webTrials.map((record) => record.id));
+  const pwaTrialIds = new Set(pwaTrials.map((record) => record.id));
+  const trialsToWeb = pwaTrials.filter((record) => !webTrialIds.has(record.id));
+  const trialsToPWA = webTrials.filter((record) => !pwaTrialIds.has(record.id));
+
+  for (const record of trialsToWeb) {
+    await web.saveTrial(record);
+  }
+  for (const record of trialsToPWA) {
+    await pwa.saveTrial(record);
+  }
+  // 解答記録を追加した保存先のスキルレーティングは、次に取得するときに全ての記録から計算し直す
+  if (trialsToWeb.length > 0) await web.updateSkillRating(() => null);
+  if (trialsToPWA.length > 0) await pwa.updateSkillRating(() => null);
+
+  return {
+    syncedAt: new Date().toISOString(),
+    changes,
+    toWeb: changes.filter((change) => change.direction === "toWeb").length,
+    toPWA: changes.filter((change) => change.direction === "toPWA").length,
+    combined: changes.filter((change) => change.direction === "combined").length,
+    unchanged: changes.filter((change) => change.direction === "none").length,
+    trialsToWeb: trialsToWeb.length,
+    trialsToPWA: trialsToPWA.length,
+  };
+};
+
+// 最後に統合した結果（プロフィールごとに保存し、PWAの初回起動の判定にも使用）
+export const loadSyncReportFromStorage = (profileId?: string): SyncReport | null => {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("environmentSyncReport", profileId));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load sync report:", error);
+  }
+
+  return null;
+};
+
+export const saveSyncReportToStorage = (report: SyncReport, profileId?: string): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(getProfileStorageKey("environmentSyncReport", profileId), JSON.stringify(report));
+  } catch (error) {
+    console.error("Failed to save sync report:", error);
+  }
+};
+
+// 前回の統合結果の統計情報（次の統合で前回から増えた分を求めるために使う）
+export const loadSyncBaseFromStorage = (profileId?: string): GameStatsMap | null => {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("environmentSyncBase", profileId));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load sync base:", error);
+  }
+
+  return null;
+};
+
+export const saveSyncBaseToStorage = (statsMap: GameStatsMap, profileId?: string): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(getProfileStorageKey("environmentSyncBase", profileId), JSON.stringify(statsMap));
+  } catch (error) {
+    console.error("Failed to save sync base:", error);
+  }
+};
@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import { EngineClock, EngineSettings, GameEngine, TrialResult } from "./gameEngine";
+
+// 時刻を手動で進めるテスト用の時計
+const createFakeClock = () => {
+  let now = 0;
+  let nextId = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: EngineClock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      timers.set(++nextId, { at: now + ms, callback });
+      return nextId;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+  };
+
+  // 期限を迎えたタイマーを時刻順に実行
+  const advance = (ms: number) => {
+    const target = now + ms;
+    for (;;) {
+      const due = [...timers.entries()].filter(([, timer]) => timer.at <= target).sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].callback();
+    }
+    now = target;
+  };
+
+  return { clock, advance };
+};
+
+const SETTINGS: EngineSettings = { gridSize: 4, showTime: 500, answerTime: 3000, numActiveCells: 3, recallMode: "pattern", retentionDelay: 0 };
+
+const createEngine = (settings: Partial<EngineSettings> = {}) => {
+  const { clock, advance } = createFakeClock();
+  const graded: TrialResult[] = [];
+  const engine = new GameEngine({ ...SETTINGS, ...settings }, { clock, onGraded: (result) => graded.push(result) });
+  return { engine, advance, graded };
+};
+
+// 正解のセルを全て選択
+const selectSolution = (engine: GameEngine) => {
+  engine.getState().sequence.forEach((cell) => engine.toggleCell(cell));
+};
+
+describe("GameEngine", () => {
+  it("moves from memorize to recall after the show time", () => {
+    const { engine, advance } = createEngine();
+    engine.start(1);
+    expect(engine.getState().phase).toBe("memorize");
+    expect(engine.getState().sequence).toHaveLength(3);
+
+    advance(499);
+    expect(engine.getState().phase).toBe("memorize");
+    advance(1);
+    expect(engine.getState().phase).toBe("recall");
+    expect(engine.getState().recallStartedAt).toBe(500);
+  });
+
+  it("passes through retention when a retention delay is set", () => {
+    const { engine, advance } = createEngine({ retentionDelay: 1000 });
+    engine.start(1);
+
+    advance(500);
+    expect(engine.getState().phase).toBe("retention");
+    advance(999);
+    expect(engine.getState().phase).toBe("retention");
+    advance(1);
+    expect(engine.getState().phase).toBe("recall");
+  });
+
+  it("lights sequence cells one at a time", () => {
+    const { engine, advance } = createEngine({ recallMode: "sequence" });
+    engine.start(1);
+    expect(engine.getState().highlightStep).toBe(0);
+
+    advance(500);
+    expect(engine.getState().highlightStep).toBe(1);
+    advance(500);
+    expect(engine.getState().highlightStep).toBe(2);
+    advance(500);
+    expect(engine.getState().phase).toBe("recall");
+    expect(engine.getState().highlightStep).toBe(-1);
+  });
+
+  it("ignores submit before recall", () => {
+    const { engine, advance, graded } = createEngine({ retentionDelay: 1000 });
+    expect(engine.submit()).toBeNull();
+
+    engine.start(1);
+    expect(engine.submit()).toBeNull();
+    expect(engine.getState().phase).toBe("memorize");
+
+    advance(500);
+    expect(engine.submit()).toBeNull();
+    expect(engine.getState().phase).toBe("retention");
+    expect(graded).toEqual([]);
+  });
+
+  it("grades a submit during recall", () => {
+    const { engine, advance, graded } = createEngine();
+    engine.start(1);
+    advance(500);
+    selectSolution(engine);
+    advance(200);
+
+    const result = engine.submit();
+    expect(result).toEqual({ isCorrect: true, timedOut: false, score: { hits: 3, misses: 0, falseAlarms: 0, correctRejections: 13 } });
+    expect(engine.getState().phase).toBe("graded");
+    expect(engine.getState().taps.map((tap) => tap.time)).toEqual([0, 0, 0]);
+    expect(graded).toEqual([result]);
+  });
+
+  it("ignores submit and taps after grading", () => {
+    const { engine, advance, graded } = createEngine();
+    engine.start(1);
+    advance(500);
+    engine.submit();
+
+    expect(engine.submit()).toBeNull();
+    engine.toggleCell(0);
+    expect(engine.getState().userGrid.every((cell) => !cell)).toBe(true);
+    expect(graded).toHaveLength(1);
+  });
+
+  it("grades as timed out when the answer time runs out", () => {
+    const { engine, advance, graded } = createEngine();
+    engine.start(1);
+    advance(500);
+    engine.toggleCell(engine.getState().sequence[0]);
+
+    advance(2999);
+    expect(engine.getState().phase).toBe("recall");
+    advance(1);
+    expect(engine.getState().phase).toBe("graded");
+    expect(graded).toEqual([{ isCorrect: false, timedOut: true, score: { hits: 1, misses: 2, falseAlarms: 0, correctRejections: 13 } }]);
+  });
+
+  it("does not time out when the answer time is unlimited", () => {
+    const { engine, advance } = createEngine({ answerTime: 0 });
+    engine.start(1);
+    advance(60000);
+    expect(engine.getState().phase).toBe("recall");
+  });
+
+  it("grades sequence modes by tap order", () => {
+    const { engine, advance } = createEngine({ recallMode: "reverse" });
+    engine.start(1);
+    advance(1500);
+    [...engine.getState().sequence].reverse().forEach((cell) => engine.toggleCell(cell));
+    expect(engine.submit()?.isCorrect).toBe(true);
+  });
+
+  it("retries the same problem as a retry trial", () => {
+    const { engine, advance, graded } = createEngine();
+    expect(engine.getState().phase).toBe("idle");
+    engine.retry();
+    expect(engine.getState().phase).toBe("idle");
+
+    engine.start(1);
+    const { sequence, seed } = engine.getState();
+    advance(500);
+    engine.submit();
+    engine.retry();
+
+    expect(engine.getState()).toMatchObject({ phase: "memorize", sequence, seed, isRetry: true, result: null });
+    expect(engine.getState().userGrid.every((cell) => !cell)).toBe(true);
+    advance(500);
+    selectSolution(engine);
+    expect(engine.submit()?.isCorrect).toBe(true);
+    expect(graded.map((result) => result.isCorrect)).toEqual([false, true]);
+  });
+
+  it("produces the same problem for the same seed", () => {
+    const first = createEngine();
+    const second = createEngine();
+    first.engine.start(42);
+    second.engine.start(42);
+    expect(first.engine.getState().sequence).toEqual(second.engine.getState().sequence);
+  });
+
+  it("cancels pending timers on reset", () => {
+    const { engine, advance, graded } = createEngine();
+    engine.start(1);
+    engine.reset();
+    advance(10000);
+    expect(engine.getState().phase).toBe("idle");
+    expect(graded).toEqual([]);
+  });
+});
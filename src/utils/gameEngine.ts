@@ -0,0 +1,387 @@
+import { createSeededRandom, generateSeed } from "./seededRandom";
+import { RecallMode } from "./gameSettings";
+
+// DOMやReactに依存しないゲームエンジン
+// フェーズ遷移: idle → memorize →（保持時間がある場合）retention → recall → graded →（Retry時）memorize → ...
+
+export type GamePhase = "idle" | "memorize" | "retention" | "recall" | "graded";
+
+export interface EngineSettings {
+  gridSize: number;
+  showTime: number;
+  answerTime: number;
+  numActiveCells: number;
+  recallMode: RecallMode;
+  retentionDelay: number; // 記憶フェーズ終了から解答開始までの保持時間（ms）
+}
+
+export type TimerHandle = unknown;
+
+// 時間関連の処理を差し替え可能にするためのインターフェース
+export interface EngineClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+// 部分点の内訳（セル単位の信号検出理論の分類）
+export interface TrialScore {
+  hits: number; // 正しく選択したセル
+  misses: number; // 選択しなかった正解セル
+  falseAlarms: number; // 誤って選択したセル
+  correctRejections: number; // 正しく選択しなかったセル
+}
+
+export interface TrialResult {
+  isCorrect: boolean;
+  timedOut: boolean;
+  score: TrialScore;
+}
+
+// セルのタップ記録（timeは解答開始からの経過時間）
+export interface TapEvent {
+  cell: number;
+  time: number;
+}
+
+export interface GameEngineState {
+  phase: GamePhase;
+  settings: EngineSettings;
+  solution: boolean[];
+  // 出題順のセル番号（順序モードではこの順に点灯する）
+  sequence: number[];
+  userGrid: boolean[];
+  // タップ順のセル番号（順序モード用）
+  userSequence: number[];
+  taps: TapEvent[];
+  // 順序モードの記憶フェーズで点灯中のステップ（点灯していない場合は-1）
+  highlightStep: number;
+  isRetry: boolean;
+  seed: number | null;
+  startedAt: number | null;
+  recallStartedAt: number | null;
+  gradedAt: number | null;
+  result: TrialResult | null;
+}
+
+export interface GameEngineOptions {
+  clock?: EngineClock;
+  // シード未指定時に新しいシードを生成するための乱数
+  random?: () => number;
+  onGraded?: (result: TrialResult, state: GameEngineState) => void;
+}
+
+type Listener = (state: GameEngineState) => void;
+
+// 高精度な計測のためperformance.nowを優先（値は単調増加する相対時刻）
+export const systemClock: EngineClock = {
+  now: () => (typeof performance !== "undefined" ? performance.now() : Date.now()),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+// 出題順のセル番号を生成（乱数関数を差し替え可能）
+export const generateSequence = (gridSize: number, numActiveCells: number, random: () => number = Math.random): number[] => {
+  const positions = [];
+  for (let i = 0; i < gridSize * gridSize; i++) {
+    positions.push(i);
+  }
+
+  const sequence: number[] = [];
+  const count = Math.min(numActiveCells, positions.length);
+  for (let i = 0; i < count; i++) {
+    const randomIndex = Math.floor(random() * positions.length);
+    sequence.push(positions.splice(randomIndex, 1)[0]);
+  }
+
+  return sequence;
+};
+
+// セル番号の列をグリッドに変換
+export const sequenceToGrid = (gridSize: number, sequence: number[]): boolean[] => {
+  const grid = Array(gridSize * gridSize).fill(false);
+  sequence.forEach((position) => {
+    grid[position] = true;
+  });
+  return grid;
+};
+
+// パターン生成（乱数関数を差し替え可能）
+export const generatePattern = (gridSize: number, numActiveCells: number, random: () => number = Math.random): boolean[] => {
+  return sequenceToGrid(gridSize, generateSequence(gridSize, numActiveCells, random));
+};
+
+export const isSequenceMode = (recallMode: RecallMode): boolean => {
+  return recallMode !== "pattern";
+};
+
+// 解答すべき順序（逆順モードでは出題順を反転）
+export const getExpectedSequence = (sequence: number[], recallMode: RecallMode): number[] => {
+  return recallMode === "reverse" ? [...sequence].reverse() : [...sequence];
+};
+
+// 正解判定
+export const isPatternMatch = (solution: boolean[], userGrid: boolean[]): boolean => {
+  return solution.every((cell, index) => cell === !!userGrid[index]);
+};
+
+export const isSequenceMatch = (expected: number[], userSequence: number[]): boolean => {
+  return expected.length === userSequence.length && expected.every((cell, index) => cell === userSequence[index]);
+};
+
+// パターンモードの部分点
+export const scorePattern = (solution: boolean[], userGrid: boolean[]): TrialScore => {
+  const score: TrialScore = { hits: 0, misses: 0, falseAlarms: 0, correctRejections: 0 };
+  solution.forEach((cell, index) => {
+    const selected = !!userGrid[index];
+    if (cell && selected) score.hits++;
+    else if (cell) score.misses++;
+    else if (selected) score.falseAlarms++;
+    else score.correctRejections++;
+  });
+  return score;
+};
+
+// 順序モードの部分点（正しい順番で選択したセルのみをヒットとする）
+export const scoreSequence = (expected: number[], userSequence: number[], totalCells: number): TrialScore => {
+  const hits = expected.filter((cell, index) => userSequence[index] === cell).length;
+  const misses = expected.length - hits;
+  const falseAlarms = userSequence.length - hits;
+  return {
+    hits,
+    misses,
+    falseAlarms,
+    correctRejections: Math.max(0, totalCells - hits - misses - falseAlarms),
+  };
+};
+
+// 出題中（採点前）のフェーズか
+export const isTrialInProgress = (phase: GamePhase): boolean => {
+  return phase === "memorize" || phase === "retention" || phase === "recall";
+};
+
+// 記憶フェーズの長さ（順序モードではセルを1つずつshowTimeずつ点灯する）
+export const getMemorizeTime = (settings: EngineSettings, sequenceLength: number): number => {
+  return isSequenceMode(settings.recallMode) ? settings.showTime * sequenceLength : settings.showTime;
+};
+
+export class GameEngine {
+  private state: GameEngineState;
+  private readonly clock: EngineClock;
+  private readonly random: () => number;
+  private readonly onGraded?: (result: TrialResult, state: GameEngineState) => void;
+  private readonly listeners = new Set<Listener>();
+  private timers: TimerHandle[] = [];
+
+  constructor(settings: EngineSettings, options: GameEngineOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.random = options.random || Math.random;
+    this.onGraded = options.onGraded;
+    this.state = createIdleState(settings);
+  }
+
+  getState(): GameEngineState {
+    return this.state;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 設定を変更してidleに戻す
+  configure(settings: EngineSettings): void {
+    this.clearTimers();
+    this.setState(createIdleState(settings));
+  }
+
+  // 次の問題から適用する設定を更新（進行中の問題は中断しない）
+  // グリッドの構成が変わる場合は進行中の問題と両立しないためidleに戻す
+  updateSettings(settings: EngineSettings): void {
+    const current = this.state.settings;
+    if (
+      this.state.phase !== "idle" &&
+      (settings.gridSize !== current.gridSize ||
+        settings.answerTime !== current.answerTime ||
+        settings.recallMode !== current.recallMode ||
+        settings.retentionDelay !== current.retentionDelay)
+    ) {
+      this.configure(settings);
+      return;
+    }
+    this.setState({ ...this.state, settings: { ...settings } });
+  }
+
+  // 新しい問題を開始（シードを指定すると同じ問題を再現できる）
+  start(seed: number = generateSeed(this.random)): void {
+    const { gridSize, numActiveCells } = this.state.settings;
+    this.beginTrial(generateSequence(gridSize, numActiveCells, createSeededRandom(seed)), seed, false);
+  }
+
+  // 直前の問題を再挑戦（統計対象外）
+  retry(): void {
+    if (this.state.phase !== "graded") return;
+    this.beginTrial([...this.state.sequence], this.state.seed, true);
+  }
+
+  toggleCell(index: number): void {
+    if (this.state.phase !== "recall") return;
+    if (index < 0 || index >= this.state.userGrid.length) return;
+
+    const userGrid = [...this.state.userGrid];
+    let userSequence = this.state.userSequence;
+
+    if (isSequenceMode(this.state.settings.recallMode)) {
+      // 順序モード: 未選択のセルは末尾に追加、最後に選択したセルのみ取り消し可能
+      const lastIndex = userSequence[userSequence.length - 1];
+      if (lastIndex === index) {
+        userSequence = userSequence.slice(0, -1);
+        userGrid[index] = false;
+      } else if (!userGrid[index]) {
+        userSequence = [...userSequence, index];
+        userGrid[index] = true;
+      } else {
+        return;
+      }
+    } else {
+      userGrid[index] = !userGrid[index];
+    }
+
+    const taps = [...this.state.taps, { cell: index, time: this.clock.now() - (this.state.recallStartedAt ?? this.clock.now()) }];
+    this.setState({ ...this.state, userGrid, userSequence, taps });
+  }
+
+  // 解答を確定して採点（解答フェーズ以外ではnull）
+  submit(): TrialResult | null {
+    if (this.state.phase !== "recall") return null;
+    return this.grade(false);
+  }
+
+  // idleに戻す
+  reset(): void {
+    this.configure(this.state.settings);
+  }
+
+  dispose(): void {
+    this.clearTimers();
+    this.listeners.clear();
+  }
+
+  private beginTrial(sequence: number[], seed: number | null, isRetry: boolean): void {
+    this.clearTimers();
+
+    const { gridSize, showTime, answerTime, recallMode, retentionDelay } = this.state.settings;
+    const sequential = isSequenceMode(recallMode);
+    this.setState({
+      ...this.state,
+      phase: "memorize",
+      solution: sequenceToGrid(gridSize, sequence),
+      sequence,
+      userGrid: Array(gridSize * gridSize).fill(false),
+      userSequence: [],
+      taps: [],
+      highlightStep: sequential ? 0 : -1,
+      isRetry,
+      seed,
+      startedAt: this.clock.now(),
+      recallStartedAt: null,
+      gradedAt: null,
+      result: null,
+    });
+
+    const memorizeTime = getMemorizeTime(this.state.settings, sequence.length);
+    if (sequential) {
+      for (let step = 1; step < sequence.length; step++) {
+        this.timers.push(
+          this.clock.setTimeout(() => {
+            if (this.state.phase === "memorize") {
+              this.setState({ ...this.state, highlightStep: step });
+            }
+          }, showTime * step),
+        );
+      }
+    }
+
+    // 保持時間がある場合は表示を消してから解答フェーズに移る
+    if (retentionDelay > 0) {
+      this.timers.push(
+        this.clock.setTimeout(() => {
+          if (this.state.phase === "memorize") {
+            this.setState({ ...this.state, phase: "retention", highlightStep: -1 });
+          }
+        }, memorizeTime),
+      );
+    }
+
+    const recallTime = memorizeTime + retentionDelay;
+    this.timers.push(
+      this.clock.setTimeout(() => {
+        if (this.state.phase === "memorize" || this.state.phase === "retention") {
+          this.setState({ ...this.state, phase: "recall", highlightStep: -1, recallStartedAt: this.clock.now() });
+        }
+      }, recallTime),
+    );
+
+    // 解答時間が0（無期限）の場合はタイマーを設定しない
+    if (answerTime > 0) {
+      this.timers.push(
+        this.clock.setTimeout(() => {
+          if (isTrialInProgress(this.state.phase)) {
+            this.grade(true);
+          }
+        }, recallTime + answerTime),
+      );
+    }
+  }
+
+  private grade(timedOut: boolean): TrialResult {
+    this.clearTimers();
+
+    const { solution, sequence, userGrid, userSequence, settings } = this.state;
+    let isCorrect: boolean;
+    let score: TrialScore;
+    if (isSequenceMode(settings.recallMode)) {
+      const expected = getExpectedSequence(sequence, settings.recallMode);
+      isCorrect = isSequenceMatch(expected, userSequence);
+      score = scoreSequence(expected, userSequence, solution.length);
+    } else {
+      isCorrect = isPatternMatch(solution, userGrid);
+      score = scorePattern(solution, userGrid);
+    }
+
+    const result: TrialResult = { isCorrect, timedOut, score };
+    this.setState({ ...this.state, phase: "graded", highlightStep: -1, gradedAt: this.clock.now(), result });
+    this.onGraded?.(result, this.state);
+
+    return result;
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach((timer) => this.clock.clearTimeout(timer));
+    this.timers = [];
+  }
+
+  private setState(state: GameEngineState): void {
+    this.state = state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+const createIdleState = (settings: EngineSettings): GameEngineState => ({
+  phase: "idle",
+  settings: { ...settings },
+  solution: [],
+  sequence: [],
+  userGrid: [],
+  userSequence: [],
+  taps: [],
+  highlightStep: -1,
+  isRetry: false,
+  seed: null,
+  startedAt: null,
+  recallStartedAt: null,
+  gradedAt: null,
+  result: null,
+});
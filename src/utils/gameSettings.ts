@@ -1,15 +1,42 @@
+import {
+  DatabaseUpgrade,
+  SETTINGS_MIGRATIONS,
+  SETTINGS_SCHEMA_VERSION,
+  getLatestDatabaseVersion,
+  migrateObjectStore,
+  migrateRecord,
+  parseSchemaVersion,
+  runDatabaseUpgrades,
+} from "./migrations";
+
+// 解答方法: pattern=位置のみ、sequence=点灯順、reverse=点灯の逆順
+export type RecallMode = "pattern" | "sequence" | "reverse";
+
+export const RECALL_MODES: RecallMode[] = ["pattern", "sequence", "reverse"];
+
+// 保持時間中の表示: none=空のグリッド、checker=市松模様のマスク、noise=ランダムなノイズ
+export type RetentionMask = "none" | "checker" | "noise";
+
+export const RETENTION_MASKS: RetentionMask[] = ["none", "checker", "noise"];
+
 export interface GameSettings {
   gridSize: number;
   showTime: number;
   answerTime: number;
   numActiveCells: number;
   targetConsecutive: number;
+  recallMode: RecallMode;
+  adaptive: boolean; // 適応難易度（セル数と表示時間を自動調整）
+  staircaseUp: number; // 難易度を上げるまでの連続正解数
+  staircaseDown: number; // 難易度を下げるまでの連続不正解数
+  retentionDelay: number; // 表示終了から解答開始までの保持時間（ms、0は即時）
+  retentionMask: RetentionMask;
 }
 
 export interface GameSettingsData {
   settings: GameSettings;
   lastUpdated: string;
-  version: string;
+  version: number | string; // 設定の形式のバージョン（旧形式は"1.0.0"）
 }
 
 // デフォルト設定
@@ -19,6 +46,12 @@ export const DEFAULT_SETTINGS: GameSettings = {
   answerTime: 0,
   numActiveCells: 5,
   targetConsecutive: 20,
+  recallMode: "pattern",
+  adaptive: false,
+  staircaseUp: 2,
+  staircaseDown: 1,
+  retentionDelay: 0,
+  retentionMask: "none",
 };
 
 // 設定の検証
@@ -29,18 +62,48 @@ export const validateSettings = (settings: Partial<GameSettings>): GameSettings
     answerTime: Math.max(0, Math.min(30000, settings.answerTime || DEFAULT_SETTINGS.answerTime)),
     numActiveCells: Math.max(1, Math.min(64, settings.numActiveCells || DEFAULT_SETTINGS.numActiveCells)),
     targetConsecutive: Math.max(1, Math.min(100, settings.targetConsecutive || DEFAULT_SETTINGS.targetConsecutive)),
+    recallMode: settings.recallMode && RECALL_MODES.includes(settings.recallMode) ? settings.recallMode : DEFAULT_SETTINGS.recallMode,
+    adaptive: typeof settings.adaptive === "boolean" ? settings.adaptive : DEFAULT_SETTINGS.adaptive,
+    staircaseUp: Math.max(1, Math.min(5, settings.staircaseUp || DEFAULT_SETTINGS.staircaseUp)),
+    staircaseDown: Math.max(1, Math.min(5, settings.staircaseDown || DEFAULT_SETTINGS.staircaseDown)),
+    retentionDelay: Math.max(0, Math.min(30000, settings.retentionDelay || DEFAULT_SETTINGS.retentionDelay)),
+    retentionMask:
+      settings.retentionMask && RETENTION_MASKS.includes(settings.retentionMask) ? settings.retentionMask : DEFAULT_SETTINGS.retentionMask,
   };
 };
 
+// 設定のインポートの検証エラー（errorsに問題のある箇所ごとのメッセージを保持）
+export class SettingsImportError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid settings data:\n${errors.join("\n")}`);
+    this.name = "SettingsImportError";
+  }
+}
+
+// インポートする設定のJSONを読み込んで検証（範囲外の値はvalidateSettingsで補正する）
+export const parseSettingsImport = (jsonData: string): GameSettings => {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonData);
+  } catch (error) {
+    throw new SettingsImportError([`not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new SettingsImportError(["expected an object"]);
+  }
+  return validateSettings(data as Partial<GameSettings>);
+};
+
 // ローカルストレージから設定を読み込み
-export const loadSettingsFromStorage = (): GameSettings => {
+export const loadSettingsFromStorage = (storageKey: string = "gameSettings"): GameSettings => {
   if (typeof window === "undefined") return DEFAULT_SETTINGS;
 
   try {
-    const stored = localStorage.getItem("gameSettings");
+    const stored = localStorage.getItem(storageKey);
     if (stored) {
       const data: GameSettingsData = JSON.parse(stored);
-      return validateSettings(data.settings);
+      return validateSettings(migrateRecord<GameSettings>(data.settings, parseSchemaVersion(data.version), SETTINGS_MIGRATIONS));
     }
   } catch (error) {
     console.error("Failed to load game settings:", error);
@@ -50,27 +113,47 @@ export const loadSettingsFromStorage = (): GameSettings => {
 };
 
 // ローカルストレージに設定を保存
-export const saveSettingsToStorage = (settings: GameSettings): void => {
+export const saveSettingsToStorage = (settings: GameSettings, storageKey: string = "gameSettings"): void => {
   if (typeof window === "undefined") return;
 
   try {
     const data: GameSettingsData = {
       settings,
       lastUpdated: new Date().toISOString(),
-      version: "1.0.0",
+      version: SETTINGS_SCHEMA_VERSION,
     };
-    localStorage.setItem("gameSettings", JSON.stringify(data));
+    localStorage.setItem(storageKey, JSON.stringify(data));
   } catch (error) {
     console.error("Failed to save game settings:", error);
   }
 };
 
+// IndexedDBの構造の変更履歴（設定の形式を変更した場合は、データを更新するバージョンも追加する）
+const SETTINGS_DATABASE_UPGRADES: DatabaseUpgrade[] = [
+  {
+    version: 1,
+    description: "Create settings store",
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains("settings")) {
+        const store = db.createObjectStore("settings", { keyPath: "id" });
+        store.createIndex("lastUpdated", "lastUpdated", { unique: false });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Migrate settings to schema v3",
+    upgrade: (_db, transaction) => migrateObjectStore(transaction, "settings", "settings", "version", SETTINGS_MIGRATIONS),
+  },
+];
+
 // PWA用の設定管理クラス
 export class PWASettingsManager {
   private db: IDBDatabase | null = null;
-  private readonly dbName = "GameSettingsDB";
   private readonly storeName = "settings";
-  private readonly version = 1;
+  private readonly version = getLatestDatabaseVersion(SETTINGS_DATABASE_UPGRADES);
+
+  constructor(private readonly dbName: string = "GameSettingsDB") {}
 
   async init(): Promise<void> {
     if (this.db) return;
@@ -88,17 +171,18 @@ export class PWASettingsManager {
         resolve();
       };
 
+      // 旧バージョンから順番に構造とデータを更新
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          const store = db.createObjectStore(this.storeName, { keyPath: "id" });
-          store.createIndex("lastUpdated", "lastUpdated", { unique: false });
-        }
+        runDatabaseUpgrades(request.result, request.transaction!, event.oldVersion, SETTINGS_DATABASE_UPGRADES);
       };
     });
   }
 
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
   async saveSettings(settings: GameSettings): Promise<void> {
     if (!this.db) {
       throw new Error("Settings database not initialized");
@@ -112,7 +196,7 @@ export class PWASettingsManager {
         id: "current",
         settings,
         lastUpdated: new Date().toISOString(),
-        version: "1.0.0",
+        version: SETTINGS_SCHEMA_VERSION,
       };
 
       const request = store.put(data);
@@ -164,126 +248,6 @@ export class PWASettingsManager {
       throw new Error("Settings database not initialized");
     }
 
-    const settings: GameSettings = JSON.parse(jsonData);
-    await this.saveSettings(validateSettings(settings));
+    await this.saveSettings(parseSettingsImport(jsonData));
   }
 }
-
-// 統合設定管理クラス
-export class UnifiedSettingsManager {
-  private pwaManager: PWASettingsManager | null = null;
-  private initialized = false;
-
-  async init(): Promise<void> {
-    if (this.initialized) return;
-
-    // PWA環境かチェック
-    const isPWA = window.matchMedia("(display-mode: standalone)").matches;
-    const hasServiceWorker = "serviceWorker" in navigator;
-    const hasIndexedDB = "indexedDB" in window;
-
-    if (isPWA && hasServiceWorker && hasIndexedDB) {
-      this.pwaManager = new PWASettingsManager();
-      await this.pwaManager.init();
-    }
-
-    this.initialized = true;
-  }
-
-  async saveSettings(settings: GameSettings): Promise<void> {
-    await this.init();
-
-    if (this.pwaManager) {
-      // PWA: IndexedDB
-      await this.pwaManager.saveSettings(settings);
-    } else {
-      // Web: ローカルストレージ
-      saveSettingsToStorage(settings);
-    }
-  }
-
-  async loadSettings(): Promise<GameSettings> {
-    await this.init();
-
-    if (this.pwaManager) {
-      // PWA: IndexedDB
-      return await this.pwaManager.loadSettings();
-    } else {
-      // Web: ローカルストレージ
-      return loadSettingsFromStorage();
-    }
-  }
-
-  async exportSettings(): Promise<string> {
-    await this.init();
-
-    if (this.pwaManager) {
-      // PWA: IndexedDB
-      return await this.pwaManager.exportSettings();
-    } else {
-      // Web: ローカルストレージ
-      const settings = loadSettingsFromStorage();
-      return JSON.stringify(settings, null, 2);
-    }
-  }
-
-  async importSettings(jsonData: string): Promise<void> {
-    await this.init();
-
-    if (this.pwaManager) {
-      // PWA: IndexedDB
-      await this.pwaManager.importSettings(jsonData);
-    } else {
-      // Web: ローカルストレージ
-      const settings: GameSettings = JSON.parse(jsonData);
-      saveSettingsToStorage(validateSettings(settings));
-    }
-  }
-
-  // 環境情報を取得
-  getEnvironmentInfo() {
-    const isPWA = window.matchMedia("(display-mode: standalone)").matches;
-    const hasServiceWorker = "serviceWorker" in navigator;
-    const hasIndexedDB = "indexedDB" in window;
-
-    return {
-      isPWA: isPWA && hasServiceWorker && hasIndexedDB,
-      isWeb: !(isPWA && hasServiceWorker && hasIndexedDB),
-      hasIndexedDB,
-      hasLocalStorage: "localStorage" in window,
-      storageType: isPWA && hasServiceWorker && hasIndexedDB ? "indexeddb" : "localStorage",
-      initialized: this.initialized,
-    };
-  }
-}
-
-// シングルトンインスタンス
-let unifiedSettingsManager: UnifiedSettingsManager | null = null;
-
-export const getUnifiedSettingsManager = (): UnifiedSettingsManager => {
-  if (!unifiedSettingsManager) {
-    unifiedSettingsManager = new UnifiedSettingsManager();
-  }
-  return unifiedSettingsManager;
-};
-
-// 便利な関数
-export const saveSettings = async (settings: GameSettings): Promise<void> => {
-  const manager = getUnifiedSettingsManager();
-  await manager.saveSettings(settings);
-};
-
-export const loadSettings = async (): Promise<GameSettings> => {
-  const manager = getUnifiedSettingsManager();
-  return await manager.loadSettings();
-};
-
-export const exportSettings = async (): Promise<string> => {
-  const manager = getUnifiedSettingsManager();
-  return await manager.exportSettings();
-};
-
-export const importSettings = async (jsonData: string): Promise<void> => {
-  const manager = getUnifiedSettingsManager();
-  await manager.importSettings(jsonData);
-};
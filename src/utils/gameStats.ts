@@ -1,9 +1,26 @@
+import { RecallMode, RetentionMask } from "./gameSettings";
+import { GameEngineState, TapEvent, TrialScore, isSequenceMode } from "./gameEngine";
+import { recordStorageError } from "./storageHealth";
+
+export type { TrialScore };
+
 export interface GameStats {
   totalChallenges: number;
   recentAnswers: boolean[]; // 直近100問の正誤記録
   maxConsecutiveCorrect: number;
   currentConsecutiveCorrect: number;
   bestAccuracy: number; // 100問の正答率の最高記録
+  recentScores?: TrialScore[]; // 直近100問のヒット・ミス・誤答の内訳（旧データには存在しない）
+  timeouts?: number; // 時間切れで採点された問題数（旧データには存在しない）
+  lastPlayedAt?: number; // 最後に解答した時刻（旧データには存在しない）
+}
+
+// 部分点から算出する指標
+export interface ScoreMetrics {
+  precision: number; // 選択したセルのうち正解の割合（%）
+  recall: number; // 正解セルのうち選択できた割合（%）
+  dPrime: number; // 弁別力 d′
+  trials: number;
 }
 
 export interface GameSettings {
@@ -11,12 +28,40 @@ export interface GameSettings {
   showTime: number;
   answerTime: number;
   numActiveCells: number;
+  recallMode?: RecallMode;
+  retentionDelay?: number;
+  retentionMask?: RetentionMask;
 }
 
 export interface GameStatsMap {
   [key: string]: GameStats;
 }
 
+// 1問ごとの解答記録
+export interface TrialRecord {
+  id: string;
+  timestamp: number;
+  date: string; // ローカル日付（YYYY-MM-DD）
+  settingsKey: string;
+  settings: GameSettings;
+  seed: number | null;
+  solution: number[]; // 出題したセル番号（出題順）
+  response: number[]; // 選択したセル番号（順序モードではタップ順）
+  isCorrect: boolean;
+  timedOut: boolean;
+  score: TrialScore;
+  responseTime: number | null; // 解答開始から確定までの時間（ms）
+  taps?: TapEvent[]; // タップごとの時刻（旧データには存在しない）
+  isRetry: boolean;
+}
+
+// 解答記録の検索条件
+export interface TrialHistoryQuery {
+  settingsKey?: string;
+  since?: number;
+  until?: number;
+}
+
 export const MAX_RECENT_ANSWERS = 100;
 
 export const initializeStats = (): GameStats => ({
@@ -25,14 +70,62 @@ export const initializeStats = (): GameStats => ({
   maxConsecutiveCorrect: 0,
   currentConsecutiveCorrect: 0,
   bestAccuracy: 0,
+  recentScores: [],
+  timeouts: 0,
 });
 
+// 順序モードのキーに付与する接尾辞（patternモードは従来のキーのまま）
+const RECALL_MODE_KEY_SUFFIX: Record<RecallMode, string> = {
+  pattern: "",
+  sequence: "-seq",
+  reverse: "-rev",
+};
+
+const RETENTION_MASK_KEY_SUFFIX: Record<RetentionMask, string> = {
+  none: "",
+  checker: "c",
+  noise: "n",
+};
+
+// 保持時間ありのキーに付与する接尾辞（即時解答は従来のキーのまま）
+export const getRetentionKeySuffix = (retentionDelay: number = 0, retentionMask: RetentionMask = "none"): string => {
+  if (retentionDelay <= 0) return "";
+  return `-d${retentionDelay}${RETENTION_MASK_KEY_SUFFIX[retentionMask]}`;
+};
+
 // 設定の組み合わせからキーを生成
 export const generateSettingsKey = (settings: GameSettings): string => {
-  return `${settings.gridSize}-${settings.showTime}-${settings.answerTime}-${settings.numActiveCells}`;
+  const suffix = RECALL_MODE_KEY_SUFFIX[settings.recallMode || "pattern"];
+  const retentionSuffix = getRetentionKeySuffix(settings.retentionDelay, settings.retentionMask);
+  return `${settings.gridSize}-${settings.showTime}-${settings.answerTime}-${settings.numActiveCells}${suffix}${retentionSuffix}`;
 };
 
-export const updateStats = (stats: GameStats, isCorrect: boolean): GameStats => {
+// キーから設定の組み合わせを復元（設定から生成したキーでない場合はnull）
+export const parseSettingsKey = (settingsKey: string): GameSettings | null => {
+  const match = settingsKey.match(/^(\d+)-(\d+)-(\d+)-(\d+)(-seq|-rev)?(?:-d(\d+)([cn]?))?$/);
+  if (!match) return null;
+
+  const findKey = <T extends string>(suffixes: Record<T, string>, suffix: string): T =>
+    (Object.keys(suffixes) as T[]).find((key) => suffixes[key] === suffix)!;
+
+  return {
+    gridSize: Number(match[1]),
+    showTime: Number(match[2]),
+    answerTime: Number(match[3]),
+    numActiveCells: Number(match[4]),
+    recallMode: findKey(RECALL_MODE_KEY_SUFFIX, match[5] || ""),
+    retentionDelay: match[6] ? Number(match[6]) : 0,
+    retentionMask: findKey(RETENTION_MASK_KEY_SUFFIX, match[7] || ""),
+  };
+};
+
+export const updateStats = (
+  stats: GameStats,
+  isCorrect: boolean,
+  score?: TrialScore,
+  timedOut: boolean = false,
+  playedAt: number = Date.now(),
+): GameStats => {
   const newRecentAnswers = [...stats.recentAnswers, isCorrect];
 
   // 直近100問のみ保持
@@ -40,6 +133,14 @@ export const updateStats = (stats: GameStats, isCorrect: boolean): GameStats =>
     newRecentAnswers.shift();
   }
 
+  const newRecentScores = [...(stats.recentScores || [])];
+  if (score) {
+    newRecentScores.push(score);
+    if (newRecentScores.length > MAX_RECENT_ANSWERS) {
+      newRecentScores.shift();
+    }
+  }
+
   const newCurrentConsecutiveCorrect = isCorrect ? stats.currentConsecutiveCorrect + 1 : 0;
 
   const newMaxConsecutiveCorrect = Math.max(stats.maxConsecutiveCorrect, newCurrentConsecutiveCorrect);
@@ -54,6 +155,9 @@ export const updateStats = (stats: GameStats, isCorrect: boolean): GameStats =>
     maxConsecutiveCorrect: newMaxConsecutiveCorrect,
     currentConsecutiveCorrect: newCurrentConsecutiveCorrect,
     bestAccuracy: newBestAccuracy,
+    recentScores: newRecentScores,
+    timeouts: (stats.timeouts || 0) + (timedOut ? 1 : 0),
+    lastPlayedAt: playedAt,
   };
 };
 
@@ -64,37 +168,282 @@ export const calculateAccuracy = (stats: GameStats): number => {
   return Math.round((correctCount / stats.recentAnswers.length) * 100);
 };
 
-export const getStatsFromStorage = (): GameStatsMap => {
+// 標準正規分布の逆累積分布関数（Acklamの近似）
+const inverseNormalCdf = (p: number): number => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+};
+
+// 直近の部分点から適合率・再現率・d′を算出（記録がない場合はnull）
+export const calculateScoreMetrics = (stats: GameStats): ScoreMetrics | null => {
+  const scores = stats.recentScores || [];
+  if (scores.length === 0) return null;
+
+  const totals = scores.reduce(
+    (sum, score) => ({
+      hits: sum.hits + score.hits,
+      misses: sum.misses + score.misses,
+      falseAlarms: sum.falseAlarms + score.falseAlarms,
+      correctRejections: sum.correctRejections + score.correctRejections,
+    }),
+    { hits: 0, misses: 0, falseAlarms: 0, correctRejections: 0 },
+  );
+
+  const selected = totals.hits + totals.falseAlarms;
+  const targets = totals.hits + totals.misses;
+
+  // 0%や100%で無限大にならないよう対数線形補正を適用
+  const hitRate = (totals.hits + 0.5) / (targets + 1);
+  const falseAlarmRate = (totals.falseAlarms + 0.5) / (totals.falseAlarms + totals.correctRejections + 1);
+
+  return {
+    precision: selected === 0 ? 0 : Math.round((totals.hits / selected) * 100),
+    recall: targets === 0 ? 0 : Math.round((totals.hits / targets) * 100),
+    dPrime: Math.round((inverseNormalCdf(hitRate) - inverseNormalCdf(falseAlarmRate)) * 100) / 100,
+    trials: scores.length,
+  };
+};
+
+export const getStatsFromStorage = (storageKey: string = "gameStatsMap"): GameStatsMap => {
   if (typeof window === "undefined") return {};
 
   try {
-    const stored = localStorage.getItem("gameStatsMap");
+    const stored = localStorage.getItem(storageKey);
     if (stored) {
-      const statsMap = JSON.parse(stored);
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load game stats:", error);
+  }
+
+  return {};
+};
+
+// 保存できなかった場合はfalse
+export const saveStatsToStorage = (statsMap: GameStatsMap, storageKey: string = "gameStatsMap"): boolean => {
+  if (typeof window === "undefined") return false;
+
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(statsMap));
+    return true;
+  } catch (error) {
+    console.error("Failed to save game stats:", error);
+    recordStorageError("Save stats", error);
+    return false;
+  }
+};
+
+// ローカル日付をYYYY-MM-DD形式に変換
+export const toDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+// 採点済みのエンジン状態から解答記録を作成
+export const createTrialRecord = (settingsKey: string, settings: GameSettings, state: GameEngineState): TrialRecord | null => {
+  if (state.phase !== "graded" || !state.result) return null;
+
+  const timestamp = Date.now();
+  const response = isSequenceMode(state.settings.recallMode)
+    ? [...state.userSequence]
+    : state.userGrid.reduce<number[]>((cells, selected, index) => (selected ? [...cells, index] : cells), []);
 
-      // 古いデータ形式を新しい形式に移行
-      Object.keys(statsMap).forEach((key) => {
-        if (!statsMap[key].hasOwnProperty("bestAccuracy")) {
-          statsMap[key].bestAccuracy = 0;
-        }
-      });
+  return {
+    id: `${timestamp}-${Math.random().toString(36).slice(2, 10)}`,
+    timestamp,
+    date: toDateKey(timestamp),
+    settingsKey,
+    settings: { ...settings },
+    seed: state.seed,
+    solution: [...state.sequence],
+    response,
+    isCorrect: state.result.isCorrect,
+    timedOut: state.result.timedOut,
+    score: state.result.score,
+    responseTime: state.recallStartedAt !== null && state.gradedAt !== null ? Math.round(state.gradedAt - state.recallStartedAt) : null,
+    taps: state.taps.map((tap) => ({ cell: tap.cell, time: Math.round(tap.time) })),
+    isRetry: state.isRetry,
+  };
+};
+
+// 検索条件に一致する解答記録を抽出（古い順）
+export const filterTrialHistory = (records: TrialRecord[], query: TrialHistoryQuery = {}): TrialRecord[] => {
+  return records
+    .filter((record) => {
+      if (query.settingsKey !== undefined && record.settingsKey !== query.settingsKey) return false;
+      if (query.since !== undefined && record.timestamp < query.since) return false;
+      if (query.until !== undefined && record.timestamp > query.until) return false;
+      return true;
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// 解答記録から統計情報を再計算（Retryは集計対象外）
+export const calculateStatsFromTrials = (records: TrialRecord[]): GameStats => {
+  return filterTrialHistory(records)
+    .filter((record) => !record.isRetry)
+    .reduce((stats, record) => updateStats(stats, record.isCorrect, record.score, record.timedOut, record.timestamp), initializeStats());
+};
 
-      return statsMap;
+// 解答記録は日ごと（ローカル日付）に分けて保存する（1問ごとにすべての記録を書き直さないように）
+// `${storageKey}/days`に記録のある日ごとの記録数、`${storageKey}/YYYY-MM-DD`にその日の記録を保存する。
+const getTrialDaysKey = (storageKey: string): string => `${storageKey}/days`;
+const getTrialDayKey = (storageKey: string, date: string): string => `${storageKey}/${date}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 記録のある日ごとの記録数（記録を読み込まずに数えられるように）
+export const getTrialDayCountsFromStorage = (storageKey: string = "gameTrialHistory"): Record<string, number> => {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(getTrialDaysKey(storageKey));
+    if (stored) {
+      return JSON.parse(stored);
     }
   } catch (error) {
-    console.error("Failed to load game stats:", error);
+    console.error("Failed to load trial days:", error);
   }
 
   return {};
 };
 
-export const saveStatsToStorage = (statsMap: GameStatsMap): void => {
+// 記録のある日の一覧（古い順）
+export const getTrialDaysFromStorage = (storageKey: string = "gameTrialHistory"): string[] => {
+  return Object.keys(getTrialDayCountsFromStorage(storageKey)).sort();
+};
+
+// 解答記録の数（beforeを指定した場合はその時刻より前の記録のみ）
+// その時刻の前後1日の記録のみ読み込んで数え、それ以外の日は保存している記録数を使う。
+export const countTrialsInStorage = (storageKey: string = "gameTrialHistory", before?: number): number => {
+  const counts = getTrialDayCountsFromStorage(storageKey);
+  if (before === undefined) return Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  const first = toDateKey(before - DAY_MS);
+  const last = toDateKey(before + DAY_MS);
+  return Object.entries(counts).reduce((sum, [date, count]) => {
+    if (date < first) return sum + count;
+    if (date > last) return sum;
+    return sum + getTrialDayFromStorage(date, storageKey).filter((record) => record.timestamp < before).length;
+  }, 0);
+};
+
+const getTrialDayFromStorage = (date: string, storageKey: string): TrialRecord[] => {
+  try {
+    const stored = localStorage.getItem(getTrialDayKey(storageKey, date));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load trial history:", error);
+  }
+
+  return [];
+};
+
+// 期間を指定した場合はその期間の日の記録のみを読み込む（タイムゾーンが変わった場合に備えて前後1日も含める）
+export const getTrialHistoryFromStorage = (
+  storageKey: string = "gameTrialHistory",
+  query: Pick<TrialHistoryQuery, "since" | "until"> = {},
+): TrialRecord[] => {
+  const first = query.since !== undefined ? toDateKey(query.since - DAY_MS) : null;
+  const last = query.until !== undefined ? toDateKey(query.until + DAY_MS) : null;
+
+  return getTrialDaysFromStorage(storageKey)
+    .filter((date) => (first === null || date >= first) && (last === null || date <= last))
+    .flatMap((date) => getTrialDayFromStorage(date, storageKey));
+};
+
+// 1日分の記録を更新（変更がない日は書き直さず、記録がなくなった日は一覧からも削除）。保存できなかった場合はfalse
+export const updateTrialDayInStorage = (
+  date: string,
+  update: (records: TrialRecord[]) => TrialRecord[],
+  storageKey: string = "gameTrialHistory",
+): boolean => {
+  if (typeof window === "undefined") return false;
+
+  try {
+    const current = getTrialDayFromStorage(date, storageKey);
+    const records = update(current);
+    if (records.length === current.length && records.every((record, index) => record === current[index])) return true;
+
+    const counts = getTrialDayCountsFromStorage(storageKey);
+
+    if (records.length > 0) {
+      localStorage.setItem(getTrialDayKey(storageKey, date), JSON.stringify(records));
+      counts[date] = records.length;
+    } else {
+      localStorage.removeItem(getTrialDayKey(storageKey, date));
+      delete counts[date];
+    }
+    localStorage.setItem(getTrialDaysKey(storageKey), JSON.stringify(counts));
+    return true;
+  } catch (error) {
+    console.error("Failed to save trial history:", error);
+    recordStorageError("Save trial history", error);
+    return false;
+  }
+};
+
+// 解答記録を日ごとに追加（同じIDの記録は置き換える）
+export const addTrialsToStorage = (records: TrialRecord[], storageKey: string = "gameTrialHistory"): boolean => {
+  const byDate = new Map<string, TrialRecord[]>();
+  records.forEach((record) => byDate.set(record.date, [...(byDate.get(record.date) || []), record]));
+
+  return [...byDate.entries()].every(([date, added]) => {
+    const ids = new Set(added.map((record) => record.id));
+    return updateTrialDayInStorage(date, (existing) => [...existing.filter((record) => !ids.has(record.id)), ...added], storageKey);
+  });
+};
+
+export const appendTrialToStorage = (record: TrialRecord, storageKey: string = "gameTrialHistory"): boolean => {
+  return addTrialsToStorage([record], storageKey);
+};
+
+export const clearTrialHistoryInStorage = (storageKey: string = "gameTrialHistory"): void => {
+  if (typeof window === "undefined") return;
+
+  getTrialDaysFromStorage(storageKey).forEach((date) => localStorage.removeItem(getTrialDayKey(storageKey, date)));
+  localStorage.removeItem(getTrialDaysKey(storageKey));
+  localStorage.removeItem(storageKey);
+};
+
+// 1つの配列に保存していた旧形式の解答記録を日ごとの保存に移行
+// 容量に余裕がない場合も移行できるよう先に旧形式の記録を削除し、保存できなかった場合は元に戻す。
+export const migrateTrialHistoryInStorage = (storageKey: string = "gameTrialHistory"): void => {
   if (typeof window === "undefined") return;
 
   try {
-    localStorage.setItem("gameStatsMap", JSON.stringify(statsMap));
+    const stored = localStorage.getItem(storageKey);
+    if (!stored) return;
+
+    const records: TrialRecord[] = JSON.parse(stored);
+    localStorage.removeItem(storageKey);
+    if (!addTrialsToStorage(records, storageKey)) {
+      localStorage.setItem(storageKey, stored);
+    }
   } catch (error) {
-    console.error("Failed to save game stats:", error);
+    console.error("Failed to migrate trial history:", error);
   }
 };
 
@@ -105,10 +454,26 @@ export const getStatsForSettings = (statsMap: GameStatsMap, settings: GameSettin
 };
 
 // 特定の設定での統計情報を更新
-export const updateStatsForSettings = (statsMap: GameStatsMap, settings: GameSettings, isCorrect: boolean): GameStatsMap => {
-  const key = generateSettingsKey(settings);
+export const updateStatsForSettings = (
+  statsMap: GameStatsMap,
+  settings: GameSettings,
+  isCorrect: boolean,
+  score?: TrialScore,
+  timedOut: boolean = false,
+): GameStatsMap => {
+  return updateStatsForKey(statsMap, generateSettingsKey(settings), isCorrect, score, timedOut);
+};
+
+// 特定のキーの統計情報を更新（デイリーチャレンジなど設定以外のキー用）
+export const updateStatsForKey = (
+  statsMap: GameStatsMap,
+  key: string,
+  isCorrect: boolean,
+  score?: TrialScore,
+  timedOut: boolean = false,
+): GameStatsMap => {
   const currentStats = statsMap[key] || initializeStats();
-  const updatedStats = updateStats(currentStats, isCorrect);
+  const updatedStats = updateStats(currentStats, isCorrect, score, timedOut);
 
   return {
     ...statsMap,
@@ -0,0 +1,309 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  STATS_MIGRATIONS,
+  SETTINGS_MIGRATIONS,
+  SETTINGS_SCHEMA_VERSION,
+  STATS_SCHEMA_VERSION,
+  clearStoredSchemaVersion,
+  migrateRecord,
+  migrateSettingsInStorage,
+  migrateStatsMapInStorage,
+  parseSchemaVersion,
+} from "./migrations";
+import { PWAStatsDatabase } from "./pwaStats";
+import { PWASettingsManager } from "./gameSettings";
+import { TrialRecord, getTrialDaysFromStorage } from "./gameStats";
+import { LocalStorageStatsStore } from "./statsStore";
+
+// 過去に保存された全ての形式のデータ（フィクスチャ）と、マイグレーション後に期待される値
+// 形式を変更した場合はここに新しいフィクスチャを追加し、全てのテストが通ることを確認すること。
+
+interface StatsFixture {
+  version: number;
+  stats: Record<string, unknown>;
+}
+
+interface SettingsFixture {
+  version: number | string;
+  settings: Record<string, unknown>;
+}
+
+const STATS_FIXTURES: StatsFixture[] = [
+  {
+    version: 1,
+    stats: { totalChallenges: 4, recentAnswers: [true, false, true, true], maxConsecutiveCorrect: 2, currentConsecutiveCorrect: 2 },
+  },
+  {
+    version: 2,
+    stats: { totalChallenges: 4, recentAnswers: [true, false, true, true], maxConsecutiveCorrect: 2, currentConsecutiveCorrect: 2, bestAccuracy: 75 },
+  },
+  {
+    version: 3,
+    stats: {
+      totalChallenges: 4,
+      recentAnswers: [true, false, true, true],
+      maxConsecutiveCorrect: 2,
+      currentConsecutiveCorrect: 2,
+      bestAccuracy: 75,
+      recentScores: [{ hits: 5, misses: 0, falseAlarms: 0, correctRejections: 11 }],
+      timeouts: 1,
+    },
+  },
+];
+
+const EXPECTED_STATS: Record<number, Record<string, unknown>> = {
+  1: {
+    totalChallenges: 4,
+    recentAnswers: [true, false, true, true],
+    maxConsecutiveCorrect: 2,
+    currentConsecutiveCorrect: 2,
+    bestAccuracy: 0,
+    recentScores: [],
+    timeouts: 0,
+  },
+  2: {
+    totalChallenges: 4,
+    recentAnswers: [true, false, true, true],
+    maxConsecutiveCorrect: 2,
+    currentConsecutiveCorrect: 2,
+    bestAccuracy: 75,
+    recentScores: [],
+    timeouts: 0,
+  },
+  3: STATS_FIXTURES[2].stats,
+};
+
+const SETTINGS_FIXTURES: SettingsFixture[] = [
+  {
+    version: "1.0.0",
+    settings: { gridSize: 5, showTime: 700, answerTime: 3000, numActiveCells: 6, targetConsecutive: 10 },
+  },
+  {
+    // recallMode追加後も"1.0.0"のまま保存されていた形式
+    version: "1.0.0",
+    settings: {
+      gridSize: 5,
+      showTime: 700,
+      answerTime: 3000,
+      numActiveCells: 6,
+      targetConsecutive: 10,
+      recallMode: "sequence",
+      adaptive: true,
+      staircaseUp: 3,
+      staircaseDown: 2,
+    },
+  },
+  {
+    version: 3,
+    settings: {
+      gridSize: 5,
+      showTime: 700,
+      answerTime: 3000,
+      numActiveCells: 6,
+      targetConsecutive: 10,
+      recallMode: "sequence",
+      adaptive: true,
+      staircaseUp: 3,
+      staircaseDown: 2,
+      retentionDelay: 2000,
+      retentionMask: "noise",
+    },
+  },
+];
+
+const EXPECTED_SETTINGS: Record<string, unknown>[] = [
+  {
+    recallMode: "pattern",
+    adaptive: false,
+    staircaseUp: 2,
+    staircaseDown: 1,
+    retentionDelay: 0,
+    retentionMask: "none",
+    gridSize: 5,
+    showTime: 700,
+    answerTime: 3000,
+    numActiveCells: 6,
+    targetConsecutive: 10,
+  },
+  {
+    retentionDelay: 0,
+    retentionMask: "none",
+    ...SETTINGS_FIXTURES[1].settings,
+  },
+  SETTINGS_FIXTURES[2].settings,
+];
+
+// プロパティの順序に依存せずに比較するため、キーをソートしたオブジェクトに変換
+const sortKeys = (value: Record<string, unknown>): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+};
+
+// IndexedDBのデータベースを削除
+const deleteDatabase = (name: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// 旧バージョンのIndexedDBを作成してデータを書き込む
+const createLegacyDatabase = (
+  name: string,
+  version: number,
+  setup: (db: IDBDatabase) => void,
+  storeName: string,
+  items: Record<string, unknown>[],
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => setup(request.result);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const transaction = db.transaction([storeName], "readwrite");
+      items.forEach((item) => transaction.objectStore(storeName).put(item));
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+  });
+};
+
+describe("stats migrations", () => {
+  it.each(STATS_FIXTURES)("migrates v$version stats to the latest schema", (fixture) => {
+    expect(sortKeys(migrateRecord(fixture.stats, fixture.version, STATS_MIGRATIONS))).toEqual(sortKeys(EXPECTED_STATS[fixture.version]));
+  });
+
+  it.each(STATS_FIXTURES)("is idempotent when v$version stats are treated as unversioned", (fixture) => {
+    expect(sortKeys(migrateRecord(fixture.stats, 1, STATS_MIGRATIONS))).toEqual(sortKeys(EXPECTED_STATS[fixture.version]));
+  });
+
+  it("has a fixture for the latest stats schema", () => {
+    expect(STATS_FIXTURES.map((fixture) => fixture.version)).toContain(STATS_SCHEMA_VERSION);
+  });
+});
+
+describe("settings migrations", () => {
+  it.each(SETTINGS_FIXTURES.map((fixture, index) => ({ ...fixture, index })))("migrates settings fixture $index to the latest schema", (fixture) => {
+    expect(sortKeys(migrateRecord(fixture.settings, parseSchemaVersion(fixture.version), SETTINGS_MIGRATIONS))).toEqual(
+      sortKeys(EXPECTED_SETTINGS[fixture.index]),
+    );
+  });
+});
+
+describe("localStorage migrations", () => {
+  const statsKey = "migrationFixtureStatsMap";
+  const settingsKey = "migrationFixtureSettings";
+
+  afterEach(() => {
+    clearStoredSchemaVersion(statsKey);
+  });
+
+  it.each(STATS_FIXTURES.filter((fixture) => fixture.version < STATS_SCHEMA_VERSION))("migrates a v$version stats map", (fixture) => {
+    localStorage.setItem(statsKey, JSON.stringify({ key: fixture.stats }));
+    migrateStatsMapInStorage(statsKey);
+    expect(sortKeys(JSON.parse(localStorage.getItem(statsKey)!).key)).toEqual(sortKeys(EXPECTED_STATS[fixture.version]));
+  });
+
+  it.each(SETTINGS_FIXTURES.map((fixture, index) => ({ ...fixture, index })))("migrates stored settings fixture $index", (fixture) => {
+    localStorage.setItem(
+      settingsKey,
+      JSON.stringify({ settings: fixture.settings, lastUpdated: "2024-01-01T00:00:00.000Z", version: fixture.version }),
+    );
+    migrateSettingsInStorage(settingsKey);
+    const data = JSON.parse(localStorage.getItem(settingsKey)!);
+    expect(data.version).toBe(SETTINGS_SCHEMA_VERSION);
+    expect(sortKeys(data.settings)).toEqual(sortKeys(EXPECTED_SETTINGS[fixture.index]));
+  });
+
+  it("splits a single-array trial history into daily entries", async () => {
+    const trialsKey = "migrationFixtureTrialHistory";
+    const records = [
+      { id: "1", timestamp: new Date(2024, 0, 1, 9).getTime(), date: "2024-01-01", settingsKey: "a" },
+      { id: "2", timestamp: new Date(2024, 0, 1, 21).getTime(), date: "2024-01-01", settingsKey: "b" },
+      { id: "3", timestamp: new Date(2024, 0, 2, 9).getTime(), date: "2024-01-02", settingsKey: "a" },
+    ] as TrialRecord[];
+    localStorage.setItem(trialsKey, JSON.stringify(records));
+
+    const store = new LocalStorageStatsStore(statsKey, trialsKey);
+    await store.init();
+    expect(localStorage.getItem(trialsKey)).toBeNull();
+    expect(getTrialDaysFromStorage(trialsKey)).toEqual(["2024-01-01", "2024-01-02"]);
+    expect(JSON.parse(localStorage.getItem(`${trialsKey}/2024-01-01`)!).map((record: TrialRecord) => record.id)).toEqual(["1", "2"]);
+    expect((await store.getTrials()).map((record) => record.id)).toEqual(["1", "2", "3"]);
+
+    // 新しい記録はその日の分のみ書き直す
+    const day = localStorage.getItem(`${trialsKey}/2024-01-01`);
+    await store.saveTrial({ ...records[2], id: "4", timestamp: records[2].timestamp + 1 });
+    expect(localStorage.getItem(`${trialsKey}/2024-01-01`)).toBe(day);
+    expect((await store.getTrials({ since: records[2].timestamp })).map((record) => record.id)).toEqual(["3", "4"]);
+  });
+});
+
+describe("IndexedDB upgrades", () => {
+  const items = STATS_FIXTURES.filter((fixture) => fixture.version < STATS_SCHEMA_VERSION).map((fixture) => ({
+    settingsKey: `v${fixture.version}`,
+    stats: fixture.stats,
+    timestamp: 0,
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  }));
+
+  it.each([1, 2])("upgrades a v%i stats database to the current version", async (version) => {
+    const name = `GameStatsDB-migration-v${version}`;
+    await deleteDatabase(name);
+    await createLegacyDatabase(
+      name,
+      version,
+      (db) => {
+        db.createObjectStore("stats", { keyPath: "settingsKey" }).createIndex("timestamp", "timestamp", { unique: false });
+        if (version >= 2) {
+          db.createObjectStore("trials", { keyPath: "id" });
+        }
+      },
+      "stats",
+      items,
+    );
+
+    const database = new PWAStatsDatabase(name);
+    try {
+      await database.init();
+      const statsMap = await database.getAllStats();
+      items.forEach((item, index) => {
+        expect(sortKeys({ ...statsMap[item.settingsKey] }), item.settingsKey).toEqual(sortKeys(EXPECTED_STATS[STATS_FIXTURES[index].version]));
+      });
+      expect(await database.getTrials()).toEqual([]);
+    } finally {
+      database.close();
+      await deleteDatabase(name);
+    }
+  });
+
+  it.each(SETTINGS_FIXTURES.map((fixture, index) => ({ ...fixture, index })).filter((fixture) => typeof fixture.version === "string"))(
+    "upgrades a v1 settings database with settings fixture $index",
+    async (fixture) => {
+      const name = `GameSettingsDB-migration-${fixture.index}`;
+      await deleteDatabase(name);
+      await createLegacyDatabase(
+        name,
+        1,
+        (db) => {
+          db.createObjectStore("settings", { keyPath: "id" }).createIndex("lastUpdated", "lastUpdated", { unique: false });
+        },
+        "settings",
+        [{ id: "current", settings: fixture.settings, lastUpdated: "2024-01-01T00:00:00.000Z", version: fixture.version }],
+      );
+
+      const manager = new PWASettingsManager(name);
+      try {
+        await manager.init();
+        expect(sortKeys({ ...(await manager.loadSettings()) })).toEqual(sortKeys(EXPECTED_SETTINGS[fixture.index]));
+      } finally {
+        manager.close();
+        await deleteDatabase(name);
+      }
+    },
+  );
+});
@@ -0,0 +1,212 @@
+// 保存データのスキーマバージョンとマイグレーション
+// 各マイグレーションは直前のバージョンのデータを受け取り、1つ上のバージョンに変換する。
+// 過去のデータを再現できるよう、既定値は現在のDEFAULT_SETTINGSなどを参照せず当時の値を直接記述する。
+
+// 1件のデータ（統計情報や設定）のマイグレーション
+export interface RecordMigration {
+  version: number; // 変換後のバージョン
+  description: string;
+  migrate: (record: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// IndexedDBの構造の更新（onupgradeneeded内で実行）
+export interface DatabaseUpgrade {
+  version: number; // IndexedDBのバージョン
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// 統計情報（GameStats）
+// v1: totalChallenges / recentAnswers / maxConsecutiveCorrect / currentConsecutiveCorrect
+export const STATS_MIGRATIONS: RecordMigration[] = [
+  {
+    version: 2,
+    description: "Add bestAccuracy",
+    migrate: (stats) => ({ ...stats, bestAccuracy: typeof stats.bestAccuracy === "number" ? stats.bestAccuracy : 0 }),
+  },
+  {
+    version: 3,
+    description: "Add recentScores and timeouts",
+    migrate: (stats) => ({
+      ...stats,
+      recentScores: Array.isArray(stats.recentScores) ? stats.recentScores : [],
+      timeouts: typeof stats.timeouts === "number" ? stats.timeouts : 0,
+    }),
+  },
+];
+
+// 設定（GameSettings）
+// v1（"1.0.0"）: gridSize / showTime / answerTime / numActiveCells / targetConsecutive
+export const SETTINGS_MIGRATIONS: RecordMigration[] = [
+  {
+    version: 2,
+    description: "Add recall mode and adaptive difficulty",
+    migrate: (settings) => ({
+      recallMode: "pattern",
+      adaptive: false,
+      staircaseUp: 2,
+      staircaseDown: 1,
+      ...settings,
+    }),
+  },
+  {
+    version: 3,
+    description: "Add retention delay and mask",
+    migrate: (settings) => ({
+      retentionDelay: 0,
+      retentionMask: "none",
+      ...settings,
+    }),
+  },
+];
+
+export const getLatestVersion = (migrations: RecordMigration[]): number => {
+  return migrations.reduce((latest, migration) => Math.max(latest, migration.version), 1);
+};
+
+export const STATS_SCHEMA_VERSION = getLatestVersion(STATS_MIGRATIONS);
+export const SETTINGS_SCHEMA_VERSION = getLatestVersion(SETTINGS_MIGRATIONS);
+
+// 保存されているバージョンを数値に変換（旧形式の"1.0.0"はメジャーバージョン、未記録は1とみなす）
+export const parseSchemaVersion = (version: unknown): number => {
+  if (typeof version === "number" && Number.isInteger(version) && version >= 1) return version;
+  if (typeof version === "string") {
+    const major = parseInt(version, 10);
+    if (major >= 1) return major;
+  }
+  return 1;
+};
+
+// 指定したバージョンから最新まで順番にマイグレーションを適用
+export const migrateRecord = <T>(record: unknown, fromVersion: number, migrations: RecordMigration[]): T => {
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), { ...(record as Record<string, unknown>) }) as T;
+};
+
+// ローカルストレージの各データのスキーマバージョン（データ本体の形式を変えずに別キーで管理）
+const SCHEMA_VERSIONS_KEY = "storageSchemaVersions";
+
+export const getStoredSchemaVersion = (storageKey: string): number => {
+  if (typeof window === "undefined") return 1;
+
+  try {
+    const stored = localStorage.getItem(SCHEMA_VERSIONS_KEY);
+    if (stored) {
+      return parseSchemaVersion(JSON.parse(stored)[storageKey]);
+    }
+  } catch (error) {
+    console.error("Failed to load schema versions:", error);
+  }
+
+  return 1;
+};
+
+export const clearStoredSchemaVersion = (storageKey: string): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    const stored = localStorage.getItem(SCHEMA_VERSIONS_KEY);
+    if (!stored) return;
+    const versions = JSON.parse(stored);
+    delete versions[storageKey];
+    localStorage.setItem(SCHEMA_VERSIONS_KEY, JSON.stringify(versions));
+  } catch (error) {
+    console.error("Failed to clear schema version:", error);
+  }
+};
+
+export const setStoredSchemaVersion = (storageKey: string, version: number): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    const stored = localStorage.getItem(SCHEMA_VERSIONS_KEY);
+    const versions = stored ? JSON.parse(stored) : {};
+    localStorage.setItem(SCHEMA_VERSIONS_KEY, JSON.stringify({ ...versions, [storageKey]: version }));
+  } catch (error) {
+    console.error("Failed to save schema versions:", error);
+  }
+};
+
+// ローカルストレージの統計情報（設定キーごとのマップ）を最新の形式に更新
+export const migrateStatsMapInStorage = (storageKey: string): void => {
+  if (typeof window === "undefined") return;
+
+  const fromVersion = getStoredSchemaVersion(storageKey);
+  if (fromVersion >= STATS_SCHEMA_VERSION) return;
+
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      const statsMap: Record<string, unknown> = JSON.parse(stored);
+      const migrated = Object.fromEntries(Object.entries(statsMap).map(([key, stats]) => [key, migrateRecord(stats, fromVersion, STATS_MIGRATIONS)]));
+      localStorage.setItem(storageKey, JSON.stringify(migrated));
+    }
+    setStoredSchemaVersion(storageKey, STATS_SCHEMA_VERSION);
+  } catch (error) {
+    console.error("Failed to migrate game stats:", error);
+  }
+};
+
+// ローカルストレージの設定を最新の形式に更新（バージョンは設定データ自体に記録）
+export const migrateSettingsInStorage = (storageKey: string): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (!stored) return;
+
+    const data = JSON.parse(stored);
+    const fromVersion = parseSchemaVersion(data.version);
+    if (fromVersion >= SETTINGS_SCHEMA_VERSION && typeof data.version === "number") return;
+
+    localStorage.setItem(
+      storageKey,
+      JSON.stringify({
+        ...data,
+        settings: migrateRecord(data.settings, fromVersion, SETTINGS_MIGRATIONS),
+        version: SETTINGS_SCHEMA_VERSION,
+      }),
+    );
+  } catch (error) {
+    console.error("Failed to migrate game settings:", error);
+  }
+};
+
+// onupgradeneededで旧バージョンから順番に構造を更新
+export const runDatabaseUpgrades = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, upgrades: DatabaseUpgrade[]): void => {
+  [...upgrades]
+    .sort((a, b) => a.version - b.version)
+    .filter((upgrade) => upgrade.version > oldVersion)
+    .forEach((upgrade) => upgrade.upgrade(db, transaction));
+};
+
+export const getLatestDatabaseVersion = (upgrades: DatabaseUpgrade[]): number => {
+  return upgrades.reduce((latest, upgrade) => Math.max(latest, upgrade.version), 1);
+};
+
+// オブジェクトストア内の全データを最新の形式に更新
+// field: データ本体のプロパティ名、versionField: バージョンを記録するプロパティ名
+export const migrateObjectStore = (
+  transaction: IDBTransaction,
+  storeName: string,
+  field: string,
+  versionField: string,
+  migrations: RecordMigration[],
+): void => {
+  const latestVersion = getLatestVersion(migrations);
+  const request = transaction.objectStore(storeName).openCursor();
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const item = cursor.value;
+    const fromVersion = parseSchemaVersion(item[versionField]);
+    if (fromVersion < latestVersion || typeof item[versionField] !== "number") {
+      cursor.update({ ...item, [field]: migrateRecord(item[field], fromVersion, migrations), [versionField]: latestVersion });
+    }
+    cursor.continue();
+  };
+};
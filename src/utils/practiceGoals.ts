@@ -0,0 +1,207 @@
+import { TrialRecord, toDateKey } from "./gameStats";
+import { getProfileStorageKey } from "./profiles";
+
+// 毎日の練習目標・連続練習日数・リマインダー通知
+// 練習量は解答記録から計算し、リマインダーは外部のプッシュサービスを使わずにService Workerから通知する。
+
+export type DailyGoalType = "minutes" | "trials";
+
+export interface DailyGoal {
+  type: DailyGoalType;
+  target: number;
+}
+
+export interface PracticeReminder {
+  enabled: boolean;
+  time: string; // 通知する時刻（HH:MM、ローカル時刻）
+}
+
+export interface PracticeSettings {
+  goal: DailyGoal;
+  reminder: PracticeReminder;
+}
+
+// 1日分の練習量
+export interface PracticeDay {
+  date: string; // ローカル日付（YYYY-MM-DD）
+  trials: number;
+  minutes: number;
+  goalMet: boolean;
+}
+
+// 定期バックグラウンド同期（TypeScriptの型定義に含まれていないAPI）
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+}
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+  goal: { type: "trials", target: 20 },
+  reminder: { enabled: false, time: "19:00" },
+};
+
+export const DAILY_GOAL_LIMITS: Record<DailyGoalType, { min: number; max: number }> = {
+  minutes: { min: 1, max: 120 },
+  trials: { min: 1, max: 500 },
+};
+
+// この間隔以内の解答は続けて練習していたものとして、間の時間を練習時間に含める
+const CONTINUOUS_PRACTICE_GAP = 2 * 60 * 1000;
+
+// 定期バックグラウンド同期のタグ（public/sw.jsと同じ値）と確認間隔
+const REMINDER_SYNC_TAG = "practice-reminder";
+const REMINDER_SYNC_INTERVAL = 60 * 60 * 1000;
+
+export const validatePracticeSettings = (settings: Partial<PracticeSettings>): PracticeSettings => {
+  const goal = settings.goal || DEFAULT_PRACTICE_SETTINGS.goal;
+  const type: DailyGoalType = goal.type === "minutes" ? "minutes" : "trials";
+  const limits = DAILY_GOAL_LIMITS[type];
+  const reminder = settings.reminder || DEFAULT_PRACTICE_SETTINGS.reminder;
+
+  return {
+    goal: { type, target: Math.max(limits.min, Math.min(limits.max, Math.round(goal.target) || limits.min)) },
+    reminder: {
+      enabled: !!reminder.enabled,
+      time: /^([01]\d|2[0-3]):[0-5]\d$/.test(reminder.time) ? reminder.time : DEFAULT_PRACTICE_SETTINGS.reminder.time,
+    },
+  };
+};
+
+export const loadPracticeSettingsFromStorage = (): PracticeSettings => {
+  if (typeof window === "undefined") return DEFAULT_PRACTICE_SETTINGS;
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("practiceSettings"));
+    if (stored) {
+      return validatePracticeSettings(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.error("Failed to load practice settings:", error);
+  }
+
+  return DEFAULT_PRACTICE_SETTINGS;
+};
+
+export const savePracticeSettingsToStorage = (settings: PracticeSettings): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(getProfileStorageKey("practiceSettings"), JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save practice settings:", error);
+  }
+};
+
+// 1問にかかった時間の目安（表示・保持・解答の時間）
+const getTrialDuration = (record: TrialRecord): number => {
+  return record.settings.showTime + (record.settings.retentionDelay || 0) + (record.responseTime || 0);
+};
+
+// 解答記録から日ごとの練習量を集計（解答間の間隔が短い場合は間の時間も練習時間に含める）
+export const calculatePracticeDays = (records: TrialRecord[], goal: DailyGoal): PracticeDay[] => {
+  const sorted = [...records].sort((a, b) => a.timestamp - b.timestamp);
+  const days = new Map<string, { trials: number; time: number }>();
+
+  sorted.forEach((record, index) => {
+    const previous = sorted[index - 1];
+    const gap = previous && previous.date === record.date ? record.timestamp - previous.timestamp : Infinity;
+    const day = days.get(record.date) || { trials: 0, time: 0 };
+
+    day.trials += record.isRetry ? 0 : 1;
+    day.time += gap <= CONTINUOUS_PRACTICE_GAP ? gap : getTrialDuration(record);
+    days.set(record.date, day);
+  });
+
+  return [...days.entries()].map(([date, day]) => {
+    const minutes = Math.round((day.time / 60000) * 10) / 10;
+    return { date, trials: day.trials, minutes, goalMet: (goal.type === "minutes" ? minutes : day.trials) >= goal.target };
+  });
+};
+
+// 目標に対する進捗（0〜1）
+export const getGoalProgress = (day: PracticeDay | undefined, goal: DailyGoal): number => {
+  if (!day) return 0;
+  return Math.min(1, (goal.type === "minutes" ? day.minutes : day.trials) / goal.target);
+};
+
+// ローカル日付（YYYY-MM-DD）の前日
+const getPreviousDate = (date: string): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return toDateKey(new Date(year, month - 1, day - 1).getTime());
+};
+
+// 今日まで続いている連続練習日数（今日まだ練習していない場合は昨日までの日数）
+export const calculateCurrentPlayStreak = (practicedDates: string[], today: string = toDateKey(Date.now())): number => {
+  const dates = new Set(practicedDates);
+  let date = dates.has(today) ? today : getPreviousDate(today);
+  let streak = 0;
+  while (dates.has(date)) {
+    streak++;
+    date = getPreviousDate(date);
+  }
+  return streak;
+};
+
+// カレンダー表示用の月の日付（月曜始まり、前月の空白はnull）
+export const getCalendarDates = (year: number, month: number): (string | null)[] => {
+  const firstWeekday = (new Date(year, month, 1).getDay() + 6) % 7;
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const dates: (string | null)[] = Array(firstWeekday).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    dates.push(toDateKey(new Date(year, month, day).getTime()));
+  }
+  return dates;
+};
+
+// 次にリマインダーを確認するまでの時間（今日の時刻を過ぎている場合は明日）
+export const getMsUntilReminder = (time: string, now: Date = new Date()): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const next = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+  if (next.getTime() <= now.getTime()) next.setDate(next.getDate() + 1);
+  return next.getTime() - now.getTime();
+};
+
+export const canUseReminders = (): boolean => {
+  return typeof window !== "undefined" && "Notification" in window && "serviceWorker" in navigator;
+};
+
+// 通知の許可を求める（許可された場合はtrue）
+export const requestReminderPermission = async (): Promise<boolean> => {
+  if (!canUseReminders()) return false;
+  if (Notification.permission === "granted") return true;
+  return (await Notification.requestPermission()) === "granted";
+};
+
+// リマインダーの設定と今日の目標の達成状況をService Workerに送る
+// インストールしたアプリでは定期バックグラウンド同期でアプリを閉じていても通知し、それ以外はアプリを開いている間のみ通知する。
+export const syncReminderWithServiceWorker = async (reminder: PracticeReminder, goalMetToday: boolean): Promise<void> => {
+  if (!canUseReminders()) return;
+
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({
+    type: "UPDATE_REMINDER",
+    reminder: { enabled: reminder.enabled && Notification.permission === "granted", time: reminder.time },
+    goalMetDate: goalMetToday ? toDateKey(Date.now()) : null,
+  });
+
+  // 定期バックグラウンド同期はChromium系のインストールしたアプリのみ対応
+  const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (!periodicSync) return;
+  try {
+    if (reminder.enabled) {
+      await periodicSync.register(REMINDER_SYNC_TAG, { minInterval: REMINDER_SYNC_INTERVAL });
+    } else {
+      await periodicSync.unregister(REMINDER_SYNC_TAG);
+    }
+  } catch (error) {
+    console.log("Periodic background sync not available:", error);
+  }
+};
+
+// 通知する時刻になったか確認するようService Workerに依頼（アプリを開いている間のタイマー用）
+export const checkReminderInServiceWorker = async (): Promise<void> => {
+  if (!canUseReminders()) return;
+
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: "CHECK_REMINDER" });
+};
@@ -0,0 +1,179 @@
+import { clearStoredSchemaVersion } from "./migrations";
+
+// 同じ端末を複数人で使うためのプロフィール
+// デフォルトのプロフィールは従来の保存先をそのまま使い、追加したプロフィールは保存先の名前にIDを付けて分ける。
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+interface ProfilesData {
+  profiles: Profile[];
+  activeProfileId: string; // 次回起動時に使用するプロフィール
+}
+
+export const DEFAULT_PROFILE_ID = "default";
+export const MAX_PROFILE_NAME_LENGTH = 24;
+
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: "Player 1", createdAt: "1970-01-01T00:00:00.000Z" };
+
+// プロフィールごとに分けるローカルストレージのキーとIndexedDBのデータベース
+const PROFILE_STORAGE_KEYS = [
+  "gameStatsMap",
+  "gameTrialHistory",
+  "gameSettings",
+  "adaptiveLevels",
+  "adaptiveSessions",
+  "sessionHighScores",
+  "environmentSyncReport",
+  "environmentSyncBase",
+  "achievements",
+  "practiceSettings",
+  "statsWindow",
+  "trialArchive",
+  "skillRating",
+];
+const PROFILE_DATABASES = ["GameStatsDB", "GameSettingsDB"];
+
+export const loadProfilesFromStorage = (): ProfilesData => {
+  const fallback: ProfilesData = { profiles: [DEFAULT_PROFILE], activeProfileId: DEFAULT_PROFILE_ID };
+  if (typeof window === "undefined") return fallback;
+
+  try {
+    const stored = localStorage.getItem("profiles");
+    if (stored) {
+      const data: ProfilesData = JSON.parse(stored);
+      const profiles = data.profiles.some((profile) => profile.id === DEFAULT_PROFILE_ID) ? data.profiles : [DEFAULT_PROFILE, ...data.profiles];
+      const activeProfileId = profiles.some((profile) => profile.id === data.activeProfileId) ? data.activeProfileId : DEFAULT_PROFILE_ID;
+      return { profiles, activeProfileId };
+    }
+  } catch (error) {
+    console.error("Failed to load profiles:", error);
+  }
+
+  return fallback;
+};
+
+export const saveProfilesToStorage = (data: ProfilesData): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem("profiles", JSON.stringify(data));
+  } catch (error) {
+    console.error("Failed to save profiles:", error);
+  }
+};
+
+// このタブで使用中のプロフィール（起動時に前回のプロフィールを読み込み、他のタブで切り替えても変わらない）
+let activeProfileId: string | null = null;
+
+export const getActiveProfileId = (): string => {
+  if (activeProfileId === null) {
+    activeProfileId = loadProfilesFromStorage().activeProfileId;
+  }
+  return activeProfileId;
+};
+
+export const getActiveProfile = (): Profile => {
+  const id = getActiveProfileId();
+  return loadProfilesFromStorage().profiles.find((profile) => profile.id === id) || DEFAULT_PROFILE;
+};
+
+// プロフィールごとのローカルストレージのキー
+export const getProfileStorageKey = (baseKey: string, profileId: string = getActiveProfileId()): string => {
+  return profileId === DEFAULT_PROFILE_ID ? baseKey : `${baseKey}:${profileId}`;
+};
+
+// プロフィールごとのIndexedDBのデータベース名
+export const getProfileDatabaseName = (baseName: string, profileId: string = getActiveProfileId()): string => {
+  return profileId === DEFAULT_PROFILE_ID ? baseName : `${baseName}-${profileId}`;
+};
+
+// 名前を検証（問題がなければnull）
+export const validateProfileName = (name: string, profiles: Profile[], exceptId: string | null = null): string | null => {
+  const trimmed = name.trim();
+  if (trimmed === "") return "Enter a name";
+  if (trimmed.length > MAX_PROFILE_NAME_LENGTH) return `Use at most ${MAX_PROFILE_NAME_LENGTH} characters`;
+  if (profiles.some((profile) => profile.id !== exceptId && profile.name.toLowerCase() === trimmed.toLowerCase())) {
+    return "A profile with this name already exists";
+  }
+  return null;
+};
+
+export const createProfile = (name: string): Profile => {
+  const data = loadProfilesFromStorage();
+  const error = validateProfileName(name, data.profiles);
+  if (error) throw new Error(error);
+
+  const profile: Profile = {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+  };
+  saveProfilesToStorage({ ...data, profiles: [...data.profiles, profile] });
+  return profile;
+};
+
+export const renameProfile = (profileId: string, name: string): void => {
+  const data = loadProfilesFromStorage();
+  const error = validateProfileName(name, data.profiles, profileId);
+  if (error) throw new Error(error);
+
+  saveProfilesToStorage({
+    ...data,
+    profiles: data.profiles.map((profile) => (profile.id === profileId ? { ...profile, name: name.trim() } : profile)),
+  });
+};
+
+// 使用するプロフィールを切り替え（次回起動時もこのプロフィールを使用）
+export const switchProfile = (profileId: string): void => {
+  const data = loadProfilesFromStorage();
+  if (!data.profiles.some((profile) => profile.id === profileId)) {
+    throw new Error(`Unknown profile: ${profileId}`);
+  }
+
+  activeProfileId = profileId;
+  saveProfilesToStorage({ ...data, activeProfileId: profileId });
+};
+
+const deleteDatabase = (name: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // 他のタブで開いている場合は閉じられた時点で削除される
+    request.onblocked = () => resolve();
+  });
+};
+
+// プロフィールとそのデータを削除（デフォルトと使用中のプロフィールは削除できない）
+export const deleteProfile = async (profileId: string): Promise<void> => {
+  if (profileId === DEFAULT_PROFILE_ID || profileId === getActiveProfileId()) {
+    throw new Error("Cannot delete the default or active profile");
+  }
+
+  const data = loadProfilesFromStorage();
+  saveProfilesToStorage({ ...data, profiles: data.profiles.filter((profile) => profile.id !== profileId) });
+
+  const keys = PROFILE_STORAGE_KEYS.map((baseKey) => getProfileStorageKey(baseKey, profileId));
+  keys.forEach((key) => {
+    localStorage.removeItem(key);
+    clearStoredSchemaVersion(key);
+  });
+
+  // 日ごとに分けて保存しているデータ（`${key}/YYYY-MM-DD`など）も削除
+  const derivedKeys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key !== null && keys.some((baseKey) => key.startsWith(`${baseKey}/`))) derivedKeys.push(key);
+  }
+  derivedKeys.forEach((key) => localStorage.removeItem(key));
+
+  if (typeof window !== "undefined" && "indexedDB" in window) {
+    for (const baseName of PROFILE_DATABASES) {
+      await deleteDatabase(getProfileDatabaseName(baseName, profileId));
+    }
+  }
+};
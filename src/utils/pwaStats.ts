@@ -1,21 +1,31 @@
-export interface GameStats {
-  totalChallenges: number;
-  recentAnswers: boolean[]; // 直近100問の正誤記録
-  maxConsecutiveCorrect: number;
-  currentConsecutiveCorrect: number;
-  bestAccuracy: number; // 100問の正答率の最高記録
-}
-
-export interface GameSettings {
-  gridSize: number;
-  showTime: number;
-  answerTime: number;
-  numActiveCells: number;
-}
-
-export interface GameStatsMap {
-  [key: string]: GameStats;
-}
+import {
+  GameStats,
+  GameSettings,
+  GameStatsMap,
+  TrialScore,
+  TrialRecord,
+  TrialHistoryQuery,
+  MAX_RECENT_ANSWERS,
+  generateSettingsKey,
+  initializeStats,
+  updateStats,
+  filterTrialHistory,
+} from "./gameStats";
+import {
+  DatabaseUpgrade,
+  STATS_MIGRATIONS,
+  STATS_SCHEMA_VERSION,
+  getLatestDatabaseVersion,
+  migrateObjectStore,
+  runDatabaseUpgrades,
+} from "./migrations";
+import { StatsImportOptions, StatsImportPreview, parseStatsImport, previewStatsImport } from "./statsImport";
+import { recordStorageError } from "./storageHealth";
+import type { SkillRating } from "./skillRating";
+
+// 統計の型とロジックはgameStatsと共通
+export type { GameStats, GameSettings, GameStatsMap };
+export { MAX_RECENT_ANSWERS, generateSettingsKey, initializeStats, updateStats };
 
 // IndexedDBのデータ構造
 interface IndexedDBStatsItem {
@@ -23,59 +33,64 @@ interface IndexedDBStatsItem {
   stats: GameStats;
   timestamp: number;
   updatedAt: string;
+  schemaVersion?: number; // 統計情報の形式のバージョン（v3以前のデータには存在しない）
 }
 
-export const MAX_RECENT_ANSWERS = 100;
-
-export const initializeStats = (): GameStats => ({
-  totalChallenges: 0,
-  recentAnswers: [],
-  maxConsecutiveCorrect: 0,
-  currentConsecutiveCorrect: 0,
-  bestAccuracy: 0,
-});
-
-// 設定の組み合わせからキーを生成
-export const generateSettingsKey = (settings: GameSettings): string => {
-  return `${settings.gridSize}-${settings.showTime}-${settings.answerTime}-${settings.numActiveCells}`;
-};
-
-export const updateStats = (stats: GameStats, isCorrect: boolean): GameStats => {
-  const newRecentAnswers = [...stats.recentAnswers, isCorrect];
-
-  // 直近100問のみ保持
-  if (newRecentAnswers.length > MAX_RECENT_ANSWERS) {
-    newRecentAnswers.shift();
-  }
-
-  const newCurrentConsecutiveCorrect = isCorrect ? stats.currentConsecutiveCorrect + 1 : 0;
-
-  const newMaxConsecutiveCorrect = Math.max(stats.maxConsecutiveCorrect, newCurrentConsecutiveCorrect);
-
-  // 100問の正答率を計算（空の配列の場合は0%）
-  const calculateAccuracy = (answers: boolean[]): number => {
-    if (answers.length === 0) return 0;
-    const correctCount = answers.filter((answer) => answer).length;
-    return Math.round((correctCount / answers.length) * 100);
-  };
-
-  const currentAccuracy = calculateAccuracy(newRecentAnswers);
-  const newBestAccuracy = Math.max(stats.bestAccuracy, currentAccuracy);
+interface IndexedDBRatingItem {
+  id: string;
+  rating: SkillRating;
+  updatedAt: string;
+}
 
-  return {
-    totalChallenges: stats.totalChallenges + 1,
-    recentAnswers: newRecentAnswers,
-    maxConsecutiveCorrect: newMaxConsecutiveCorrect,
-    currentConsecutiveCorrect: newCurrentConsecutiveCorrect,
-    bestAccuracy: newBestAccuracy,
-  };
-};
+// IndexedDBの構造の変更履歴（統計情報の形式を変更した場合は、データを更新するバージョンも追加する）
+const STATS_DATABASE_UPGRADES: DatabaseUpgrade[] = [
+  {
+    version: 1,
+    description: "Create stats store",
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains("stats")) {
+        const store = db.createObjectStore("stats", { keyPath: "settingsKey" });
+        store.createIndex("timestamp", "timestamp", { unique: false });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: "Create trials store",
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains("trials")) {
+        const trialStore = db.createObjectStore("trials", { keyPath: "id" });
+        trialStore.createIndex("timestamp", "timestamp", { unique: false });
+        trialStore.createIndex("date", "date", { unique: false });
+        trialStore.createIndex("settingsKey", "settingsKey", { unique: false });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Migrate stats records to schema v3",
+    upgrade: (_db, transaction) => migrateObjectStore(transaction, "stats", "stats", "schemaVersion", STATS_MIGRATIONS),
+  },
+  {
+    version: 4,
+    description: "Create ratings store",
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains("ratings")) {
+        db.createObjectStore("ratings", { keyPath: "id" });
+      }
+    },
+  },
+];
 
 export class PWAStatsDatabase {
   private db: IDBDatabase | null = null;
-  private readonly dbName = "GameStatsDB";
   private readonly storeName = "stats";
-  private readonly version = 1;
+  private readonly trialStoreName = "trials";
+  private readonly ratingStoreName = "ratings";
+  private readonly skillRatingId = "skill";
+  private readonly version = getLatestDatabaseVersion(STATS_DATABASE_UPGRADES);
+
+  constructor(private readonly dbName: string = "GameStatsDB") {}
 
   async init(): Promise<void> {
     if (this.db) return;
@@ -93,18 +108,28 @@ export class PWAStatsDatabase {
         resolve();
       };
 
+      // 旧バージョンから順番に構造とデータを更新
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // オブジェクトストアが存在しない場合は作成
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          const store = db.createObjectStore(this.storeName, { keyPath: "settingsKey" });
-          store.createIndex("timestamp", "timestamp", { unique: false });
-        }
+        runDatabaseUpgrades(request.result, request.transaction!, event.oldVersion, STATS_DATABASE_UPGRADES);
       };
     });
   }
 
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private createStatsItem(settingsKey: string, stats: GameStats): IndexedDBStatsItem {
+    return {
+      settingsKey,
+      stats,
+      timestamp: Date.now(),
+      updatedAt: new Date().toISOString(),
+      schemaVersion: STATS_SCHEMA_VERSION,
+    };
+  }
+
   async saveStats(settingsKey: string, stats: GameStats): Promise<void> {
     if (!this.db) {
       throw new Error("Database not initialized");
@@ -114,43 +139,102 @@ export class PWAStatsDatabase {
       const transaction = this.db!.transaction([this.storeName], "readwrite");
       const store = transaction.objectStore(this.storeName);
 
-      const data = {
-        settingsKey,
-        stats,
-        timestamp: Date.now(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      const request = store.put(data);
+      const request = store.put(this.createStatsItem(settingsKey, stats));
 
       request.onsuccess = () => resolve();
       request.onerror = () => {
         console.error("Failed to save stats:", request.error);
+        recordStorageError("Save stats", request.error);
         reject(request.error);
       };
     });
   }
 
-  async getStats(settingsKey: string): Promise<GameStats | null> {
+  // 読み込みと書き込みを1つのトランザクションで実行（他のタブの更新と競合しない）
+  async updateStats(settingsKey: string, update: (current: GameStats | null) => GameStats): Promise<GameStats> {
     if (!this.db) {
       throw new Error("Database not initialized");
     }
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readonly");
+      const transaction = this.db!.transaction([this.storeName], "readwrite");
       const store = transaction.objectStore(this.storeName);
       const request = store.get(settingsKey);
+      let updated: GameStats;
+      let failure: unknown = null;
 
       request.onsuccess = () => {
-        const result = request.result?.stats || null;
-
-        // 古いデータ形式を新しい形式に移行
-        if (result && !result.hasOwnProperty("bestAccuracy")) {
-          result.bestAccuracy = 0;
+        const item: IndexedDBStatsItem | undefined = request.result;
+        try {
+          updated = update(item ? item.stats : null);
+          store.put(this.createStatsItem(settingsKey, updated));
+        } catch (error) {
+          failure = error;
+          transaction.abort();
         }
+      };
 
-        resolve(result);
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => {
+        console.error("Failed to update stats:", transaction.error);
+        recordStorageError("Update stats", transaction.error);
+        reject(transaction.error);
       };
+      // 更新処理の例外などで中断された場合も呼び出し側が待ち続けないようにする（onerrorの後に呼ばれた場合は何もしない）
+      transaction.onabort = () => reject(failure || transaction.error || new Error("Transaction aborted"));
+    });
+  }
+
+  // 複数の設定キーを1つのトランザクションで更新（途中で失敗した場合はどのキーも保存しない）
+  async updateManyStats(updates: Record<string, (current: GameStats | null) => GameStats>): Promise<GameStatsMap> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], "readwrite");
+      const store = transaction.objectStore(this.storeName);
+      const updated: GameStatsMap = {};
+      let failure: unknown = null;
+
+      Object.entries(updates).forEach(([settingsKey, update]) => {
+        const request = store.get(settingsKey);
+        request.onsuccess = () => {
+          if (failure) return;
+          const item: IndexedDBStatsItem | undefined = request.result;
+          try {
+            updated[settingsKey] = update(item ? item.stats : null);
+            store.put(this.createStatsItem(settingsKey, updated[settingsKey]));
+          } catch (error) {
+            failure = error;
+            transaction.abort();
+          }
+        };
+      });
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => {
+        // 更新処理の例外で中断した場合、残りの読み込みの失敗は保存の失敗として記録しない
+        if (failure) return;
+        console.error("Failed to update stats:", transaction.error);
+        recordStorageError("Update stats", transaction.error);
+        reject(transaction.error);
+      };
+      transaction.onabort = () => reject(failure || transaction.error || new Error("Transaction aborted"));
+    });
+  }
+
+  async getStats(settingsKey: string): Promise<GameStats | null> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], "readonly");
+      const store = transaction.objectStore(this.storeName);
+      const request = store.get(settingsKey);
+
+      request.onsuccess = () => resolve(request.result?.stats || null);
 
       request.onerror = () => {
         console.error("Failed to get stats:", request.error);
@@ -172,10 +256,6 @@ export class PWAStatsDatabase {
       request.onsuccess = () => {
         const statsMap: GameStatsMap = {};
         request.result.forEach((item: IndexedDBStatsItem) => {
-          // 古いデータ形式を新しい形式に移行
-          if (!item.stats.hasOwnProperty("bestAccuracy")) {
-            item.stats.bestAccuracy = 0;
-          }
           statsMap[item.settingsKey] = item.stats;
         });
         resolve(statsMap);
@@ -188,6 +268,28 @@ export class PWAStatsDatabase {
     });
   }
 
+  // 保存時刻付きで全統計情報を取得
+  async getStatsEntries(): Promise<{ settingsKey: string; stats: GameStats; updatedAt: number }[]> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], "readonly");
+      const store = transaction.objectStore(this.storeName);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        resolve(request.result.map((item: IndexedDBStatsItem) => ({ settingsKey: item.settingsKey, stats: item.stats, updatedAt: item.timestamp })));
+      };
+
+      request.onerror = () => {
+        console.error("Failed to get stats entries:", request.error);
+        reject(request.error);
+      };
+    });
+  }
+
   async deleteStats(settingsKey: string): Promise<void> {
     if (!this.db) {
       throw new Error("Database not initialized");
@@ -201,6 +303,7 @@ export class PWAStatsDatabase {
       request.onsuccess = () => resolve();
       request.onerror = () => {
         console.error("Failed to delete stats:", request.error);
+        recordStorageError("Delete stats", request.error);
         reject(request.error);
       };
     });
@@ -219,11 +322,231 @@ export class PWAStatsDatabase {
       request.onsuccess = () => resolve();
       request.onerror = () => {
         console.error("Failed to clear all stats:", request.error);
+        recordStorageError("Clear stats", request.error);
         reject(request.error);
       };
     });
   }
 
+  async saveTrial(record: TrialRecord): Promise<void> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.trialStoreName], "readwrite");
+      const store = transaction.objectStore(this.trialStoreName);
+      const request = store.put(record);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        console.error("Failed to save trial:", request.error);
+        recordStorageError("Save trial", request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  async getTrials(query: TrialHistoryQuery = {}): Promise<TrialRecord[]> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.trialStoreName], "readonly");
+      const store = transaction.objectStore(this.trialStoreName);
+
+      // 設定キーが指定されている場合はインデックスで絞り込み、それ以外は期間で絞り込み
+      let request: IDBRequest<TrialRecord[]>;
+      if (query.settingsKey !== undefined) {
+        request = store.index("settingsKey").getAll(query.settingsKey);
+      } else if (query.since !== undefined || query.until !== undefined) {
+        const range =
+          query.since !== undefined && query.until !== undefined
+            ? IDBKeyRange.bound(query.since, query.until)
+            : query.since !== undefined
+              ? IDBKeyRange.lowerBound(query.since)
+              : IDBKeyRange.upperBound(query.until);
+        request = store.index("timestamp").getAll(range);
+      } else {
+        request = store.getAll();
+      }
+
+      request.onsuccess = () => resolve(filterTrialHistory(request.result, query));
+      request.onerror = () => {
+        console.error("Failed to get trials:", request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  // 記録を読み込まずに数える（beforeを指定した場合はその時刻より前の記録のみ）
+  async countTrials(before?: number): Promise<number> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.trialStoreName], "readonly");
+      const store = transaction.objectStore(this.trialStoreName);
+      const request = before === undefined ? store.count() : store.index("timestamp").count(IDBKeyRange.upperBound(before, true));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Failed to count trials:", request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  async getTrialsByDate(date: string): Promise<TrialRecord[]> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.trialStoreName], "readonly");
+      const store = transaction.objectStore(this.trialStoreName);
+      const request = store.index("date").getAll(date);
+
+      request.onsuccess = () => resolve(filterTrialHistory(request.result));
+      request.onerror = () => {
+        console.error("Failed to get trials by date:", request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  // 設定キーの解答記録を全て削除
+  async deleteTrials(settingsKey: string): Promise<void> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.trialStoreName], "readwrite");
+      const index = transaction.objectStore(this.trialStoreName).index("settingsKey");
+      const request = index.openCursor(IDBKeyRange.only(settingsKey));
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.error("Failed to delete trials:", transaction.error);
+        recordStorageError("Delete trials", transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  // 指定した時刻より前の解答記録を全て削除
+  async deleteTrialsBefore(before: number): Promise<void> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.trialStoreName], "readwrite");
+      const index = transaction.objectStore(this.trialStoreName).index("timestamp");
+      const request = index.openCursor(IDBKeyRange.upperBound(before, true));
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        console.error("Failed to delete old trials:", transaction.error);
+        recordStorageError("Delete old trials", transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  async clearAllTrials(): Promise<void> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.trialStoreName], "readwrite");
+      const store = transaction.objectStore(this.trialStoreName);
+      const request = store.clear();
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        console.error("Failed to clear all trials:", request.error);
+        recordStorageError("Clear trials", request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  async getSkillRating(): Promise<SkillRating | null> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.ratingStoreName], "readonly");
+      const store = transaction.objectStore(this.ratingStoreName);
+      const request = store.get(this.skillRatingId);
+
+      request.onsuccess = () => resolve(request.result?.rating || null);
+      request.onerror = () => {
+        console.error("Failed to get skill rating:", request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  // 現在の値を読み込んで更新（nullを返した場合は削除）
+  async updateSkillRating(update: (current: SkillRating | null) => SkillRating | null): Promise<SkillRating | null> {
+    if (!this.db) {
+      throw new Error("Database not initialized");
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.ratingStoreName], "readwrite");
+      const store = transaction.objectStore(this.ratingStoreName);
+      const request = store.get(this.skillRatingId);
+      let updated: SkillRating | null = null;
+      let failure: unknown = null;
+
+      request.onsuccess = () => {
+        const item: IndexedDBRatingItem | undefined = request.result;
+        try {
+          updated = update(item ? item.rating : null);
+          if (updated) {
+            const newItem: IndexedDBRatingItem = { id: this.skillRatingId, rating: updated, updatedAt: new Date().toISOString() };
+            store.put(newItem);
+          } else {
+            store.delete(this.skillRatingId);
+          }
+        } catch (error) {
+          failure = error;
+          transaction.abort();
+        }
+      };
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => {
+        console.error("Failed to update skill rating:", transaction.error);
+        recordStorageError("Update skill rating", transaction.error);
+        reject(transaction.error);
+      };
+      transaction.onabort = () => reject(failure || transaction.error || new Error("Transaction aborted"));
+    });
+  }
+
   async getDatabaseSize(): Promise<number> {
     if (!this.db) {
       throw new Error("Database not initialized");
@@ -275,18 +598,18 @@ export class PWAStatsManager {
     this.initialized = true;
   }
 
-  async saveStats(settings: GameSettings, isCorrect: boolean): Promise<void> {
+  async saveStats(settings: GameSettings, isCorrect: boolean, score?: TrialScore, timedOut: boolean = false): Promise<void> {
+    await this.saveStatsByKey(generateSettingsKey(settings), isCorrect, score, timedOut);
+  }
+
+  async saveStatsByKey(settingsKey: string, isCorrect: boolean, score?: TrialScore, timedOut: boolean = false): Promise<void> {
     await this.init();
 
     if (!this.db) {
       throw new Error("PWA environment not detected");
     }
 
-    const settingsKey = generateSettingsKey(settings);
-    const currentStats = (await this.db.getStats(settingsKey)) || initializeStats();
-    const updatedStats = updateStats(currentStats, isCorrect);
-
-    await this.db.saveStats(settingsKey, updatedStats);
+    await this.db.updateStats(settingsKey, (currentStats) => updateStats(currentStats || initializeStats(), isCorrect, score, timedOut));
   }
 
   async getStats(settings: GameSettings): Promise<GameStats> {
@@ -311,6 +634,26 @@ export class PWAStatsManager {
     return await this.db.getAllStats();
   }
 
+  async saveTrial(record: TrialRecord): Promise<void> {
+    await this.init();
+
+    if (!this.db) {
+      throw new Error("PWA environment not detected");
+    }
+
+    await this.db.saveTrial(record);
+  }
+
+  async getTrialHistory(query: TrialHistoryQuery = {}): Promise<TrialRecord[]> {
+    await this.init();
+
+    if (!this.db) {
+      throw new Error("PWA environment not detected");
+    }
+
+    return await this.db.getTrials(query);
+  }
+
   async exportStats(): Promise<string> {
     await this.init();
 
@@ -322,17 +665,22 @@ export class PWAStatsManager {
     return JSON.stringify(statsMap, null, 2);
   }
 
-  async importStats(jsonData: string): Promise<void> {
+  async importStats(jsonData: string, options: StatsImportOptions = {}): Promise<StatsImportPreview> {
     await this.init();
 
     if (!this.db) {
       throw new Error("PWA environment not detected");
     }
 
-    const statsMap: GameStatsMap = JSON.parse(jsonData);
+    const incomingMap = parseStatsImport(jsonData);
+    const preview = previewStatsImport(await this.db.getAllStats(), incomingMap, options.strategy || "keepNewer");
 
-    for (const [settingsKey, stats] of Object.entries(statsMap)) {
-      await this.db.saveStats(settingsKey, stats);
+    if (!options.dryRun) {
+      // 途中で失敗して一部だけ保存されないよう、1つのトランザクションで保存
+      const changed = preview.changes.filter((change) => change.type !== "unchanged");
+      await this.db.updateManyStats(Object.fromEntries(changed.map((change) => [change.settingsKey, () => change.after])));
     }
+
+    return preview;
   }
 }
@@ -0,0 +1,30 @@
+// シード付き疑似乱数生成（同じシードからは常に同じ系列を生成）
+
+export const MAX_SEED = 0xffffffff;
+
+// mulberry32: 32bitシードから[0, 1)の乱数を生成する関数を返す
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 文字列から32bitシードを生成（FNV-1a）
+export const hashStringToSeed = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// 新しいシードを生成
+export const generateSeed = (random: () => number = Math.random): number => {
+  return Math.floor(random() * MAX_SEED) >>> 0;
+};
@@ -0,0 +1,180 @@
+import { GameSettings, generateSettingsKey } from "./gameStats";
+import { GameEngineState, TrialResult } from "./gameEngine";
+import { RecallMode } from "./gameSettings";
+import { getProfileStorageKey } from "./profiles";
+
+// セッションモード（タイムアタック・マラソン）
+// timeAttack=制限時間内にできるだけ多く正解、marathon=規定回数ミスするまで続ける
+
+export type SessionModeType = "timeAttack" | "marathon";
+
+export const SESSION_MODE_TYPES: SessionModeType[] = ["timeAttack", "marathon"];
+
+export interface SessionModeConfig {
+  label: string;
+  duration: number | null; // 制限時間（ms）
+  maxMistakes: number | null; // 終了までのミス回数
+}
+
+export const SESSION_MODES: Record<SessionModeType, SessionModeConfig> = {
+  timeAttack: { label: "Time Attack", duration: 3 * 60 * 1000, maxMistakes: null },
+  marathon: { label: "Marathon", duration: null, maxMistakes: 3 },
+};
+
+export interface SessionRun {
+  mode: SessionModeType;
+  settingsKey: string;
+  startedAt: number | null; // Startボタンを押した時刻（Date.now）
+  endedAt: number | null;
+  trials: number;
+  correct: number;
+  mistakes: number;
+  streak: number;
+  bestStreak: number;
+  score: number;
+  lastPoints: number;
+}
+
+export interface HighScoreEntry {
+  id: string;
+  mode: SessionModeType;
+  score: number;
+  correct: number;
+  trials: number;
+  bestStreak: number;
+  settingsKey: string;
+  date: string;
+}
+
+export interface HighScoreTable {
+  [mode: string]: HighScoreEntry[];
+}
+
+export const MAX_HIGH_SCORES = 10;
+
+// 解答方法ごとの難易度係数
+const RECALL_MODE_MULTIPLIER: Record<RecallMode, number> = {
+  pattern: 1,
+  sequence: 1.5,
+  reverse: 2,
+};
+
+// 1問あたりの得点
+// 基本点（セル数×10）に、表示時間の短さ・解答方法・保持時間・解答の速さに応じた係数を掛ける
+export const calculateTrialPoints = (settings: GameSettings, result: TrialResult, responseTime: number | null): number => {
+  if (!result.isCorrect) return 0;
+
+  const base = settings.numActiveCells * 10;
+  const showTimeMultiplier = Math.min(3, Math.max(0.5, 1000 / settings.showTime));
+  const modeMultiplier = RECALL_MODE_MULTIPLIER[settings.recallMode || "pattern"];
+  const retentionMultiplier = 1 + Math.min(1, (settings.retentionDelay || 0) / 5000);
+  // 1セルあたり1秒を基準に、速く解答するほど最大2倍
+  const speedMultiplier = responseTime !== null ? 1 + Math.max(0, 1 - responseTime / (settings.numActiveCells * 1000)) : 1;
+
+  return Math.round(base * showTimeMultiplier * modeMultiplier * retentionMultiplier * speedMultiplier);
+};
+
+export const createSessionRun = (mode: SessionModeType, settings: GameSettings): SessionRun => ({
+  mode,
+  settingsKey: generateSettingsKey(settings),
+  startedAt: null,
+  endedAt: null,
+  trials: 0,
+  correct: 0,
+  mistakes: 0,
+  streak: 0,
+  bestStreak: 0,
+  score: 0,
+  lastPoints: 0,
+});
+
+// 残り時間（制限時間のないモードはnull）
+export const getSessionTimeRemaining = (run: SessionRun, now: number = Date.now()): number | null => {
+  const { duration } = SESSION_MODES[run.mode];
+  if (duration === null) return null;
+  if (run.startedAt === null) return duration;
+  return Math.max(0, run.startedAt + duration - (run.endedAt ?? now));
+};
+
+export const isSessionOver = (run: SessionRun, now: number = Date.now()): boolean => {
+  if (run.endedAt !== null) return true;
+  const { maxMistakes } = SESSION_MODES[run.mode];
+  if (maxMistakes !== null && run.mistakes >= maxMistakes) return true;
+  return getSessionTimeRemaining(run, now) === 0;
+};
+
+// 採点済みの問題をセッションに反映
+export const updateSessionRun = (run: SessionRun, settings: GameSettings, state: GameEngineState): SessionRun => {
+  if (!state.result || run.endedAt !== null) return run;
+
+  const responseTime = state.recallStartedAt !== null && state.gradedAt !== null ? state.gradedAt - state.recallStartedAt : null;
+  const points = calculateTrialPoints(settings, state.result, responseTime);
+  const streak = state.result.isCorrect ? run.streak + 1 : 0;
+
+  return {
+    ...run,
+    trials: run.trials + 1,
+    correct: run.correct + (state.result.isCorrect ? 1 : 0),
+    mistakes: run.mistakes + (state.result.isCorrect ? 0 : 1),
+    streak,
+    bestStreak: Math.max(run.bestStreak, streak),
+    score: run.score + points,
+    lastPoints: points,
+  };
+};
+
+export const finishSessionRun = (run: SessionRun, now: number = Date.now()): SessionRun => {
+  if (run.endedAt !== null) return run;
+  const { duration } = SESSION_MODES[run.mode];
+  // 制限時間を過ぎてから終了処理が呼ばれた場合も終了時刻は制限時間ちょうどにする
+  const endedAt = duration !== null && run.startedAt !== null ? Math.min(now, run.startedAt + duration) : now;
+  return { ...run, endedAt };
+};
+
+// ローカルストレージからハイスコア表を読み込み
+export const loadHighScoresFromStorage = (): HighScoreTable => {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("sessionHighScores"));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load high scores:", error);
+  }
+
+  return {};
+};
+
+// 終了したセッションをハイスコア表に追加し、順位を返す（圏外はnull）
+export const saveHighScoreToStorage = (run: SessionRun): number | null => {
+  if (typeof window === "undefined" || run.endedAt === null) return null;
+
+  const entry: HighScoreEntry = {
+    id: `${run.mode}-${run.endedAt}`,
+    mode: run.mode,
+    score: run.score,
+    correct: run.correct,
+    trials: run.trials,
+    bestStreak: run.bestStreak,
+    settingsKey: run.settingsKey,
+    date: new Date(run.endedAt).toISOString(),
+  };
+
+  try {
+    const table = loadHighScoresFromStorage();
+    // 同点の場合は先に記録した方を上位とする
+    const entries = [...(table[run.mode] || []).filter((item) => item.id !== entry.id), entry]
+      .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+      .slice(0, MAX_HIGH_SCORES);
+    localStorage.setItem(getProfileStorageKey("sessionHighScores"), JSON.stringify({ ...table, [run.mode]: entries }));
+
+    const rank = entries.findIndex((item) => item.id === entry.id);
+    return rank >= 0 ? rank + 1 : null;
+  } catch (error) {
+    console.error("Failed to save high score:", error);
+  }
+
+  return null;
+};
@@ -0,0 +1,81 @@
+import { GameSettings, DEFAULT_SETTINGS, PWASettingsManager, validateSettings, loadSettingsFromStorage, saveSettingsToStorage } from "./gameSettings";
+import { StorageType } from "./statsStore";
+import { migrateSettingsInStorage } from "./migrations";
+import { getActiveProfileId, getProfileDatabaseName, getProfileStorageKey } from "./profiles";
+
+// 設定の保存先（統計情報と同じ種類の保存先から選択）
+
+export interface SettingsStore {
+  readonly type: StorageType;
+  init(): Promise<void>;
+  // 保存されていない場合はデフォルト設定を返す
+  loadSettings(): Promise<GameSettings>;
+  saveSettings(settings: GameSettings): Promise<void>;
+}
+
+export class MemorySettingsStore implements SettingsStore {
+  readonly type = "memory" as const;
+  private settings: GameSettings | null = null;
+
+  async init(): Promise<void> {}
+
+  async loadSettings(): Promise<GameSettings> {
+    return { ...(this.settings || DEFAULT_SETTINGS) };
+  }
+
+  async saveSettings(settings: GameSettings): Promise<void> {
+    this.settings = validateSettings(settings);
+  }
+}
+
+export class LocalStorageSettingsStore implements SettingsStore {
+  readonly type = "localStorage" as const;
+
+  constructor(private readonly storageKey: string = "gameSettings") {}
+
+  // 旧形式のデータを最新の形式に更新
+  async init(): Promise<void> {
+    migrateSettingsInStorage(this.storageKey);
+  }
+
+  async loadSettings(): Promise<GameSettings> {
+    return loadSettingsFromStorage(this.storageKey);
+  }
+
+  async saveSettings(settings: GameSettings): Promise<void> {
+    saveSettingsToStorage(validateSettings(settings), this.storageKey);
+  }
+}
+
+export class IndexedDBSettingsStore implements SettingsStore {
+  readonly type = "indexeddb" as const;
+  private readonly manager: PWASettingsManager;
+
+  constructor(dbName?: string) {
+    this.manager = new PWASettingsManager(dbName);
+  }
+
+  async init(): Promise<void> {
+    await this.manager.init();
+  }
+
+  async loadSettings(): Promise<GameSettings> {
+    return await this.manager.loadSettings();
+  }
+
+  async saveSettings(settings: GameSettings): Promise<void> {
+    await this.manager.saveSettings(validateSettings(settings));
+  }
+}
+
+// プロフィールごとに別の保存先を作成
+export const createSettingsStore = (type: StorageType, profileId: string = getActiveProfileId()): SettingsStore => {
+  switch (type) {
+    case "indexeddb":
+      return new IndexedDBSettingsStore(getProfileDatabaseName("GameSettingsDB", profileId));
+    case "localStorage":
+      return new LocalStorageSettingsStore(getProfileStorageKey("gameSettings", profileId));
+    default:
+      return new MemorySettingsStore();
+  }
+};
@@ -0,0 +1,148 @@
+import { GameSettings, TrialRecord, toDateKey } from "./gameStats";
+import { recordStorageError } from "./storageHealth";
+
+// 設定の違いを越えて比較できるスキルレーティング（Elo方式）
+// 設定ごとに難易度レーティングを算出し、1問ごとにプレイヤーと設定の「対戦」として更新する。
+// レーティングは統計情報と一緒に保存して解答ごとに更新し、リセット・インポート・環境間の統合の後は解答記録から計算し直す。
+
+export const INITIAL_SKILL_RATING = 1000;
+
+// 暫定期間（最初の解答はレーティングを大きく動かす）
+const PROVISIONAL_TRIALS = 30;
+const PROVISIONAL_K = 48;
+const K_FACTOR = 24;
+
+// 難易度モデルの係数
+const BASE_DIFFICULTY = 800;
+const BITS_WEIGHT = 40; // 覚える情報量1ビットあたり
+const SHOW_TIME_WEIGHT = 150; // 表示時間が半分になるごと
+const REFERENCE_SHOW_TIME = 1000;
+const ANSWER_TIME_WEIGHT = 100; // 1セルあたりの解答時間が基準の半分になるごと
+const REFERENCE_ANSWER_TIME_PER_CELL = 1000;
+const RETENTION_WEIGHT = 60; // 保持時間が倍になるごと（1秒を基準）
+
+const HISTORY_DAYS = 365;
+
+export interface SkillRatingPoint {
+  date: string; // ローカル日付（YYYY-MM-DD）
+  rating: number; // その日の最後の解答後のレーティング
+}
+
+export interface SkillRating {
+  rating: number;
+  peak: number;
+  trials: number;
+  history: SkillRatingPoint[]; // 古い順（プレイした日の直近365日分）
+}
+
+// log2(n!/(n-k)!) と log2(n!/(k!(n-k)!))
+const log2Permutations = (n: number, k: number): number => {
+  let bits = 0;
+  for (let i = 0; i < k; i++) bits += Math.log2(n - i);
+  return bits;
+};
+
+const log2Combinations = (n: number, k: number): number => {
+  return log2Permutations(n, k) - log2Permutations(k, k);
+};
+
+// 覚える情報量（ビット）。順序モードでは並び順も覚える必要がある
+export const calculatePatternBits = (settings: GameSettings): number => {
+  const cells = settings.gridSize * settings.gridSize;
+  const count = Math.min(settings.numActiveCells, cells);
+  const isSequence = settings.recallMode === "sequence" || settings.recallMode === "reverse";
+  return isSequence ? log2Permutations(cells, count) : log2Combinations(cells, count);
+};
+
+// 設定の難易度レーティング（グリッドサイズ・セル数・表示時間・解答時間・保持時間から算出）
+export const calculateDifficultyRating = (settings: GameSettings): number => {
+  const bits = calculatePatternBits(settings);
+  const showTimePenalty = Math.log2(REFERENCE_SHOW_TIME / Math.max(1, settings.showTime));
+  const answerTimePenalty =
+    settings.answerTime > 0 ? Math.max(0, Math.log2((REFERENCE_ANSWER_TIME_PER_CELL * settings.numActiveCells) / settings.answerTime)) : 0;
+  const retentionPenalty = (settings.retentionDelay || 0) > 0 ? Math.log2(1 + (settings.retentionDelay || 0) / 1000) : 0;
+
+  return Math.round(
+    BASE_DIFFICULTY +
+      BITS_WEIGHT * bits +
+      SHOW_TIME_WEIGHT * showTimePenalty +
+      ANSWER_TIME_WEIGHT * answerTimePenalty +
+      RETENTION_WEIGHT * retentionPenalty,
+  );
+};
+
+// レーティングの差から予想される正答率（0〜1）
+export const expectedScore = (rating: number, difficulty: number): number => {
+  return 1 / (1 + Math.pow(10, (difficulty - rating) / 400));
+};
+
+export const initializeSkillRating = (): SkillRating => ({
+  rating: INITIAL_SKILL_RATING,
+  peak: INITIAL_SKILL_RATING,
+  trials: 0,
+  history: [],
+});
+
+// スキルレーティング（解答を保存するたびに更新し、プロフィールごとに保存）
+export const loadSkillRatingFromStorage = (storageKey: string = "skillRating"): SkillRating | null => {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load skill rating:", error);
+  }
+
+  return null;
+};
+
+export const saveSkillRatingToStorage = (skillRating: SkillRating | null, storageKey: string = "skillRating"): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    if (skillRating) {
+      localStorage.setItem(storageKey, JSON.stringify(skillRating));
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  } catch (error) {
+    console.error("Failed to save skill rating:", error);
+    recordStorageError("Save skill rating", error);
+  }
+};
+
+export const isProvisionalRating = (skillRating: SkillRating): boolean => {
+  return skillRating.trials < PROVISIONAL_TRIALS;
+};
+
+// 1問の結果でレーティングを更新
+export const updateSkillRating = (current: SkillRating, settings: GameSettings, isCorrect: boolean, playedAt: number = Date.now()): SkillRating => {
+  const k = current.trials < PROVISIONAL_TRIALS ? PROVISIONAL_K : K_FACTOR;
+  const expected = expectedScore(current.rating, calculateDifficultyRating(settings));
+  const rating = Math.round(current.rating + k * ((isCorrect ? 1 : 0) - expected));
+
+  // 同じ日の記録は最後の値で上書き
+  const date = toDateKey(playedAt);
+  const last = current.history[current.history.length - 1];
+  const history = last && last.date === date ? [...current.history.slice(0, -1), { date, rating }] : [...current.history, { date, rating }];
+
+  return {
+    rating,
+    // 暫定期間中の最高記録は残さない
+    peak: current.trials + 1 < PROVISIONAL_TRIALS ? rating : Math.max(current.peak, rating),
+    trials: current.trials + 1,
+    history: history.slice(-HISTORY_DAYS),
+  };
+};
+
+// 解答記録からレーティングを計算（Retryは同じ問題の再挑戦なので除く）
+// 圧縮して削除した解答記録の分は、圧縮時点のレーティングから続けて計算する。
+export const calculateSkillRatingFromTrials = (records: TrialRecord[], initial: SkillRating = initializeSkillRating()): SkillRating => {
+  return records
+    .filter((record) => !record.isRetry)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .reduce((rating, record) => updateSkillRating(rating, record.settings, record.isCorrect, record.timestamp), initial);
+};
@@ -0,0 +1,60 @@
+// 他のタブへの統計情報の変更通知
+// BroadcastChannelが使えない環境では、ローカルストレージへの書き込みで発生するstorageイベントを使用する。
+// どちらも送信したタブ自身には届かない。
+
+export interface StatsChange {
+  profileId: string; // 変更されたプロフィール
+  settingsKey: string | null; // 複数の設定キーにまたがる変更（リセット・インポートなど）はnull
+}
+
+const CHANNEL_NAME = "gridrecall-stats";
+const NOTIFY_STORAGE_KEY = "gridrecallStatsChange";
+
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel === undefined) {
+    channel = typeof window !== "undefined" && "BroadcastChannel" in window ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+};
+
+export const notifyStatsChanged = (change: StatsChange): void => {
+  if (typeof window === "undefined") return;
+
+  const broadcast = getChannel();
+  if (broadcast) {
+    broadcast.postMessage(change);
+    return;
+  }
+
+  try {
+    // 同じ値ではstorageイベントが発生しないため時刻を付与
+    localStorage.setItem(NOTIFY_STORAGE_KEY, JSON.stringify({ ...change, changedAt: Date.now() }));
+  } catch (error) {
+    console.error("Failed to notify stats change:", error);
+  }
+};
+
+// 変更通知を購読し、購読を解除する関数を返す
+export const subscribeToStatsChanges = (listener: (change: StatsChange) => void): (() => void) => {
+  if (typeof window === "undefined") return () => {};
+
+  const broadcast = getChannel();
+  if (broadcast) {
+    const handleMessage = (event: MessageEvent<StatsChange>) => listener(event.data);
+    broadcast.addEventListener("message", handleMessage);
+    return () => broadcast.removeEventListener("message", handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== NOTIFY_STORAGE_KEY || !event.newValue) return;
+    try {
+      listener(JSON.parse(event.newValue));
+    } catch (error) {
+      console.error("Failed to read stats change:", error);
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+};
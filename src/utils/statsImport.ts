@@ -0,0 +1,356 @@
+import { GameStats, GameStatsMap, MAX_RECENT_ANSWERS } from "./gameStats";
+import { RECALL_MODES, RETENTION_MASKS, RecallMode, RetentionMask } from "./gameSettings";
+import { STATS_MIGRATIONS, migrateRecord } from "./migrations";
+
+// 統計情報のインポート（検証・差分のプレビュー・既存データとのマージ）
+
+// replace: 設定キーごとにインポートしたデータで置き換える
+// keepNewer: 最後に解答した時刻が新しい方を残す（時刻がない場合は解答数が多い方）
+// combine: 解答数を合算し、最高連続正解数・最高正答率は大きい方を採用する
+export type StatsImportStrategy = "replace" | "keepNewer" | "combine";
+
+export const STATS_IMPORT_STRATEGIES: { value: StatsImportStrategy; label: string; description: string }[] = [
+  { value: "keepNewer", label: "Keep newer", description: "Keep whichever side was played more recently" },
+  { value: "combine", label: "Combine", description: "Add up totals and keep the best streak and accuracy" },
+  { value: "replace", label: "Replace", description: "Overwrite existing stats with the imported ones" },
+];
+
+export interface StatsImportOptions {
+  strategy?: StatsImportStrategy;
+  dryRun?: boolean; // trueの場合は保存せずに変更内容だけを返す
+}
+
+export type StatsImportChangeType = "added" | "updated" | "unchanged";
+
+export interface StatsImportChange {
+  settingsKey: string;
+  type: StatsImportChangeType;
+  before: GameStats | null;
+  after: GameStats;
+}
+
+export interface StatsImportPreview {
+  strategy: StatsImportStrategy;
+  changes: StatsImportChange[];
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+// 検証エラー（errorsに問題のある箇所ごとのメッセージを保持）
+export class StatsImportError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid stats data:\n${errors.join("\n")}`);
+    this.name = "StatsImportError";
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+export const isCount = (value: unknown): value is number => {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+};
+
+const SCORE_FIELDS = ["hits", "misses", "falseAlarms", "correctRejections"] as const;
+
+// ヒット・ミス・誤答の内訳を検証
+const validateScore = (score: unknown, path: string): string[] => {
+  if (!isPlainObject(score)) {
+    return [`${path}: expected an object, got ${describeType(score)}`];
+  }
+
+  return SCORE_FIELDS.filter((field) => !isCount(score[field])).map(
+    (field) => `${path}.${field}: expected a non-negative integer, got ${JSON.stringify(score[field])}`,
+  );
+};
+
+// 1件の統計情報を検証（旧形式で存在しない項目は省略可）
+const validateStats = (stats: unknown, path: string): string[] => {
+  if (!isPlainObject(stats)) {
+    return [`${path}: expected an object, got ${describeType(stats)}`];
+  }
+
+  const errors: string[] = [];
+  const expectCount = (field: string, optional: boolean = false) => {
+    const value = stats[field];
+    if (value === undefined && optional) return;
+    if (!isCount(value)) {
+      errors.push(`${path}.${field}: expected a non-negative integer, got ${JSON.stringify(value)}`);
+    }
+  };
+
+  expectCount("totalChallenges");
+  expectCount("maxConsecutiveCorrect");
+  expectCount("currentConsecutiveCorrect");
+  expectCount("timeouts", true);
+  expectCount("lastPlayedAt", true);
+
+  if (stats.bestAccuracy !== undefined) {
+    const bestAccuracy = stats.bestAccuracy;
+    if (typeof bestAccuracy !== "number" || !(bestAccuracy >= 0 && bestAccuracy <= 100)) {
+      errors.push(`${path}.bestAccuracy: expected a number between 0 and 100, got ${JSON.stringify(bestAccuracy)}`);
+    }
+  }
+
+  if (!Array.isArray(stats.recentAnswers)) {
+    errors.push(`${path}.recentAnswers: expected an array, got ${describeType(stats.recentAnswers)}`);
+  } else {
+    if (stats.recentAnswers.length > MAX_RECENT_ANSWERS) {
+      errors.push(`${path}.recentAnswers: expected at most ${MAX_RECENT_ANSWERS} entries, got ${stats.recentAnswers.length}`);
+    }
+    stats.recentAnswers.forEach((answer, index) => {
+      if (typeof answer !== "boolean") {
+        errors.push(`${path}.recentAnswers[${index}]: expected a boolean, got ${JSON.stringify(answer)}`);
+      }
+    });
+    if (isCount(stats.totalChallenges) && stats.recentAnswers.length > stats.totalChallenges) {
+      errors.push(`${path}.recentAnswers: has ${stats.recentAnswers.length} entries but totalChallenges is ${stats.totalChallenges}`);
+    }
+  }
+
+  if (stats.recentScores !== undefined) {
+    if (!Array.isArray(stats.recentScores)) {
+      errors.push(`${path}.recentScores: expected an array, got ${describeType(stats.recentScores)}`);
+    } else {
+      if (stats.recentScores.length > MAX_RECENT_ANSWERS) {
+        errors.push(`${path}.recentScores: expected at most ${MAX_RECENT_ANSWERS} entries, got ${stats.recentScores.length}`);
+      }
+      stats.recentScores.forEach((score, index) => {
+        errors.push(...validateScore(score, `${path}.recentScores[${index}]`));
+      });
+    }
+  }
+
+  if (
+    isCount(stats.currentConsecutiveCorrect) &&
+    isCount(stats.maxConsecutiveCorrect) &&
+    stats.currentConsecutiveCorrect > stats.maxConsecutiveCorrect
+  ) {
+    errors.push(`${path}.currentConsecutiveCorrect: ${stats.currentConsecutiveCorrect} exceeds maxConsecutiveCorrect ${stats.maxConsecutiveCorrect}`);
+  }
+
+  return errors;
+};
+
+// 解答記録の設定を検証（旧形式で存在しない項目は省略可）
+const validateTrialSettings = (settings: unknown, path: string): string[] => {
+  if (!isPlainObject(settings)) {
+    return [`${path}: expected an object, got ${describeType(settings)}`];
+  }
+
+  const errors: string[] = [];
+  (["gridSize", "showTime", "numActiveCells"] as const).forEach((field) => {
+    if (!isCount(settings[field]) || settings[field] === 0) {
+      errors.push(`${path}.${field}: expected a positive integer, got ${JSON.stringify(settings[field])}`);
+    }
+  });
+  if (!isCount(settings.answerTime)) {
+    errors.push(`${path}.answerTime: expected a non-negative integer, got ${JSON.stringify(settings.answerTime)}`);
+  }
+  if (settings.retentionDelay !== undefined && !isCount(settings.retentionDelay)) {
+    errors.push(`${path}.retentionDelay: expected a non-negative integer, got ${JSON.stringify(settings.retentionDelay)}`);
+  }
+  if (settings.recallMode !== undefined && !RECALL_MODES.includes(settings.recallMode as RecallMode)) {
+    errors.push(`${path}.recallMode: expected one of ${RECALL_MODES.join(", ")}, got ${JSON.stringify(settings.recallMode)}`);
+  }
+  if (settings.retentionMask !== undefined && !RETENTION_MASKS.includes(settings.retentionMask as RetentionMask)) {
+    errors.push(`${path}.retentionMask: expected one of ${RETENTION_MASKS.join(", ")}, got ${JSON.stringify(settings.retentionMask)}`);
+  }
+  return errors;
+};
+
+// セル番号の配列を検証（グリッドの範囲内）
+const validateCells = (cells: unknown, cellCount: number | null, path: string): string[] => {
+  if (!Array.isArray(cells)) {
+    return [`${path}: expected an array, got ${describeType(cells)}`];
+  }
+
+  return cells.flatMap((cell, index) =>
+    isCount(cell) && (cellCount === null || cell < cellCount) ? [] : [`${path}[${index}]: expected a cell index, got ${JSON.stringify(cell)}`],
+  );
+};
+
+// 1件の解答記録を検証（旧形式で存在しない項目は省略可）
+export const validateTrialRecord = (record: unknown, path: string): string[] => {
+  if (!isPlainObject(record)) {
+    return [`${path}: expected an object, got ${describeType(record)}`];
+  }
+
+  const errors: string[] = [];
+  const expectBoolean = (field: string) => {
+    if (typeof record[field] !== "boolean") {
+      errors.push(`${path}.${field}: expected a boolean, got ${JSON.stringify(record[field])}`);
+    }
+  };
+
+  if (typeof record.id !== "string" || record.id === "") {
+    errors.push(`${path}.id: expected a non-empty string, got ${JSON.stringify(record.id)}`);
+  }
+  if (!isCount(record.timestamp)) {
+    errors.push(`${path}.timestamp: expected a non-negative integer, got ${JSON.stringify(record.timestamp)}`);
+  }
+  if (typeof record.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(record.date)) {
+    errors.push(`${path}.date: expected a YYYY-MM-DD date, got ${JSON.stringify(record.date)}`);
+  }
+  if (typeof record.settingsKey !== "string" || record.settingsKey === "") {
+    errors.push(`${path}.settingsKey: expected a non-empty string, got ${JSON.stringify(record.settingsKey)}`);
+  }
+
+  const settingsErrors = validateTrialSettings(record.settings, `${path}.settings`);
+  errors.push(...settingsErrors);
+  const settings = record.settings as Record<string, unknown>;
+  const cellCount = settingsErrors.length === 0 ? (settings.gridSize as number) ** 2 : null;
+
+  if (record.seed !== null && typeof record.seed !== "number") {
+    errors.push(`${path}.seed: expected a number or null, got ${JSON.stringify(record.seed)}`);
+  }
+  errors.push(...validateCells(record.solution, cellCount, `${path}.solution`));
+  errors.push(...validateCells(record.response, cellCount, `${path}.response`));
+  expectBoolean("isCorrect");
+  expectBoolean("timedOut");
+  expectBoolean("isRetry");
+  errors.push(...validateScore(record.score, `${path}.score`));
+
+  if (record.responseTime !== null && !(typeof record.responseTime === "number" && record.responseTime >= 0)) {
+    errors.push(`${path}.responseTime: expected a non-negative number or null, got ${JSON.stringify(record.responseTime)}`);
+  }
+  if (record.taps !== undefined) {
+    if (!Array.isArray(record.taps)) {
+      errors.push(`${path}.taps: expected an array, got ${describeType(record.taps)}`);
+    } else {
+      record.taps.forEach((tap, index) => {
+        if (!isPlainObject(tap) || !isCount(tap.cell) || typeof tap.time !== "number" || tap.time < 0) {
+          errors.push(`${path}.taps[${index}]: expected { cell, time }, got ${JSON.stringify(tap)}`);
+        }
+      });
+    }
+  }
+
+  return errors;
+};
+
+// 設定キーごとの統計情報を検証し、最新の形式に変換
+export const validateStatsMap = (data: unknown): { statsMap: GameStatsMap; errors: string[] } => {
+  if (!isPlainObject(data)) {
+    return { statsMap: {}, errors: [`expected an object of stats keyed by settings, got ${describeType(data)}`] };
+  }
+
+  const errors: string[] = [];
+  const statsMap: GameStatsMap = {};
+
+  Object.entries(data).forEach(([settingsKey, stats]) => {
+    const path = JSON.stringify(settingsKey);
+    if (settingsKey.trim() === "") {
+      errors.push(`${path}: settings key must not be empty`);
+      return;
+    }
+
+    const statsErrors = validateStats(stats, path);
+    if (statsErrors.length > 0) {
+      errors.push(...statsErrors);
+      return;
+    }
+
+    // エクスポートされたデータの形式のバージョンは不明なため、全てのマイグレーションを適用
+    statsMap[settingsKey] = migrateRecord<GameStats>(stats, 1, STATS_MIGRATIONS);
+  });
+
+  return { statsMap, errors };
+};
+
+// JSON文字列を解析して検証（問題がある場合はStatsImportErrorを投げる）
+export const parseStatsImport = (jsonData: string): GameStatsMap => {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonData);
+  } catch (error) {
+    throw new StatsImportError([`not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  const { statsMap, errors } = validateStatsMap(data);
+  if (errors.length > 0) {
+    throw new StatsImportError(errors);
+  }
+  return statsMap;
+};
+
+// 新しい方を判定（時刻がない旧データは解答数で比較、同じ場合は既存データを優先）
+const isIncomingNewer = (existing: GameStats, incoming: GameStats): boolean => {
+  if (existing.lastPlayedAt !== undefined && incoming.lastPlayedAt !== undefined) {
+    return incoming.lastPlayedAt > existing.lastPlayedAt;
+  }
+  return incoming.totalChallenges > existing.totalChallenges;
+};
+
+// 2つの統計情報を合算（直近の記録は古い方→新しい方の順に並べて100問分を残す）
+const combineStats = (existing: GameStats, incoming: GameStats): GameStats => {
+  const [older, newer] = isIncomingNewer(existing, incoming) ? [existing, incoming] : [incoming, existing];
+  const lastPlayedAt = Math.max(existing.lastPlayedAt ?? 0, incoming.lastPlayedAt ?? 0);
+
+  return {
+    totalChallenges: existing.totalChallenges + incoming.totalChallenges,
+    recentAnswers: [...older.recentAnswers, ...newer.recentAnswers].slice(-MAX_RECENT_ANSWERS),
+    maxConsecutiveCorrect: Math.max(existing.maxConsecutiveCorrect, incoming.maxConsecutiveCorrect),
+    currentConsecutiveCorrect: newer.currentConsecutiveCorrect,
+    bestAccuracy: Math.max(existing.bestAccuracy, incoming.bestAccuracy),
+    recentScores: [...(older.recentScores || []), ...(newer.recentScores || [])].slice(-MAX_RECENT_ANSWERS),
+    timeouts: (existing.timeouts || 0) + (incoming.timeouts || 0),
+    ...(lastPlayedAt > 0 ? { lastPlayedAt } : {}),
+  };
+};
+
+export const mergeStats = (existing: GameStats | null, incoming: GameStats, strategy: StatsImportStrategy): GameStats => {
+  if (!existing) return incoming;
+
+  switch (strategy) {
+    case "replace":
+      return incoming;
+    case "keepNewer":
+      return isIncomingNewer(existing, incoming) ? incoming : existing;
+    case "combine":
+      return combineStats(existing, incoming);
+  }
+};
+
+// 保存時のプロパティの順序に依存せずに比較
+export const isSameStats = (a: GameStats, b: GameStats): boolean => {
+  const normalize = (stats: GameStats) =>
+    JSON.stringify([
+      stats.totalChallenges,
+      stats.recentAnswers,
+      stats.maxConsecutiveCorrect,
+      stats.currentConsecutiveCorrect,
+      stats.bestAccuracy,
+      (stats.recentScores || []).map((score) => SCORE_FIELDS.map((field) => score[field])),
+      stats.timeouts || 0,
+      stats.lastPlayedAt,
+    ]);
+  return normalize(a) === normalize(b);
+};
+
+// インポートした場合の設定キーごとの変更内容（インポートデータにないキーは変更しない）
+// combineは同じファイルを2回インポートすると二重に加算されるため、プレビューで確認すること。
+export const previewStatsImport = (existingMap: GameStatsMap, incomingMap: GameStatsMap, strategy: StatsImportStrategy): StatsImportPreview => {
+  const changes = Object.entries(incomingMap).map(([settingsKey, incoming]): StatsImportChange => {
+    const before = existingMap[settingsKey] || null;
+    const after = mergeStats(before, incoming, strategy);
+    const type: StatsImportChangeType = !before ? "added" : isSameStats(before, after) ? "unchanged" : "updated";
+    return { settingsKey, type, before, after };
+  });
+
+  return {
+    strategy,
+    changes,
+    added: changes.filter((change) => change.type === "added").length,
+    updated: changes.filter((change) => change.type === "updated").length,
+    unchanged: changes.filter((change) => change.type === "unchanged").length,
+  };
+};
@@ -0,0 +1,98 @@
+import { GameSettings, GameStats, GameStatsMap, TrialRecord, parseSettingsKey } from "./gameStats";
+import { RecallMode } from "./gameSettings";
+import { isDailyStatsKey } from "./dailyChallenge";
+import { calculateDifficultyRating } from "./skillRating";
+import { DEFAULT_STATS_WINDOW, StatsWindowId, WindowStats, calculateWindowStats } from "./statsWindows";
+import { TrialArchive, selectArchivedSettings } from "./trialArchive";
+
+// 全設定の統計情報の一覧（統計ページ用）
+
+export interface StatsBucket {
+  settingsKey: string;
+  settings: GameSettings | null; // デイリーチャレンジなど設定から生成していないキーはnull
+  isDaily: boolean;
+  stats: GameStats;
+  window: WindowStats; // 選択した範囲の正答率と信頼区間
+  difficulty: number | null; // 難易度レーティング（設定のないキーはnull）
+}
+
+export type StatsSortKey = "lastPlayed" | "accuracy" | "bestStreak" | "totalChallenges" | "difficulty";
+
+export const STATS_SORT_OPTIONS: { value: StatsSortKey; label: string }[] = [
+  { value: "lastPlayed", label: "Last played" },
+  { value: "accuracy", label: "Accuracy" },
+  { value: "bestStreak", label: "Best streak" },
+  { value: "totalChallenges", label: "Total challenges" },
+  { value: "difficulty", label: "Difficulty" },
+];
+
+export interface StatsBucketFilter {
+  gridSize?: number;
+  recallMode?: RecallMode;
+  includeDaily: boolean;
+  minChallenges: number;
+}
+
+export const buildStatsBuckets = (
+  statsMap: GameStatsMap,
+  records: TrialRecord[] = [],
+  windowId: StatsWindowId = DEFAULT_STATS_WINDOW,
+  now: number = Date.now(),
+  archive: TrialArchive | null = null,
+): StatsBucket[] => {
+  // 解答記録を設定ごとに分ける
+  const recordsByKey = new Map<string, TrialRecord[]>();
+  records.forEach((record) => {
+    const group = recordsByKey.get(record.settingsKey);
+    if (group) {
+      group.push(record);
+    } else {
+      recordsByKey.set(record.settingsKey, [record]);
+    }
+  });
+
+  return Object.entries(statsMap).map(([settingsKey, stats]) => {
+    const settings = parseSettingsKey(settingsKey);
+    return {
+      settingsKey,
+      settings,
+      isDaily: isDailyStatsKey(settingsKey),
+      stats,
+      window: calculateWindowStats(recordsByKey.get(settingsKey) || [], windowId, stats, now, selectArchivedSettings(archive, settingsKey)),
+      difficulty: settings ? calculateDifficultyRating(settings) : null,
+    };
+  });
+};
+
+export const filterStatsBuckets = (buckets: StatsBucket[], filter: StatsBucketFilter): StatsBucket[] => {
+  return buckets.filter((bucket) => {
+    if (bucket.stats.totalChallenges < filter.minChallenges) return false;
+    if (bucket.isDaily) return filter.includeDaily;
+    if (!bucket.settings) return false;
+    if (filter.gridSize !== undefined && bucket.settings.gridSize !== filter.gridSize) return false;
+    if (filter.recallMode !== undefined && (bucket.settings.recallMode || "pattern") !== filter.recallMode) return false;
+    return true;
+  });
+};
+
+// 降順に並べ替え（同じ値は設定キー順）
+export const sortStatsBuckets = (buckets: StatsBucket[], sortKey: StatsSortKey): StatsBucket[] => {
+  const compare = (a: StatsBucket, b: StatsBucket): number => {
+    switch (sortKey) {
+      case "lastPlayed":
+        return (b.stats.lastPlayedAt || 0) - (a.stats.lastPlayedAt || 0);
+      case "accuracy":
+        // 範囲内に問題のない設定は最後
+        return (b.window.accuracy ?? -1) - (a.window.accuracy ?? -1);
+      case "bestStreak":
+        return b.stats.maxConsecutiveCorrect - a.stats.maxConsecutiveCorrect;
+      case "totalChallenges":
+        return b.stats.totalChallenges - a.stats.totalChallenges;
+      case "difficulty":
+        // 設定のないキーは最後
+        return (b.difficulty ?? -1) - (a.difficulty ?? -1);
+    }
+  };
+
+  return [...buckets].sort((a, b) => compare(a, b) || a.settingsKey.localeCompare(b.settingsKey));
+};
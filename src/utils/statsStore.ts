@@ -0,0 +1,414 @@
+import {
+  GameStats,
+  GameStatsMap,
+  TrialRecord,
+  TrialHistoryQuery,
+  filterTrialHistory,
+  getStatsFromStorage,
+  saveStatsToStorage,
+  appendTrialToStorage,
+  clearTrialHistoryInStorage,
+  countTrialsInStorage,
+  getTrialDaysFromStorage,
+  getTrialHistoryFromStorage,
+  migrateTrialHistoryInStorage,
+  updateTrialDayInStorage,
+} from "./gameStats";
+import { PWAStatsDatabase, isPWA } from "./pwaStats";
+import { SkillRating, loadSkillRatingFromStorage, saveSkillRatingToStorage } from "./skillRating";
+import { migrateStatsMapInStorage } from "./migrations";
+import { getActiveProfileId, getProfileDatabaseName, getProfileStorageKey } from "./profiles";
+
+// 統計情報の保存先（どの実装も同じインターフェースで扱う）
+// memory=テストやプライベートブラウズ用、localStorage=Web、indexeddb=PWA
+
+export type StorageType = "memory" | "localStorage" | "indexeddb";
+
+// 更新時刻付きの統計情報（更新時刻が記録されていない旧データはnull）
+export interface StatsEntry {
+  settingsKey: string;
+  stats: GameStats;
+  updatedAt: number | null;
+}
+
+export interface StatsStore {
+  readonly type: StorageType;
+  init(): Promise<void>;
+  getStats(settingsKey: string): Promise<GameStats | null>;
+  getAllStats(): Promise<GameStatsMap>;
+  getStatsEntries(): Promise<StatsEntry[]>;
+  saveStats(settingsKey: string, stats: GameStats): Promise<void>;
+  // 現在の値の読み込みから書き込みまでを他の更新と重ならずに実行し、更新後の値を返す
+  updateStats(settingsKey: string, update: (current: GameStats | null) => GameStats): Promise<GameStats>;
+  // 複数の設定キーをまとめて更新（途中で失敗した場合はどのキーも保存しない）
+  updateManyStats(updates: Record<string, (current: GameStats | null) => GameStats>): Promise<GameStatsMap>;
+  deleteStats(settingsKey: string): Promise<void>;
+  clearStats(): Promise<void>;
+  saveTrial(record: TrialRecord): Promise<void>;
+  // 古い順に返す
+  getTrials(query?: TrialHistoryQuery): Promise<TrialRecord[]>;
+  // 解答記録の数（beforeを指定した場合はその時刻より前の記録のみ。記録を読み込まずに数える）
+  countTrials(before?: number): Promise<number>;
+  deleteTrials(settingsKey: string): Promise<void>;
+  // 指定した時刻より前の解答記録を削除（古い記録の圧縮用）
+  deleteTrialsBefore(before: number): Promise<void>;
+  clearTrials(): Promise<void>;
+  // 保存済みのスキルレーティング（解答ごとに更新する。保存されていない場合はnull）
+  getSkillRating(): Promise<SkillRating | null>;
+  // 現在の値の読み込みから書き込みまでを他の更新と重ならずに実行（nullを返した場合は削除）
+  updateSkillRating(update: (current: SkillRating | null) => SkillRating | null): Promise<SkillRating | null>;
+}
+
+// 保存した値と呼び出し側のオブジェクトを切り離すためのコピー
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// 複数のタブの読み書きが重ならないようにロックを取得して実行（Web Locks APIがない場合はそのまま実行）
+const withStorageLock = async <T>(name: string, callback: () => T): Promise<T> => {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return await navigator.locks.request(name, async () => callback());
+  }
+  return callback();
+};
+
+// 更新時刻を別に記録しない保存先では最後に解答した時刻を更新時刻とする
+const toStatsEntries = (statsMap: GameStatsMap): StatsEntry[] => {
+  return Object.entries(statsMap).map(([settingsKey, stats]) => ({ settingsKey, stats, updatedAt: stats.lastPlayedAt ?? null }));
+};
+
+// ローカルストレージが使えるか（プライベートブラウズでは書き込みが例外になる場合がある）
+export const isLocalStorageAvailable = (): boolean => {
+  if (typeof window === "undefined" || !("localStorage" in window)) return false;
+
+  try {
+    const testKey = "__storageTest__";
+    localStorage.setItem(testKey, testKey);
+    localStorage.removeItem(testKey);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 起動時に使用する保存先を決定
+export const detectStorageType = (): StorageType => {
+  if (isPWA()) return "indexeddb";
+  if (isLocalStorageAvailable()) return "localStorage";
+  return "memory";
+};
+
+// 保存先を初期化（開けない場合はローカルストレージ、それも使えない場合はメモリに切り替え）
+export const openStore = async <T extends { readonly type: StorageType; init(): Promise<void> }>(
+  store: T,
+  create: (type: StorageType) => T,
+): Promise<T> => {
+  try {
+    await store.init();
+    return store;
+  } catch (error) {
+    console.error(`Failed to open ${store.type} store:`, error);
+  }
+
+  const fallback = create(store.type !== "localStorage" && isLocalStorageAvailable() ? "localStorage" : "memory");
+  await fallback.init();
+  return fallback;
+};
+
+export class MemoryStatsStore implements StatsStore {
+  readonly type = "memory" as const;
+  private statsMap: GameStatsMap = {};
+  private trials: TrialRecord[] = [];
+  private skillRating: SkillRating | null = null;
+
+  async init(): Promise<void> {}
+
+  async getStats(settingsKey: string): Promise<GameStats | null> {
+    const stats = this.statsMap[settingsKey];
+    return stats ? clone(stats) : null;
+  }
+
+  async getAllStats(): Promise<GameStatsMap> {
+    return clone(this.statsMap);
+  }
+
+  async getStatsEntries(): Promise<StatsEntry[]> {
+    return toStatsEntries(clone(this.statsMap));
+  }
+
+  async saveStats(settingsKey: string, stats: GameStats): Promise<void> {
+    this.statsMap[settingsKey] = clone(stats);
+  }
+
+  async updateStats(settingsKey: string, update: (current: GameStats | null) => GameStats): Promise<GameStats> {
+    const current = this.statsMap[settingsKey];
+    const updated = update(current ? clone(current) : null);
+    this.statsMap[settingsKey] = clone(updated);
+    return updated;
+  }
+
+  async updateManyStats(updates: Record<string, (current: GameStats | null) => GameStats>): Promise<GameStatsMap> {
+    const updated = Object.fromEntries(
+      Object.entries(updates).map(([settingsKey, update]) => {
+        const current = this.statsMap[settingsKey];
+        return [settingsKey, update(current ? clone(current) : null)];
+      }),
+    );
+    Object.assign(this.statsMap, clone(updated));
+    return updated;
+  }
+
+  async deleteStats(settingsKey: string): Promise<void> {
+    delete this.statsMap[settingsKey];
+  }
+
+  async clearStats(): Promise<void> {
+    this.statsMap = {};
+  }
+
+  async saveTrial(record: TrialRecord): Promise<void> {
+    this.trials = [...this.trials.filter((item) => item.id !== record.id), clone(record)];
+  }
+
+  async getTrials(query: TrialHistoryQuery = {}): Promise<TrialRecord[]> {
+    return clone(filterTrialHistory(this.trials, query));
+  }
+
+  async countTrials(before?: number): Promise<number> {
+    return before === undefined ? this.trials.length : this.trials.filter((record) => record.timestamp < before).length;
+  }
+
+  async deleteTrials(settingsKey: string): Promise<void> {
+    this.trials = this.trials.filter((record) => record.settingsKey !== settingsKey);
+  }
+
+  async deleteTrialsBefore(before: number): Promise<void> {
+    this.trials = this.trials.filter((record) => record.timestamp >= before);
+  }
+
+  async clearTrials(): Promise<void> {
+    this.trials = [];
+  }
+
+  async getSkillRating(): Promise<SkillRating | null> {
+    return this.skillRating ? clone(this.skillRating) : null;
+  }
+
+  async updateSkillRating(update: (current: SkillRating | null) => SkillRating | null): Promise<SkillRating | null> {
+    const updated = update(this.skillRating ? clone(this.skillRating) : null);
+    this.skillRating = updated ? clone(updated) : null;
+    return updated;
+  }
+}
+
+// 保存先のキーを変更すると、実データに影響を与えずに検証できる
+export class LocalStorageStatsStore implements StatsStore {
+  readonly type = "localStorage" as const;
+
+  constructor(
+    private readonly statsKey: string = "gameStatsMap",
+    private readonly trialsKey: string = "gameTrialHistory",
+    private readonly skillRatingKey: string = "skillRating",
+  ) {}
+
+  // 旧形式のデータを最新の形式に更新
+  async init(): Promise<void> {
+    migrateStatsMapInStorage(this.statsKey);
+    migrateTrialHistoryInStorage(this.trialsKey);
+  }
+
+  async getStats(settingsKey: string): Promise<GameStats | null> {
+    return getStatsFromStorage(this.statsKey)[settingsKey] || null;
+  }
+
+  async getAllStats(): Promise<GameStatsMap> {
+    return getStatsFromStorage(this.statsKey);
+  }
+
+  async getStatsEntries(): Promise<StatsEntry[]> {
+    return toStatsEntries(getStatsFromStorage(this.statsKey));
+  }
+
+  async saveStats(settingsKey: string, stats: GameStats): Promise<void> {
+    await withStorageLock(this.statsKey, () => {
+      saveStatsToStorage({ ...getStatsFromStorage(this.statsKey), [settingsKey]: stats }, this.statsKey);
+    });
+  }
+
+  async updateStats(settingsKey: string, update: (current: GameStats | null) => GameStats): Promise<GameStats> {
+    return await withStorageLock(this.statsKey, () => {
+      const statsMap = getStatsFromStorage(this.statsKey);
+      const updated = update(statsMap[settingsKey] || null);
+      saveStatsToStorage({ ...statsMap, [settingsKey]: updated }, this.statsKey);
+      return updated;
+    });
+  }
+
+  async updateManyStats(updates: Record<string, (current: GameStats | null) => GameStats>): Promise<GameStatsMap> {
+    return await withStorageLock(this.statsKey, () => {
+      const statsMap = getStatsFromStorage(this.statsKey);
+      const updated = Object.fromEntries(
+        Object.entries(updates).map(([settingsKey, update]) => [settingsKey, update(statsMap[settingsKey] || null)]),
+      );
+      if (!saveStatsToStorage({ ...statsMap, ...updated }, this.statsKey)) {
+        throw new Error("Failed to save stats");
+      }
+      return updated;
+    });
+  }
+
+  async deleteStats(settingsKey: string): Promise<void> {
+    await withStorageLock(this.statsKey, () => {
+      const statsMap = getStatsFromStorage(this.statsKey);
+      delete statsMap[settingsKey];
+      saveStatsToStorage(statsMap, this.statsKey);
+    });
+  }
+
+  async clearStats(): Promise<void> {
+    await withStorageLock(this.statsKey, () => {
+      localStorage.removeItem(this.statsKey);
+    });
+  }
+
+  async saveTrial(record: TrialRecord): Promise<void> {
+    await withStorageLock(this.trialsKey, () => {
+      if (!appendTrialToStorage(record, this.trialsKey)) {
+        throw new Error("Failed to save trial");
+      }
+    });
+  }
+
+  async getTrials(query: TrialHistoryQuery = {}): Promise<TrialRecord[]> {
+    return filterTrialHistory(getTrialHistoryFromStorage(this.trialsKey, query), query);
+  }
+
+  async countTrials(before?: number): Promise<number> {
+    return countTrialsInStorage(this.trialsKey, before);
+  }
+
+  async deleteTrials(settingsKey: string): Promise<void> {
+    await withStorageLock(this.trialsKey, () => {
+      getTrialDaysFromStorage(this.trialsKey).forEach((date) => {
+        updateTrialDayInStorage(date, (records) => records.filter((record) => record.settingsKey !== settingsKey), this.trialsKey);
+      });
+    });
+  }
+
+  async deleteTrialsBefore(before: number): Promise<void> {
+    await withStorageLock(this.trialsKey, () => {
+      getTrialDaysFromStorage(this.trialsKey).forEach((date) => {
+        updateTrialDayInStorage(date, (records) => records.filter((record) => record.timestamp >= before), this.trialsKey);
+      });
+    });
+  }
+
+  async clearTrials(): Promise<void> {
+    await withStorageLock(this.trialsKey, () => {
+      clearTrialHistoryInStorage(this.trialsKey);
+    });
+  }
+
+  async getSkillRating(): Promise<SkillRating | null> {
+    return loadSkillRatingFromStorage(this.skillRatingKey);
+  }
+
+  async updateSkillRating(update: (current: SkillRating | null) => SkillRating | null): Promise<SkillRating | null> {
+    return await withStorageLock(this.skillRatingKey, () => {
+      const updated = update(loadSkillRatingFromStorage(this.skillRatingKey));
+      saveSkillRatingToStorage(updated, this.skillRatingKey);
+      return updated;
+    });
+  }
+}
+
+export class IndexedDBStatsStore implements StatsStore {
+  readonly type = "indexeddb" as const;
+  private readonly db: PWAStatsDatabase;
+
+  constructor(dbName?: string) {
+    this.db = new PWAStatsDatabase(dbName);
+  }
+
+  async init(): Promise<void> {
+    await this.db.init();
+  }
+
+  async getStats(settingsKey: string): Promise<GameStats | null> {
+    return await this.db.getStats(settingsKey);
+  }
+
+  async getAllStats(): Promise<GameStatsMap> {
+    return await this.db.getAllStats();
+  }
+
+  async getStatsEntries(): Promise<StatsEntry[]> {
+    return await this.db.getStatsEntries();
+  }
+
+  async saveStats(settingsKey: string, stats: GameStats): Promise<void> {
+    await this.db.saveStats(settingsKey, stats);
+  }
+
+  async updateStats(settingsKey: string, update: (current: GameStats | null) => GameStats): Promise<GameStats> {
+    return await this.db.updateStats(settingsKey, update);
+  }
+
+  async updateManyStats(updates: Record<string, (current: GameStats | null) => GameStats>): Promise<GameStatsMap> {
+    return await this.db.updateManyStats(updates);
+  }
+
+  async deleteStats(settingsKey: string): Promise<void> {
+    await this.db.deleteStats(settingsKey);
+  }
+
+  async clearStats(): Promise<void> {
+    await this.db.clearAllStats();
+  }
+
+  async saveTrial(record: TrialRecord): Promise<void> {
+    await this.db.saveTrial(record);
+  }
+
+  async getTrials(query: TrialHistoryQuery = {}): Promise<TrialRecord[]> {
+    return await this.db.getTrials(query);
+  }
+
+  async countTrials(before?: number): Promise<number> {
+    return await this.db.countTrials(before);
+  }
+
+  async deleteTrials(settingsKey: string): Promise<void> {
+    await this.db.deleteTrials(settingsKey);
+  }
+
+  async deleteTrialsBefore(before: number): Promise<void> {
+    await this.db.deleteTrialsBefore(before);
+  }
+
+  async getSkillRating(): Promise<SkillRating | null> {
+    return await this.db.getSkillRating();
+  }
+
+  async updateSkillRating(update: (current: SkillRating | null) => SkillRating | null): Promise<SkillRating | null> {
+    return await this.db.updateSkillRating(update);
+  }
+
+  async clearTrials(): Promise<void> {
+    await this.db.clearAllTrials();
+  }
+}
+
+// プロフィールごとに別の保存先を作成
+export const createStatsStore = (type: StorageType, profileId: string = getActiveProfileId()): StatsStore => {
+  switch (type) {
+    case "indexeddb":
+      return new IndexedDBStatsStore(getProfileDatabaseName("GameStatsDB", profileId));
+    case "localStorage":
+      return new LocalStorageStatsStore(
+        getProfileStorageKey("gameStatsMap", profileId),
+        getProfileStorageKey("gameTrialHistory", profileId),
+        getProfileStorageKey("skillRating", profileId),
+      );
+    default:
+      return new MemoryStatsStore();
+  }
+};
@@ -0,0 +1,185 @@
+import { GameStats, MAX_RECENT_ANSWERS, TrialRecord, toDateKey } from "./gameStats";
+import { getProfileStorageKey } from "./profiles";
+import type { TrialArchive } from "./trialArchive";
+
+// 正答率を集計する範囲（直近N問・今日・今週・全期間）
+// 解答記録から毎回集計し、問題数が少ない場合も信頼区間と一緒に表示する。
+
+export type StatsWindowId = "last20" | "last50" | "last100" | "last500" | "today" | "week" | "all";
+
+export type StatsWindowDefinition = { id: StatsWindowId; label: string } & (
+  | { type: "count"; count: number } // 直近N問
+  | { type: "period"; period: "today" | "week" | "all" } // 期間内のすべての問題
+);
+
+// 正答率と95%信頼区間（Wilsonスコア区間）
+export interface WindowStats {
+  windowId: StatsWindowId;
+  answers: number;
+  correct: number;
+  accuracy: number | null; // %（問題がない場合はnull）
+  lower: number | null; // 信頼区間の下限（%）
+  upper: number | null; // 信頼区間の上限（%）
+}
+
+export const STATS_WINDOWS: StatsWindowDefinition[] = [
+  { id: "last20", label: "Last 20", type: "count", count: 20 },
+  { id: "last50", label: "Last 50", type: "count", count: 50 },
+  { id: "last100", label: "Last 100", type: "count", count: MAX_RECENT_ANSWERS },
+  { id: "last500", label: "Last 500", type: "count", count: 500 },
+  { id: "today", label: "Today", type: "period", period: "today" },
+  { id: "week", label: "This week", type: "period", period: "week" },
+  { id: "all", label: "All time", type: "period", period: "all" },
+];
+
+export const DEFAULT_STATS_WINDOW: StatsWindowId = "last100";
+
+// 95%信頼区間のz値
+const CONFIDENCE_Z = 1.96;
+
+// 信頼区間の幅がこれより広い場合は問題数が少ないことを表示する
+export const WIDE_INTERVAL_THRESHOLD = 30;
+
+export const getStatsWindow = (windowId: StatsWindowId): StatsWindowDefinition => {
+  return (
+    STATS_WINDOWS.find((definition) => definition.id === windowId) || STATS_WINDOWS.find((definition) => definition.id === DEFAULT_STATS_WINDOW)!
+  );
+};
+
+// 期間の開始時刻（今週は月曜日から）
+const getPeriodStart = (period: "today" | "week" | "all", now: number): number => {
+  if (period === "all") return 0;
+
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === "week") start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start.getTime();
+};
+
+// Wilsonスコア区間（正答率が0%や100%に近い場合や問題数が少ない場合も範囲が0〜100%に収まる）
+export const calculateWilsonInterval = (correct: number, answers: number, z: number = CONFIDENCE_Z): { lower: number; upper: number } => {
+  if (answers === 0) return { lower: 0, upper: 1 };
+
+  const p = correct / answers;
+  const denominator = 1 + (z * z) / answers;
+  const center = p + (z * z) / (2 * answers);
+  const margin = z * Math.sqrt((p * (1 - p)) / answers + (z * z) / (4 * answers * answers));
+  return { lower: Math.max(0, (center - margin) / denominator), upper: Math.min(1, (center + margin) / denominator) };
+};
+
+export const summarizeCounts = (windowId: StatsWindowId, correct: number, answers: number): WindowStats => {
+  if (answers === 0) {
+    return { windowId, answers: 0, correct: 0, accuracy: null, lower: null, upper: null };
+  }
+
+  const interval = calculateWilsonInterval(correct, answers);
+  return {
+    windowId,
+    answers,
+    correct,
+    accuracy: Math.round((correct / answers) * 100),
+    lower: Math.round(interval.lower * 100),
+    upper: Math.round(interval.upper * 100),
+  };
+};
+
+export const summarizeAnswers = (windowId: StatsWindowId, answers: boolean[]): WindowStats => {
+  return summarizeCounts(windowId, answers.filter((answer) => answer).length, answers.length);
+};
+
+// 100問の正答率の最高記録と信頼区間
+// 最高記録を出した時点の問題数は保存していないため、直近の問題数（最大100問）で信頼区間を計算する。
+export const calculateBestAccuracyInterval = (stats: GameStats): { accuracy: number; answers: number; lower: number; upper: number } | null => {
+  const answers = stats.recentAnswers.length;
+  if (answers === 0) return null;
+
+  const interval = calculateWilsonInterval(Math.round((stats.bestAccuracy / 100) * answers), answers);
+  return { accuracy: stats.bestAccuracy, answers, lower: Math.round(interval.lower * 100), upper: Math.round(interval.upper * 100) };
+};
+
+// 直近N問に足りない分を圧縮済みの日の集計で新しい日から補う
+// 統計情報の正誤記録で補った分には圧縮済みの解答も含まれるため、その分は集計から除く。
+// 集計の一部のみを使う日は正答数を解答数で按分する（日ごとの合計しか残っていないため）。
+const summarizeArchivedCounts = (
+  definition: Extract<StatsWindowDefinition, { type: "count" }>,
+  answers: boolean[],
+  detailedCount: number,
+  archive: TrialArchive | null,
+): WindowStats => {
+  let correct = answers.filter((answer) => answer).length;
+  let total = answers.length;
+  let skip = Math.max(0, answers.length - detailedCount);
+  const aggregates = archive ? [...archive.aggregates].sort((a, b) => b.date.localeCompare(a.date)) : [];
+
+  for (const aggregate of aggregates) {
+    if (total >= definition.count) break;
+    const skipped = Math.min(skip, aggregate.trials);
+    skip -= skipped;
+    const taken = Math.min(aggregate.trials - skipped, definition.count - total);
+    if (taken <= 0) continue;
+    correct += Math.round((aggregate.correct * taken) / aggregate.trials);
+    total += taken;
+  }
+
+  return summarizeCounts(definition.id, correct, total);
+};
+
+// 範囲内の正誤（Retryは同じ問題の再挑戦なので除く）
+// 解答記録のない旧データは、直近100問までなら統計情報の正誤記録で補う。
+// 圧縮済みの日の集計も含める（archiveには同じ設定キーの集計のみを渡す）。
+export const calculateWindowStats = (
+  records: TrialRecord[],
+  windowId: StatsWindowId,
+  stats?: GameStats,
+  now: number = Date.now(),
+  archive: TrialArchive | null = null,
+): WindowStats => {
+  const definition = getStatsWindow(windowId);
+  // 圧縮済みの期間に削除できずに残った解答記録は集計に含まれているため除く
+  const archivedBefore = archive ? archive.archivedBefore : 0;
+  const sorted = records.filter((record) => !record.isRetry && record.timestamp >= archivedBefore).sort((a, b) => a.timestamp - b.timestamp);
+
+  if (definition.type === "count") {
+    const detailed = sorted.slice(-definition.count).map((record) => record.isCorrect);
+    const recentAnswers = stats ? stats.recentAnswers.slice(-definition.count) : [];
+    const answers = recentAnswers.length > detailed.length ? recentAnswers : detailed;
+    return summarizeArchivedCounts(definition, answers, sorted.length, archive);
+  }
+
+  const since = getPeriodStart(definition.period, now);
+  const answers = sorted.filter((record) => record.timestamp >= since).map((record) => record.isCorrect);
+  const sinceDate = toDateKey(since);
+  const aggregates = archive ? archive.aggregates.filter((aggregate) => aggregate.date >= sinceDate) : [];
+
+  return summarizeCounts(
+    definition.id,
+    answers.filter((answer) => answer).length + aggregates.reduce((sum, aggregate) => sum + aggregate.correct, 0),
+    answers.length + aggregates.reduce((sum, aggregate) => sum + aggregate.trials, 0),
+  );
+};
+
+// 選択した範囲（プロフィールごとに保存）
+export const loadStatsWindowFromStorage = (): StatsWindowId => {
+  if (typeof window === "undefined") return DEFAULT_STATS_WINDOW;
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("statsWindow"));
+    if (stored && STATS_WINDOWS.some((definition) => definition.id === stored)) {
+      return stored as StatsWindowId;
+    }
+  } catch (error) {
+    console.error("Failed to load stats window:", error);
+  }
+
+  return DEFAULT_STATS_WINDOW;
+};
+
+export const saveStatsWindowToStorage = (windowId: StatsWindowId): void => {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(getProfileStorageKey("statsWindow"), windowId);
+  } catch (error) {
+    console.error("Failed to save stats window:", error);
+  }
+};
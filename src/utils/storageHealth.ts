@@ -0,0 +1,143 @@
+import type { StorageType } from "./statsStore";
+
+// 保存容量の診断（使用量・空き容量・永続化の状態・保存の失敗）
+// 空き容量が少なくなるとブラウザがデータを削除する場合があるため、その前に利用者へ知らせる。
+
+export type StorageHealthLevel = "ok" | "low" | "critical";
+
+export interface StorageUsage {
+  storageType: StorageType;
+  usage: number | null; // StorageManagerの推定使用量（バイト、取得できない場合はnull）
+  quota: number | null; // StorageManagerの推定上限（バイト）
+  localStorageBytes: number; // localStorageの使用量（推定）
+  persisted: boolean | null; // 永続化されているか（確認できない場合はnull）
+}
+
+export interface StorageErrorRecord {
+  operation: string;
+  message: string;
+  isQuotaExceeded: boolean;
+  occurredAt: number;
+}
+
+// localStorageの上限はAPIで取得できないため、主要なブラウザの値（5MB）を使う
+export const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+const LOW_SPACE_RATIO = 0.8;
+const CRITICAL_SPACE_RATIO = 0.95;
+
+// 保持する保存の失敗の件数
+const MAX_STORAGE_ERRORS = 20;
+
+const storageErrors: StorageErrorRecord[] = [];
+const storageErrorListeners = new Set<(error: StorageErrorRecord) => void>();
+
+const hasStorageManager = (): boolean => {
+  return typeof navigator !== "undefined" && !!navigator.storage;
+};
+
+// localStorageの使用量（文字列はUTF-16で保存されるため1文字2バイトとして計算）
+export const calculateLocalStorageBytes = (): number => {
+  if (typeof window === "undefined") return 0;
+
+  try {
+    let characters = 0;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key === null) continue;
+      characters += key.length + (localStorage.getItem(key) || "").length;
+    }
+    return characters * 2;
+  } catch (error) {
+    console.error("Failed to measure localStorage usage:", error);
+    return 0;
+  }
+};
+
+export const getStorageUsage = async (storageType: StorageType): Promise<StorageUsage> => {
+  const usage: StorageUsage = { storageType, usage: null, quota: null, localStorageBytes: calculateLocalStorageBytes(), persisted: null };
+  if (!hasStorageManager()) return usage;
+
+  try {
+    if (navigator.storage.estimate) {
+      const estimate = await navigator.storage.estimate();
+      usage.usage = estimate.usage ?? null;
+      usage.quota = estimate.quota ?? null;
+    }
+    if (navigator.storage.persisted) {
+      usage.persisted = await navigator.storage.persisted();
+    }
+  } catch (error) {
+    console.error("Failed to estimate storage:", error);
+  }
+  return usage;
+};
+
+// 使用率（0〜1）。localStorageに保存している場合はlocalStorageの上限に対する割合も考慮する
+export const getStorageUsageRatio = (usage: StorageUsage): number | null => {
+  const ratios: number[] = [];
+  if (usage.usage !== null && usage.quota) ratios.push(usage.usage / usage.quota);
+  if (usage.storageType === "localStorage") ratios.push(usage.localStorageBytes / LOCAL_STORAGE_QUOTA);
+  return ratios.length > 0 ? Math.max(...ratios) : null;
+};
+
+export const getStorageHealthLevel = (usage: StorageUsage, errors: StorageErrorRecord[] = getStorageErrors()): StorageHealthLevel => {
+  const ratio = getStorageUsageRatio(usage);
+  if (errors.some((error) => error.isQuotaExceeded) || (ratio !== null && ratio >= CRITICAL_SPACE_RATIO)) return "critical";
+  if (ratio !== null && ratio >= LOW_SPACE_RATIO) return "low";
+  return "ok";
+};
+
+// 永続化を要求（許可された場合はブラウザが空き容量不足でデータを削除しなくなる）
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!hasStorageManager() || !navigator.storage.persist) return false;
+
+  try {
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.error("Failed to request persistent storage:", error);
+    return false;
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// 容量超過のエラー（DOMExceptionはErrorを継承している）
+export const isQuotaExceededError = (error: unknown): boolean => {
+  return error instanceof Error && (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+};
+
+// 保存の失敗を記録し、画面に知らせる（呼び出し側は従来どおりconsole.errorにも出力する）
+export const recordStorageError = (operation: string, error: unknown): void => {
+  const record: StorageErrorRecord = {
+    operation,
+    message: error instanceof Error ? error.message : String(error),
+    isQuotaExceeded: isQuotaExceededError(error),
+    occurredAt: Date.now(),
+  };
+
+  storageErrors.push(record);
+  if (storageErrors.length > MAX_STORAGE_ERRORS) storageErrors.shift();
+  storageErrorListeners.forEach((listener) => listener(record));
+};
+
+// 新しい順
+export const getStorageErrors = (): StorageErrorRecord[] => {
+  return [...storageErrors].reverse();
+};
+
+export const clearStorageErrors = (): void => {
+  storageErrors.length = 0;
+};
+
+export const subscribeToStorageErrors = (listener: (error: StorageErrorRecord) => void): (() => void) => {
+  storageErrorListeners.add(listener);
+  return () => {
+    storageErrorListeners.delete(listener);
+  };
+};
@@ -0,0 +1,337 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { GameStats, TrialRecord, initializeStats, toDateKey } from "./gameStats";
+import { DEFAULT_SETTINGS, GameSettings } from "./gameSettings";
+import { IndexedDBStatsStore, LocalStorageStatsStore, MemoryStatsStore, StatsStore } from "./statsStore";
+import { initializeSkillRating, updateSkillRating } from "./skillRating";
+import { IndexedDBSettingsStore, LocalStorageSettingsStore, MemorySettingsStore, SettingsStore } from "./settingsStore";
+
+// 保存先の実装が共通の振る舞いを満たすかを検証する適合テスト
+// 新しい保存先を追加した場合は STATS_STORES / SETTINGS_STORES に加え、全てのケースを通すこと。
+
+const createStats = (totalChallenges: number): GameStats => ({
+  ...initializeStats(),
+  totalChallenges,
+  recentAnswers: Array(totalChallenges).fill(true),
+  maxConsecutiveCorrect: totalChallenges,
+  currentConsecutiveCorrect: totalChallenges,
+  bestAccuracy: 100,
+});
+
+const createTrial = (id: string, settingsKey: string, timestamp: number): TrialRecord => ({
+  id,
+  timestamp,
+  date: toDateKey(timestamp),
+  settingsKey,
+  settings: { gridSize: 4, showTime: 500, answerTime: 0, numActiveCells: 5, recallMode: "pattern" },
+  seed: 1,
+  solution: [0, 1, 2, 3, 4],
+  response: [0, 1, 2, 3, 4],
+  isCorrect: true,
+  timedOut: false,
+  score: { hits: 5, misses: 0, falseAlarms: 0, correctRejections: 11 },
+  responseTime: 1200,
+  taps: [],
+  isRetry: false,
+});
+
+const CUSTOM_SETTINGS: GameSettings = {
+  ...DEFAULT_SETTINGS,
+  gridSize: 6,
+  showTime: 800,
+  numActiveCells: 9,
+  recallMode: "reverse",
+  retentionDelay: 1500,
+  retentionMask: "noise",
+};
+
+const STATS_STORES: [string, () => StatsStore][] = [
+  ["memory", () => new MemoryStatsStore()],
+  ["localStorage", () => new LocalStorageStatsStore("conformanceStatsMap", "conformanceTrialHistory")],
+  ["indexeddb", () => new IndexedDBStatsStore("GameStatsDB-conformance")],
+];
+
+const SETTINGS_STORES: [string, () => SettingsStore][] = [
+  ["memory", () => new MemorySettingsStore()],
+  ["localStorage", () => new LocalStorageSettingsStore("conformanceSettings")],
+  ["indexeddb", () => new IndexedDBSettingsStore("GameSettingsDB-conformance")],
+];
+
+// 各ケースごとに新しい保存先を作り、空の状態から実行する
+describe.each(STATS_STORES)("%s stats store", (_type, createStore) => {
+  let store: StatsStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    await store.init();
+    await store.clearStats();
+    await store.clearTrials();
+    await store.updateSkillRating(() => null);
+  });
+
+  it("returns null for an unknown key", async () => {
+    expect(await store.getStats("unknown"), "getStats").toEqual(null);
+  });
+
+  it("round-trips saved stats", async () => {
+    await store.saveStats("4-500-0-5", createStats(3));
+    expect(await store.getStats("4-500-0-5"), "getStats").toEqual(createStats(3));
+  });
+
+  it("overwrites stats saved under the same key", async () => {
+    await store.saveStats("4-500-0-5", createStats(3));
+    await store.saveStats("4-500-0-5", createStats(5));
+    expect(await store.getStats("4-500-0-5"), "getStats").toEqual(createStats(5));
+  });
+
+  it("lists every saved key", async () => {
+    await store.saveStats("4-500-0-5", createStats(1));
+    await store.saveStats("daily-2024-01-01", createStats(2));
+    expect(await store.getAllStats(), "getAllStats").toEqual({ "4-500-0-5": createStats(1), "daily-2024-01-01": createStats(2) });
+  });
+
+  it("does not lose concurrent updates", async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, () =>
+        store.updateStats("a", (current) => ({ ...(current || initializeStats()), totalChallenges: (current?.totalChallenges || 0) + 1 })),
+      ),
+    );
+    expect((await store.getStats("a"))?.totalChallenges, "totalChallenges").toEqual(20);
+  });
+
+  it("returns the value written by updateStats", async () => {
+    await store.saveStats("a", createStats(1));
+    const updated = await store.updateStats("a", (current) => ({ ...current!, totalChallenges: current!.totalChallenges + 1 }));
+    expect(updated.totalChallenges, "updateStats result").toEqual(2);
+    expect(await store.getStats("a"), "getStats").toEqual(updated);
+  });
+
+  it("rejects and keeps the saved stats when the update throws", async () => {
+    await store.saveStats("a", createStats(1));
+    await expect(
+      store.updateStats("a", () => {
+        throw new Error("update failed");
+      }),
+    ).rejects.toThrow("update failed");
+    expect(await store.getStats("a"), "getStats").toEqual(createStats(1));
+  });
+
+  it("updates several keys at once", async () => {
+    await store.saveStats("a", createStats(1));
+    const updated = await store.updateManyStats({
+      a: (current) => createStats(current!.totalChallenges + 1),
+      b: (current) => createStats(current ? 9 : 3),
+    });
+    expect(updated, "updateManyStats result").toEqual({ a: createStats(2), b: createStats(3) });
+    expect(await store.getAllStats(), "getAllStats").toEqual({ a: createStats(2), b: createStats(3) });
+  });
+
+  it("saves none of the keys when one update throws", async () => {
+    await store.saveStats("a", createStats(1));
+    await expect(
+      store.updateManyStats({
+        a: () => createStats(2),
+        b: () => {
+          throw new Error("update failed");
+        },
+      }),
+    ).rejects.toThrow("update failed");
+    expect(await store.getAllStats(), "getAllStats").toEqual({ a: createStats(1) });
+  });
+
+  it("lists stats entries with their update time", async () => {
+    await store.saveStats("a", { ...createStats(1), lastPlayedAt: 1000 });
+    const entries = await store.getStatsEntries();
+    expect(
+      entries.map((entry) => [entry.settingsKey, entry.stats.totalChallenges]),
+      "getStatsEntries",
+    ).toEqual([["a", 1]]);
+    expect(entries[0].updatedAt !== null && entries[0].updatedAt >= 1000, `updatedAt: expected at least 1000, got ${entries[0].updatedAt}`).toBe(
+      true,
+    );
+  });
+
+  it("deletes only the given key", async () => {
+    await store.saveStats("a", createStats(1));
+    await store.saveStats("b", createStats(2));
+    await store.deleteStats("a");
+    expect(await store.getAllStats(), "getAllStats").toEqual({ b: createStats(2) });
+  });
+
+  it("does not share objects with the caller", async () => {
+    const stats = createStats(1);
+    await store.saveStats("a", stats);
+    stats.totalChallenges = 99;
+    const loaded = await store.getStats("a");
+    expect(loaded, "getStats after mutating the saved object").toEqual(createStats(1));
+    loaded!.recentAnswers.push(false);
+    expect(await store.getStats("a"), "getStats after mutating the loaded object").toEqual(createStats(1));
+  });
+
+  it("returns trials oldest first", async () => {
+    await store.saveTrial(createTrial("2", "a", 2000));
+    await store.saveTrial(createTrial("1", "a", 1000));
+    await store.saveTrial(createTrial("3", "a", 3000));
+    expect(
+      (await store.getTrials()).map((record) => record.id),
+      "getTrials",
+    ).toEqual(["1", "2", "3"]);
+  });
+
+  it("round-trips trial records", async () => {
+    await store.saveTrial(createTrial("1", "a", 1000));
+    expect(await store.getTrials(), "getTrials").toEqual([createTrial("1", "a", 1000)]);
+  });
+
+  it("overwrites a trial saved with the same id", async () => {
+    await store.saveTrial(createTrial("1", "a", 1000));
+    await store.saveTrial({ ...createTrial("1", "a", 1000), isCorrect: false });
+    const trials = await store.getTrials();
+    expect(
+      trials.map((record) => [record.id, record.isCorrect]),
+      "getTrials",
+    ).toEqual([["1", false]]);
+  });
+
+  it("filters trials by settings key and time range", async () => {
+    await store.saveTrial(createTrial("1", "a", 1000));
+    await store.saveTrial(createTrial("2", "b", 2000));
+    await store.saveTrial(createTrial("3", "a", 3000));
+    await store.saveTrial(createTrial("4", "a", 4000));
+    expect(
+      (await store.getTrials({ settingsKey: "a" })).map((record) => record.id),
+      "settingsKey",
+    ).toEqual(["1", "3", "4"]);
+    expect(
+      (await store.getTrials({ since: 2000, until: 3000 })).map((record) => record.id),
+      "since/until",
+    ).toEqual(["2", "3"]);
+    expect(
+      (await store.getTrials({ settingsKey: "a", since: 2000 })).map((record) => record.id),
+      "settingsKey + since",
+    ).toEqual(["3", "4"]);
+  });
+
+  it("filters trials saved on different days by time range", async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const start = new Date(2024, 0, 1, 12).getTime();
+    await store.saveTrial(createTrial("1", "a", start));
+    await store.saveTrial(createTrial("2", "a", start + 3 * day));
+    await store.saveTrial(createTrial("3", "a", start + 6 * day));
+    expect(
+      (await store.getTrials({ since: start + day, until: start + 5 * day })).map((record) => record.id),
+      "since/until",
+    ).toEqual(["2"]);
+    await store.deleteTrialsBefore(start + 3 * day);
+    expect(
+      (await store.getTrials()).map((record) => record.id),
+      "getTrials after deleteTrialsBefore",
+    ).toEqual(["2", "3"]);
+  });
+
+  it("counts trials without a time limit and before a given time", async () => {
+    const day = 24 * 60 * 60 * 1000;
+    const start = new Date(2024, 0, 1, 12).getTime();
+    expect(await store.countTrials(), "empty").toEqual(0);
+    await store.saveTrial(createTrial("1", "a", start));
+    await store.saveTrial(createTrial("2", "b", start + day));
+    await store.saveTrial(createTrial("3", "a", start + day + 1000));
+    await store.saveTrial(createTrial("4", "a", start + 10 * day));
+    expect(await store.countTrials(), "all").toEqual(4);
+    expect(await store.countTrials(start + day + 1000), "before").toEqual(2);
+    expect(await store.countTrials(start), "before the first").toEqual(0);
+  });
+
+  it("deletes only the trials of the given key", async () => {
+    await store.saveTrial(createTrial("1", "a", 1000));
+    await store.saveTrial(createTrial("2", "b", 2000));
+    await store.saveTrial(createTrial("3", "a", 3000));
+    await store.saveStats("a", createStats(2));
+    await store.deleteTrials("a");
+    expect(
+      (await store.getTrials()).map((record) => record.id),
+      "getTrials",
+    ).toEqual(["2"]);
+    expect(await store.getStats("a"), "stats after deleteTrials").toEqual(createStats(2));
+  });
+
+  it("deletes only the trials older than the given time", async () => {
+    await store.saveTrial(createTrial("1", "a", 1000));
+    await store.saveTrial(createTrial("2", "b", 2000));
+    await store.saveTrial(createTrial("3", "a", 3000));
+    await store.deleteTrialsBefore(2000);
+    expect(
+      (await store.getTrials()).map((record) => record.id),
+      "getTrials",
+    ).toEqual(["2", "3"]);
+  });
+
+  it("clears stats and trials independently", async () => {
+    await store.saveStats("a", createStats(1));
+    await store.saveTrial(createTrial("1", "a", 1000));
+    await store.clearStats();
+    expect(await store.getAllStats(), "getAllStats after clearStats").toEqual({});
+    expect((await store.getTrials()).length, "trials after clearStats").toEqual(1);
+    await store.saveStats("a", createStats(1));
+    await store.clearTrials();
+    expect(await store.getTrials(), "getTrials after clearTrials").toEqual([]);
+    expect(await store.getAllStats(), "stats after clearTrials").toEqual({ a: createStats(1) });
+  });
+
+  it("returns null when no skill rating is saved", async () => {
+    expect(await store.getSkillRating(), "getSkillRating").toEqual(null);
+  });
+
+  it("updates the skill rating from the saved value", async () => {
+    const settings = createTrial("1", "a", 1000).settings;
+    await store.updateSkillRating((current) => current || initializeSkillRating());
+    const updated = await store.updateSkillRating((current) => (current ? updateSkillRating(current, settings, true, 1000) : null));
+
+    expect(updated!.trials, "trials").toEqual(1);
+    expect(await store.getSkillRating(), "getSkillRating").toEqual(updated);
+  });
+
+  it("deletes the skill rating when the update returns null", async () => {
+    await store.updateSkillRating(() => initializeSkillRating());
+    await store.updateSkillRating(() => null);
+    expect(await store.getSkillRating(), "getSkillRating").toEqual(null);
+  });
+
+  it("rejects and keeps the saved skill rating when the update throws", async () => {
+    const saved = await store.updateSkillRating(() => initializeSkillRating());
+    await expect(
+      store.updateSkillRating(() => {
+        throw new Error("update failed");
+      }),
+    ).rejects.toThrow("update failed");
+    expect(await store.getSkillRating(), "getSkillRating").toEqual(saved);
+  });
+});
+
+describe.each(SETTINGS_STORES)("%s settings store", (_type, createStore) => {
+  let store: SettingsStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    await store.init();
+  });
+
+  it("round-trips saved settings", async () => {
+    await store.saveSettings(CUSTOM_SETTINGS);
+    expect(await store.loadSettings(), "loadSettings").toEqual(CUSTOM_SETTINGS);
+  });
+
+  it("validates settings before saving", async () => {
+    await store.saveSettings({ ...CUSTOM_SETTINGS, gridSize: 99, staircaseUp: 0 });
+    const loaded = await store.loadSettings();
+    expect([loaded.gridSize, loaded.staircaseUp], "loadSettings").toEqual([8, DEFAULT_SETTINGS.staircaseUp]);
+  });
+
+  it("does not share objects with the caller", async () => {
+    const settings = { ...CUSTOM_SETTINGS };
+    await store.saveSettings(settings);
+    settings.gridSize = 3;
+    const loaded = await store.loadSettings();
+    loaded.showTime = 100;
+    expect(await store.loadSettings(), "loadSettings").toEqual(CUSTOM_SETTINGS);
+  });
+});
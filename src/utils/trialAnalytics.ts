@@ -0,0 +1,175 @@
+import { TrialRecord, toDateKey } from "./gameStats";
+import type { TrialArchive } from "./trialArchive";
+
+// 解答記録からの集計（反応時間など）
+
+export interface ResponseTimeStats {
+  count: number;
+  median: number;
+  p25: number;
+  p75: number;
+  p90: number;
+  meanTapInterval: number | null; // タップ間隔の平均（ms）
+}
+
+export interface SpeedAccuracyBin {
+  label: string;
+  minTime: number;
+  maxTime: number;
+  count: number;
+  accuracy: number; // %
+}
+
+// 日ごとの推移（グラフ表示用）
+export interface DailyProgressPoint {
+  date: string; // ローカル日付（YYYY-MM-DD）
+  trials: number;
+  correct: number;
+  accuracy: number; // %
+  bestStreak: number; // その日までの最高連続正解数
+  medianResponseTime: number | null; // ms（計測された解答がない日と圧縮済みの日はnull）
+  meanResponseTime: number | null; // ms（圧縮済みの日は中央値が分からないため平均値を使う。それ以外の日はnull）
+}
+
+// 反応時間の集計対象（Retry・時間切れ・計測なしを除く）
+export const getTimedTrials = (records: TrialRecord[]): TrialRecord[] => {
+  return records.filter((record) => !record.isRetry && !record.timedOut && record.responseTime !== null);
+};
+
+// ソート済みの配列からパーセンタイルを線形補間で算出
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  if (sorted.length === 1) return sorted[0];
+
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const calculateResponseTimeStats = (records: TrialRecord[]): ResponseTimeStats | null => {
+  const trials = getTimedTrials(records);
+  const times = trials.map((record) => record.responseTime as number).sort((a, b) => a - b);
+  if (times.length === 0) return null;
+
+  const intervals: number[] = [];
+  trials.forEach((record) => {
+    const taps = record.taps || [];
+    for (let i = 1; i < taps.length; i++) {
+      intervals.push(taps[i].time - taps[i - 1].time);
+    }
+  });
+
+  return {
+    count: times.length,
+    median: Math.round(percentile(times, 0.5)),
+    p25: Math.round(percentile(times, 0.25)),
+    p75: Math.round(percentile(times, 0.75)),
+    p90: Math.round(percentile(times, 0.9)),
+    meanTapInterval: intervals.length > 0 ? Math.round(intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length) : null,
+  };
+};
+
+// 反応時間の四分位ごとの正答率（速さと正確さのトレードオフ）
+export const calculateSpeedAccuracy = (records: TrialRecord[], binCount: number = 4): SpeedAccuracyBin[] => {
+  const trials = getTimedTrials(records).sort((a, b) => (a.responseTime as number) - (b.responseTime as number));
+  if (trials.length < binCount) return [];
+
+  const bins: SpeedAccuracyBin[] = [];
+  for (let i = 0; i < binCount; i++) {
+    const start = Math.floor((trials.length * i) / binCount);
+    const end = Math.floor((trials.length * (i + 1)) / binCount);
+    const binTrials = trials.slice(start, end);
+    if (binTrials.length === 0) continue;
+
+    const correct = binTrials.filter((record) => record.isCorrect).length;
+    bins.push({
+      label: `Q${i + 1}`,
+      minTime: binTrials[0].responseTime as number,
+      maxTime: binTrials[binTrials.length - 1].responseTime as number,
+      count: binTrials.length,
+      accuracy: Math.round((correct / binTrials.length) * 100),
+    });
+  }
+
+  return bins;
+};
+
+// 解答記録を日ごとに集計（Retryを除き、解答時刻のローカル日付で分ける）
+// 圧縮済みの日は集計から点を作る（archiveには同じ設定キーの集計のみを渡す）。
+// 圧縮済みの日は日をまたいだ連続正解を数えられないためその日の最高連続正解数を使い、反応時間は中央値の代わりに平均を使う。
+export const calculateDailyProgress = (records: TrialRecord[], archive: TrialArchive | null = null): DailyProgressPoint[] => {
+  // 圧縮済みの期間に削除できずに残った解答記録は集計に含まれているため除く
+  const archivedBefore = archive ? archive.archivedBefore : 0;
+  const trials = records.filter((record) => !record.isRetry && record.timestamp >= archivedBefore).sort((a, b) => a.timestamp - b.timestamp);
+
+  const points: DailyProgressPoint[] = [];
+  const responseTimes = new Map<string, number[]>();
+  let streak = 0;
+  let bestStreak = 0;
+
+  // 同じ日の設定ごとの集計をまとめる（集計は日付順）
+  const archivedDays = new Map<
+    string,
+    { trials: number; correct: number; bestStreak: number; responseTimeTotal: number; responseTimeCount: number }
+  >();
+  (archive ? archive.aggregates : []).forEach((aggregate) => {
+    const day = archivedDays.get(aggregate.date) || { trials: 0, correct: 0, bestStreak: 0, responseTimeTotal: 0, responseTimeCount: 0 };
+    day.trials += aggregate.trials;
+    day.correct += aggregate.correct;
+    day.bestStreak = Math.max(day.bestStreak, aggregate.bestStreak || 0);
+    day.responseTimeTotal += aggregate.responseTimeTotal;
+    day.responseTimeCount += aggregate.responseTimeCount;
+    archivedDays.set(aggregate.date, day);
+  });
+  const archivedPoints: DailyProgressPoint[] = [...archivedDays.entries()]
+    .filter(([, day]) => day.trials > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => {
+      bestStreak = Math.max(bestStreak, day.bestStreak);
+      return {
+        date,
+        trials: day.trials,
+        correct: day.correct,
+        accuracy: Math.round((day.correct / day.trials) * 100),
+        bestStreak,
+        medianResponseTime: null,
+        meanResponseTime: day.responseTimeCount > 0 ? Math.round(day.responseTimeTotal / day.responseTimeCount) : null,
+      };
+    });
+
+  trials.forEach((record) => {
+    const date = toDateKey(record.timestamp);
+    let point = points[points.length - 1];
+    if (!point || point.date !== date) {
+      point = { date, trials: 0, correct: 0, accuracy: 0, bestStreak, medianResponseTime: null, meanResponseTime: null };
+      points.push(point);
+      responseTimes.set(date, []);
+    }
+
+    point.trials++;
+    if (record.isCorrect) point.correct++;
+    point.accuracy = Math.round((point.correct / point.trials) * 100);
+
+    streak = record.isCorrect ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+    point.bestStreak = bestStreak;
+
+    if (!record.timedOut && record.responseTime !== null) {
+      responseTimes.get(date)!.push(record.responseTime);
+    }
+  });
+
+  return [
+    ...archivedPoints,
+    ...points.map((point) => {
+      const times = responseTimes.get(point.date)!.sort((a, b) => a - b);
+      return times.length > 0 ? { ...point, medianResponseTime: Math.round(percentile(times, 0.5)) } : point;
+    }),
+  ];
+};
+
+// ミリ秒を秒表示に変換
+export const formatSeconds = (ms: number): string => {
+  return `${(ms / 1000).toFixed(2)}s`;
+};
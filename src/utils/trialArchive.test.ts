@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TrialRecord, initializeStats, toDateKey } from "./gameStats";
+import { MemoryStatsStore } from "./statsStore";
+import { clearStorageErrors } from "./storageHealth";
+import { UnifiedStatsManager } from "./unifiedStatsManager";
+import { calculateBestAccuracyInterval, calculateWindowStats } from "./statsWindows";
+import { calculateDailyProgress } from "./trialAnalytics";
+import { COMPACTION_KEEP_DAYS, compactTrials, getCompactionCutoff, getCompactionKeepDays, selectArchivedSettings } from "./trialArchive";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 30, 12).getTime();
+
+const createTrial = (id: string, daysAgo: number, isCorrect: boolean = true): TrialRecord => ({
+  id,
+  timestamp: NOW - daysAgo * DAY,
+  date: toDateKey(NOW - daysAgo * DAY),
+  settingsKey: "key",
+  settings: { gridSize: 4, showTime: 500, answerTime: 0, numActiveCells: 5, recallMode: "pattern" },
+  seed: 1,
+  solution: [0, 1, 2, 3, 4],
+  response: [0, 1, 2, 3, 4],
+  isCorrect,
+  timedOut: false,
+  score: { hits: 5, misses: 0, falseAlarms: 0, correctRejections: 11 },
+  responseTime: 1000,
+  isRetry: false,
+});
+
+// StorageManagerの推定使用量を差し替える
+const stubStorageUsage = (usage: number, quota: number) => {
+  vi.stubGlobal("navigator", { ...navigator, storage: { estimate: async () => ({ usage, quota }) } });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  clearStorageErrors();
+});
+
+describe("compaction keep window", () => {
+  it("keeps fewer days as storage pressure grows", () => {
+    expect(getCompactionKeepDays("ok")).toBe(COMPACTION_KEEP_DAYS);
+    expect(getCompactionKeepDays("low")).toBeLessThan(getCompactionKeepDays("ok"));
+    expect(getCompactionKeepDays("critical")).toBeLessThan(getCompactionKeepDays("low"));
+  });
+
+  it("does not count trials twice when compacting again", () => {
+    const records = [createTrial("a", 40), createTrial("b", 20, false)];
+    const first = compactTrials(null, records, getCompactionCutoff(NOW, 30));
+    const second = compactTrials(first, records, getCompactionCutoff(NOW, 7));
+
+    expect(second.archivedTrials).toBe(2);
+    expect(second.aggregates.reduce((sum, aggregate) => sum + aggregate.trials, 0)).toBe(2);
+    expect(second.aggregates.reduce((sum, aggregate) => sum + aggregate.correct, 0)).toBe(1);
+  });
+});
+
+describe("UnifiedStatsManager.compactTrialHistory", () => {
+  const createManager = async (records: TrialRecord[]) => {
+    const manager = new UnifiedStatsManager(new MemoryStatsStore(), "compaction-test");
+    for (const record of records) {
+      await manager.saveTrial(record);
+    }
+    return manager;
+  };
+
+  it("compacts nothing from the last 90 days while storage is healthy", async () => {
+    stubStorageUsage(10, 100);
+    const manager = await createManager([createTrial("a", 40), createTrial("b", 3)]);
+
+    const diagnostics = await manager.getStorageDiagnostics(NOW);
+    expect(diagnostics.keepDays).toBe(COMPACTION_KEEP_DAYS);
+    expect(diagnostics.compactableTrials).toBe(0);
+  });
+
+  it("compacts recent trials when storage is almost full", async () => {
+    stubStorageUsage(96, 100);
+    const manager = await createManager([createTrial("a", 40), createTrial("b", 10), createTrial("c", 0)]);
+
+    const diagnostics = await manager.getStorageDiagnostics(NOW);
+    expect(diagnostics.level).toBe("critical");
+    expect(diagnostics.compactableTrials).toBe(2);
+
+    expect(await manager.compactTrialHistory(diagnostics.compactionCutoff)).toBe(2);
+    expect((await manager.getTrialHistory()).map((record) => record.id)).toEqual(["c"]);
+    expect(manager.getTrialArchive()!.archivedTrials).toBe(2);
+  });
+});
+
+describe("archived aggregates in stats", () => {
+  const records = [createTrial("a", 40), createTrial("b", 40, false), createTrial("c", 40), createTrial("d", 1), createTrial("e", 0, false)];
+  const archive = compactTrials(null, records, getCompactionCutoff(NOW, 30));
+  const remaining = records.filter((record) => record.timestamp >= archive.archivedBefore);
+
+  it("counts archived answers in the all-time window", () => {
+    const window = calculateWindowStats(remaining, "all", undefined, NOW, archive);
+    expect(window.answers).toBe(5);
+    expect(window.correct).toBe(3);
+  });
+
+  it("fills count windows with archived answers", () => {
+    const window = calculateWindowStats(remaining, "last20", undefined, NOW, archive);
+    expect(window.answers).toBe(5);
+    expect(window.correct).toBe(3);
+  });
+
+  it("does not count archived answers already in the recent answers twice", () => {
+    const stats = { ...initializeStats(), recentAnswers: [true, false, true, true, false] };
+    expect(calculateWindowStats(remaining, "last20", stats, NOW, archive).answers).toBe(5);
+  });
+
+  it("uses only part of an archived day when the window is full", () => {
+    const older = Array.from({ length: 30 }, (_, index) => createTrial(`old-${index}`, 40, index % 2 === 0));
+    const window = calculateWindowStats([], "last20", undefined, NOW, compactTrials(null, older, getCompactionCutoff(NOW, 30)));
+    expect(window.answers).toBe(20);
+    expect(window.correct).toBe(10);
+  });
+
+  it("does not count archived answers in the today window", () => {
+    expect(calculateWindowStats(remaining, "today", undefined, NOW, archive).answers).toBe(1);
+  });
+
+  it("does not count undeleted archived trials twice", () => {
+    expect(calculateWindowStats(records, "all", undefined, NOW, archive).answers).toBe(5);
+    expect(calculateDailyProgress(records, archive).reduce((sum, point) => sum + point.trials, 0)).toBe(5);
+  });
+
+  it("adds archived days to the daily progress", () => {
+    const progress = calculateDailyProgress(remaining, archive);
+    expect(progress.map((point) => point.trials)).toEqual([3, 1, 1]);
+    expect(progress[0]).toMatchObject({ correct: 2, accuracy: 67, bestStreak: 1, medianResponseTime: null, meanResponseTime: 1000 });
+    expect(progress[1]).toMatchObject({ medianResponseTime: 1000, meanResponseTime: null });
+    expect(progress[1].bestStreak).toBe(1);
+  });
+
+  it("shows the best accuracy with a confidence interval before 100 answers", () => {
+    expect(calculateBestAccuracyInterval(initializeStats())).toBeNull();
+    const best = calculateBestAccuracyInterval({ ...initializeStats(), recentAnswers: [true, true, false, true], bestAccuracy: 100 });
+    expect(best).toMatchObject({ accuracy: 100, answers: 4, upper: 100 });
+    expect(best!.lower).toBeLessThan(60);
+  });
+
+  it("only uses aggregates of the selected settings", () => {
+    expect(selectArchivedSettings(archive, "other")!.aggregates).toEqual([]);
+    expect(calculateWindowStats([], "all", undefined, NOW, selectArchivedSettings(archive, "other")).answers).toBe(0);
+  });
+});
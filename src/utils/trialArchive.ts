@@ -0,0 +1,200 @@
+import { TrialRecord } from "./gameStats";
+import { SkillRating, calculateSkillRatingFromTrials } from "./skillRating";
+import { getProfileStorageKey } from "./profiles";
+import type { StorageHealthLevel } from "./storageHealth";
+
+// 古い解答記録の圧縮（設定ごと・日ごとの集計に置き換えて保存容量を減らす）
+// 統計情報は解答記録とは別に保存しているため、圧縮しても正答率や連続正解数の記録は変わらない。
+
+// 設定ごと・日ごとの集計
+export interface DailyTrialAggregate {
+  date: string; // ローカル日付（YYYY-MM-DD）
+  settingsKey: string;
+  trials: number; // Retryを除く
+  correct: number;
+  timeouts: number;
+  retries: number;
+  responseTimeTotal: number; // 反応時間の合計（ms）
+  responseTimeCount: number;
+  bestStreak?: number; // その日の最高連続正解数（旧データには存在しない）
+}
+
+export interface TrialArchive {
+  archivedBefore: number; // この時刻より前の解答記録は圧縮済み
+  archivedTrials: number; // 圧縮した解答記録の数（Retryを含む）
+  aggregates: DailyTrialAggregate[];
+  skillRating: SkillRating | null; // 圧縮した解答記録までのスキルレーティング
+}
+
+// 圧縮しても詳細な記録を残す日数（推移グラフや連続プレイの判定に使う期間より長くする）
+export const COMPACTION_KEEP_DAYS = 90;
+
+// 空き容量が少ないほど詳細な記録を残す日数を短くする（最近の記録が容量を使っている場合も圧縮できるように）
+const COMPACTION_KEEP_DAYS_BY_LEVEL: Record<StorageHealthLevel, number> = {
+  ok: COMPACTION_KEEP_DAYS,
+  low: 30,
+  critical: 7,
+};
+
+export const getCompactionKeepDays = (level: StorageHealthLevel): number => {
+  return COMPACTION_KEEP_DAYS_BY_LEVEL[level];
+};
+
+// 詳細な記録を残す期間の開始時刻（この時刻より前の記録を圧縮する）
+export const getCompactionCutoff = (now: number = Date.now(), keepDays: number = COMPACTION_KEEP_DAYS): number => {
+  const cutoff = new Date(now);
+  cutoff.setHours(0, 0, 0, 0);
+  cutoff.setDate(cutoff.getDate() - keepDays);
+  return cutoff.getTime();
+};
+
+const getAggregateKey = (aggregate: Pick<DailyTrialAggregate, "date" | "settingsKey">): string => {
+  return `${aggregate.date}|${aggregate.settingsKey}`;
+};
+
+// 解答記録を設定ごと・日ごとに集計
+export const aggregateTrials = (records: TrialRecord[]): DailyTrialAggregate[] => {
+  const aggregates = new Map<string, DailyTrialAggregate>();
+  const streaks = new Map<string, number>();
+
+  // 連続正解数を数えるため古い順に集計する
+  const sorted = [...records].sort((a, b) => a.timestamp - b.timestamp);
+
+  sorted.forEach((record) => {
+    const key = getAggregateKey(record);
+    const aggregate = aggregates.get(key) || {
+      date: record.date,
+      settingsKey: record.settingsKey,
+      trials: 0,
+      correct: 0,
+      timeouts: 0,
+      retries: 0,
+      responseTimeTotal: 0,
+      responseTimeCount: 0,
+      bestStreak: 0,
+    };
+
+    if (record.isRetry) {
+      aggregate.retries++;
+    } else {
+      aggregate.trials++;
+      aggregate.correct += record.isCorrect ? 1 : 0;
+      aggregate.timeouts += record.timedOut ? 1 : 0;
+      if (record.responseTime !== null) {
+        aggregate.responseTimeTotal += record.responseTime;
+        aggregate.responseTimeCount++;
+      }
+      const streak = record.isCorrect ? (streaks.get(key) || 0) + 1 : 0;
+      streaks.set(key, streak);
+      aggregate.bestStreak = Math.max(aggregate.bestStreak || 0, streak);
+    }
+    aggregates.set(key, aggregate);
+  });
+
+  return [...aggregates.values()];
+};
+
+// 同じ日・同じ設定の集計を足し合わせる（日付順）
+export const mergeAggregates = (existing: DailyTrialAggregate[], incoming: DailyTrialAggregate[]): DailyTrialAggregate[] => {
+  const merged = new Map(existing.map((aggregate) => [getAggregateKey(aggregate), { ...aggregate }]));
+
+  incoming.forEach((aggregate) => {
+    const key = getAggregateKey(aggregate);
+    const current = merged.get(key);
+    if (!current) {
+      merged.set(key, { ...aggregate });
+      return;
+    }
+    current.trials += aggregate.trials;
+    current.correct += aggregate.correct;
+    current.timeouts += aggregate.timeouts;
+    current.retries += aggregate.retries;
+    current.responseTimeTotal += aggregate.responseTimeTotal;
+    current.responseTimeCount += aggregate.responseTimeCount;
+    current.bestStreak = Math.max(current.bestStreak || 0, aggregate.bestStreak || 0);
+  });
+
+  return [...merged.values()].sort((a, b) => a.date.localeCompare(b.date) || a.settingsKey.localeCompare(b.settingsKey));
+};
+
+// 指定した時刻より前の解答記録を集計に置き換えた圧縮記録を作成
+// 前回の圧縮の後に削除できずに残った記録は集計済みのため、二重に数えないよう除く。
+export const compactTrials = (archive: TrialArchive | null, records: TrialRecord[], before: number): TrialArchive => {
+  const previousBefore = archive ? archive.archivedBefore : 0;
+  const targets = records.filter((record) => record.timestamp >= previousBefore && record.timestamp < before);
+
+  return {
+    archivedBefore: Math.max(previousBefore, before),
+    archivedTrials: (archive ? archive.archivedTrials : 0) + targets.length,
+    aggregates: mergeAggregates(archive ? archive.aggregates : [], aggregateTrials(targets)),
+    skillRating: targets.length > 0 ? calculateSkillRatingFromTrials(targets, archive?.skillRating || undefined) : archive?.skillRating || null,
+  };
+};
+
+// 2つの圧縮記録をまとめる（バックアップの復元用）
+// 集計には解答記録のようなIDがないため、同じ日・同じ設定の集計は解答数の多い方を使い、同じバックアップを何度復元しても増えないようにする。
+export const mergeArchives = (existing: TrialArchive | null, incoming: TrialArchive): TrialArchive => {
+  if (!existing) return incoming;
+
+  const merged = new Map(existing.aggregates.map((aggregate) => [getAggregateKey(aggregate), aggregate]));
+  incoming.aggregates.forEach((aggregate) => {
+    const key = getAggregateKey(aggregate);
+    const current = merged.get(key);
+    if (!current || aggregate.trials + aggregate.retries > current.trials + current.retries) {
+      merged.set(key, aggregate);
+    }
+  });
+  const aggregates = [...merged.values()].sort((a, b) => a.date.localeCompare(b.date) || a.settingsKey.localeCompare(b.settingsKey));
+  const skillRatings = [existing.skillRating, incoming.skillRating].filter((rating): rating is SkillRating => rating !== null);
+
+  return {
+    archivedBefore: Math.max(existing.archivedBefore, incoming.archivedBefore),
+    archivedTrials: aggregates.reduce((sum, aggregate) => sum + aggregate.trials + aggregate.retries, 0),
+    aggregates,
+    skillRating: skillRatings.length > 0 ? skillRatings.reduce((a, b) => (b.trials > a.trials ? b : a)) : null,
+  };
+};
+
+// 設定キーの集計のみを残す（表示中の設定の正答率や推移の集計用）
+export const selectArchivedSettings = (archive: TrialArchive | null, settingsKey: string): TrialArchive | null => {
+  return archive ? { ...archive, aggregates: archive.aggregates.filter((aggregate) => aggregate.settingsKey === settingsKey) } : null;
+};
+
+// 設定キーの集計を除く（統計のリセット用）
+export const removeArchivedSettings = (archive: TrialArchive, settingsKey: string): TrialArchive => {
+  return { ...archive, aggregates: archive.aggregates.filter((aggregate) => aggregate.settingsKey !== settingsKey) };
+};
+
+// 圧縮記録（プロフィールごとに保存）
+export const loadTrialArchiveFromStorage = (profileId?: string): TrialArchive | null => {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = localStorage.getItem(getProfileStorageKey("trialArchive", profileId));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error("Failed to load trial archive:", error);
+  }
+
+  return null;
+};
+
+// 保存できなかった場合はfalse（圧縮記録を保存できないまま解答記録を削除しないよう、呼び出し側で確認する）
+export const saveTrialArchiveToStorage = (archive: TrialArchive | null, profileId?: string): boolean => {
+  if (typeof window === "undefined") return false;
+
+  try {
+    const key = getProfileStorageKey("trialArchive", profileId);
+    if (archive) {
+      localStorage.setItem(key, JSON.stringify(archive));
+    } else {
+      localStorage.removeItem(key);
+    }
+    return true;
+  } catch (error) {
+    console.error("Failed to save trial archive:", error);
+    return false;
+  }
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, SettingsImportError } from "./gameSettings";
+import { MemorySettingsStore } from "./settingsStore";
+import { UnifiedSettingsManager } from "./unifiedSettingsManager";
+
+const createManager = () => new UnifiedSettingsManager(new MemorySettingsStore(), "settings-test");
+
+describe("settings import", () => {
+  it("saves validated settings", async () => {
+    const manager = createManager();
+    await manager.importSettings(JSON.stringify({ ...DEFAULT_SETTINGS, gridSize: 6, showTime: 50 }));
+    expect(await manager.loadSettings()).toMatchObject({ gridSize: 6, showTime: 100 });
+  });
+
+  it.each(["{not json", "[]", "null", "3"])("rejects %s without saving", async (json) => {
+    const manager = createManager();
+    const before = await manager.loadSettings();
+    await expect(manager.importSettings(json)).rejects.toBeInstanceOf(SettingsImportError);
+    expect(await manager.loadSettings()).toEqual(before);
+  });
+});
@@ -0,0 +1,94 @@
+import { GameSettings, parseSettingsImport } from "./gameSettings";
+import { SettingsStore, createSettingsStore } from "./settingsStore";
+import { StorageType, detectStorageType, isLocalStorageAvailable, openStore } from "./statsStore";
+import { getActiveProfileId } from "./profiles";
+
+// 統合設定管理クラス（保存先は起動時に一度だけ選択し、プロフィールごとに分ける）
+export class UnifiedSettingsManager {
+  private store: SettingsStore | null;
+  private initialized = false;
+
+  constructor(
+    store?: SettingsStore,
+    readonly profileId: string = getActiveProfileId(),
+  ) {
+    this.store = store || null;
+  }
+
+  async init(): Promise<void> {
+    if (this.initialized) return;
+
+    const createStore = (type: StorageType) => createSettingsStore(type, this.profileId);
+    this.store = await openStore(this.store || createStore(detectStorageType()), createStore);
+    this.initialized = true;
+  }
+
+  async saveSettings(settings: GameSettings): Promise<void> {
+    await this.init();
+    await this.store!.saveSettings(settings);
+  }
+
+  async loadSettings(): Promise<GameSettings> {
+    await this.init();
+    return await this.store!.loadSettings();
+  }
+
+  async exportSettings(): Promise<string> {
+    const settings = await this.loadSettings();
+    return JSON.stringify(settings, null, 2);
+  }
+
+  // 設定をインポート（JSONとして読めない場合は何も保存せずにSettingsImportErrorを投げる）
+  async importSettings(jsonData: string): Promise<void> {
+    await this.saveSettings(parseSettingsImport(jsonData));
+  }
+
+  // 環境情報を取得
+  getEnvironmentInfo() {
+    const storageType = this.store ? this.store.type : detectStorageType();
+    const hasIndexedDB = typeof window !== "undefined" && "indexedDB" in window;
+
+    return {
+      isPWA: storageType === "indexeddb",
+      isWeb: storageType !== "indexeddb",
+      hasIndexedDB,
+      hasLocalStorage: isLocalStorageAvailable(),
+      storageType,
+      initialized: this.initialized,
+    };
+  }
+}
+
+// プロフィールごとのインスタンス
+const unifiedSettingsManagers = new Map<string, UnifiedSettingsManager>();
+
+// プロフィールを省略した場合は使用中のプロフィール
+export const getUnifiedSettingsManager = (profileId: string = getActiveProfileId()): UnifiedSettingsManager => {
+  let manager = unifiedSettingsManagers.get(profileId);
+  if (!manager) {
+    manager = new UnifiedSettingsManager(undefined, profileId);
+    unifiedSettingsManagers.set(profileId, manager);
+  }
+  return manager;
+};
+
+// 便利な関数
+export const saveSettings = async (settings: GameSettings): Promise<void> => {
+  const manager = getUnifiedSettingsManager();
+  await manager.saveSettings(settings);
+};
+
+export const loadSettings = async (): Promise<GameSettings> => {
+  const manager = getUnifiedSettingsManager();
+  return await manager.loadSettings();
+};
+
+export const exportSettings = async (): Promise<string> => {
+  const manager = getUnifiedSettingsManager();
+  return await manager.exportSettings();
+};
+
+export const importSettings = async (jsonData: string): Promise<void> => {
+  const manager = getUnifiedSettingsManager();
+  await manager.importSettings(jsonData);
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { TrialRecord } from "./gameStats";
+import { MemoryStatsStore } from "./statsStore";
+import { calculateSkillRatingFromTrials } from "./skillRating";
+import { UnifiedStatsManager } from "./unifiedStatsManager";
+
+const createTrial = (id: string, settingsKey: string, timestamp: number, isCorrect: boolean = true): TrialRecord => ({
+  id,
+  timestamp,
+  date: "2024-01-01",
+  settingsKey,
+  settings: { gridSize: 4, showTime: 500, answerTime: 0, numActiveCells: 5, recallMode: "pattern" },
+  seed: 1,
+  solution: [0, 1, 2, 3, 4],
+  response: isCorrect ? [0, 1, 2, 3, 4] : [5, 6, 7, 8, 9],
+  isCorrect,
+  timedOut: false,
+  score: { hits: 5, misses: 0, falseAlarms: 0, correctRejections: 11 },
+  responseTime: 1200,
+  taps: [],
+  isRetry: false,
+});
+
+const createManager = () => {
+  const store = new MemoryStatsStore();
+  return { store, manager: new UnifiedStatsManager(store, "manager-test") };
+};
+
+describe("skill rating", () => {
+  it("updates the saved rating with each trial", async () => {
+    const { store, manager } = createManager();
+    const records = [createTrial("1", "a", 1000), createTrial("2", "a", 2000, false), createTrial("3", "b", 3000)];
+
+    await manager.saveTrial(records[0]);
+    expect(await manager.getSkillRating()).toEqual(calculateSkillRatingFromTrials(records.slice(0, 1)));
+    for (const record of records.slice(1)) {
+      await manager.saveTrial(record);
+    }
+
+    expect(await store.getSkillRating()).toEqual(calculateSkillRatingFromTrials(records));
+  });
+
+  it("does not count retries", async () => {
+    const { manager } = createManager();
+    await manager.saveTrial(createTrial("1", "a", 1000));
+    const before = await manager.getSkillRating();
+    await manager.saveTrial({ ...createTrial("2", "a", 2000), isRetry: true });
+
+    expect(await manager.getSkillRating()).toEqual(before);
+  });
+
+  it("recalculates the rating after a reset", async () => {
+    const { manager } = createManager();
+    const kept = createTrial("2", "b", 2000);
+    await manager.saveTrial(createTrial("1", "a", 1000));
+    await manager.saveTrial(kept);
+    await manager.getSkillRating();
+
+    await manager.resetStats("a");
+    expect(await manager.getSkillRating()).toEqual(calculateSkillRatingFromTrials([kept]));
+  });
+
+  it("recalculates the rating after importing older trials", async () => {
+    const { manager } = createManager();
+    const records = [createTrial("1", "a", 1000, false), createTrial("2", "a", 2000)];
+    await manager.saveTrial(records[1]);
+    await manager.getSkillRating();
+
+    await manager.importTrials([records[0]]);
+    expect(await manager.getSkillRating()).toEqual(calculateSkillRatingFromTrials(records));
+  });
+});
+
+describe("undo reset", () => {
+  it("keeps answers saved after the reset", async () => {
+    const { manager } = createManager();
+    await manager.saveStatsByKey("a", true);
+    await manager.saveStatsByKey("a", true);
+    await manager.saveTrial(createTrial("1", "a", 1000));
+    await manager.resetStats("a");
+
+    await manager.saveStatsByKey("a", false);
+    await manager.saveTrial(createTrial("2", "a", 2000, false));
+    expect(await manager.undoReset()).toBe(true);
+
+    const stats = await manager.getStatsByKey("a");
+    expect(stats?.totalChallenges).toBe(3);
+    expect(stats?.recentAnswers).toEqual([true, true, false]);
+    expect(stats?.maxConsecutiveCorrect).toBe(2);
+    expect((await manager.getTrialHistory()).map((record) => record.id)).toEqual(["1", "2"]);
+  });
+
+  it("keeps answers saved after resetting everything", async () => {
+    const { manager } = createManager();
+    await manager.saveStatsByKey("a", true);
+    await manager.saveStatsByKey("b", true);
+    await manager.resetAllStats();
+
+    await manager.saveStatsByKey("b", true);
+    await manager.saveStatsByKey("c", false);
+    await manager.undoReset();
+
+    const statsMap = await manager.getAllStats();
+    expect(Object.fromEntries(Object.entries(statsMap).map(([key, stats]) => [key, stats.totalChallenges]))).toEqual({ a: 1, b: 2, c: 1 });
+  });
+});
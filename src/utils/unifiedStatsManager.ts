@@ -1,231 +1,479 @@
-import { GameStats, GameStatsMap, GameSettings, getStatsFromStorage, saveStatsToStorage, updateStatsForSettings, getStatsForSettings } from "./gameStats";
-
-import { isPWA, PWAStatsManager } from "./pwaStats";
+import {
+  GameStats,
+  GameStatsMap,
+  GameSettings,
+  generateSettingsKey,
+  initializeStats,
+  updateStats,
+  TrialScore,
+  TrialRecord,
+  TrialHistoryQuery,
+  calculateStatsFromTrials,
+  toDateKey,
+} from "./gameStats";
+import { StatsImportOptions, StatsImportPreview, mergeStats, parseStatsImport, previewStatsImport } from "./statsImport";
+import { notifyStatsChanged } from "./statsChannel";
+import {
+  SyncReport,
+  loadSyncBaseFromStorage,
+  loadSyncReportFromStorage,
+  mergeStatsStores,
+  saveSyncBaseToStorage,
+  saveSyncReportToStorage,
+} from "./environmentSync";
+import { StatsStore, StorageType, createStatsStore, detectStorageType, isLocalStorageAvailable, openStore } from "./statsStore";
+import { getActiveProfileId } from "./profiles";
+import { SkillRating, calculateSkillRatingFromTrials, updateSkillRating } from "./skillRating";
+import {
+  AchievementContext,
+  AchievementDefinition,
+  MAX_DAILY_STREAK_DAYS,
+  findNewAchievements,
+  loadAchievementsFromStorage,
+  saveAchievementsToStorage,
+} from "./achievements";
+import {
+  TrialArchive,
+  compactTrials,
+  getCompactionCutoff,
+  getCompactionKeepDays,
+  loadTrialArchiveFromStorage,
+  mergeArchives,
+  removeArchivedSettings,
+  saveTrialArchiveToStorage,
+} from "./trialArchive";
+import { StorageHealthLevel, StorageUsage, getStorageHealthLevel, getStorageUsage } from "./storageHealth";
 
 // 環境検出
 export const detectEnvironment = () => {
-  const pwa = isPWA();
-  const hasIndexedDB = "indexedDB" in window;
-  const hasLocalStorage = "localStorage" in window;
+  const storageType = detectStorageType();
+  const hasIndexedDB = typeof window !== "undefined" && "indexedDB" in window;
 
   return {
-    isPWA: pwa,
-    isWeb: !pwa,
+    isPWA: storageType === "indexeddb",
+    isWeb: storageType !== "indexeddb",
     hasIndexedDB,
-    hasLocalStorage,
-    storageType: pwa ? "indexeddb" : "localStorage",
+    hasLocalStorage: isLocalStorageAvailable(),
+    storageType,
   };
 };
 
-// 統合統計管理システム
+// リセットを取り消せる時間
+export const RESET_UNDO_DURATION = 10000;
+
+// リセット前のデータ（取り消し用）
+export interface ResetSnapshot {
+  scope: "key" | "all";
+  settingsKey: string | null;
+  stats: GameStatsMap;
+  trials: TrialRecord[];
+  archive: TrialArchive | null; // 圧縮した解答記録の集計
+  expiresAt: number;
+}
+
+// 保存容量の診断結果
+export interface StorageDiagnostics {
+  usage: StorageUsage;
+  level: StorageHealthLevel;
+  settingsCount: number;
+  trialCount: number;
+  keepDays: number; // 空き容量に応じて詳細な記録を残す日数
+  compactionCutoff: number; // この時刻より前の解答記録が圧縮の対象
+  compactableTrials: number; // 圧縮の対象になる解答記録の数
+  archive: TrialArchive | null;
+}
+
+// 統合統計管理システム（保存先は起動時に一度だけ選択し、プロフィールごとに分ける）
 export class UnifiedStatsManager {
   private env = detectEnvironment();
-  private pwaManager: PWAStatsManager | null = null;
+  private store: StatsStore | null;
   private initialized = false;
+  private lastReset: ResetSnapshot | null = null;
+
+  constructor(
+    store?: StatsStore,
+    readonly profileId: string = getActiveProfileId(),
+  ) {
+    this.store = store || null;
+  }
 
   async init(): Promise<void> {
     if (this.initialized) return;
 
-    if (this.env.isPWA) {
-      this.pwaManager = new PWAStatsManager();
-      await this.pwaManager.init();
-    }
-
+    const createStore = (type: StorageType) => createStatsStore(type, this.profileId);
+    this.store = await openStore(this.store || createStore(this.env.storageType), createStore);
+    this.env = { ...this.env, storageType: this.store.type, isPWA: this.store.type === "indexeddb", isWeb: this.store.type !== "indexeddb" };
     this.initialized = true;
   }
 
-  // 統計情報を保存
-  async saveStats(settings: GameSettings, isCorrect: boolean): Promise<void> {
+  // 初期化済みの保存先を取得
+  private async getStore(): Promise<StatsStore> {
     await this.init();
+    return this.store!;
+  }
 
-    if (this.env.isPWA && this.pwaManager) {
-      // PWA: IndexedDB
-      await this.pwaManager.saveStats(settings, isCorrect);
-    } else {
-      // Web: ローカルストレージ
-      const statsMap = getStatsFromStorage();
-      const updatedStatsMap = updateStatsForSettings(statsMap, settings, isCorrect);
-      saveStatsToStorage(updatedStatsMap);
+  // 統計情報を保存
+  async saveStats(settings: GameSettings, isCorrect: boolean, score?: TrialScore, timedOut: boolean = false): Promise<void> {
+    await this.saveStatsByKey(generateSettingsKey(settings), isCorrect, score, timedOut);
+  }
+
+  // 設定キーを指定して統計情報を保存
+  async saveStatsByKey(settingsKey: string, isCorrect: boolean, score?: TrialScore, timedOut: boolean = false): Promise<void> {
+    const store = await this.getStore();
+    await store.updateStats(settingsKey, (currentStats) => updateStats(currentStats || initializeStats(), isCorrect, score, timedOut));
+    this.notify(settingsKey);
+  }
+
+  // 1問ごとの解答記録を保存し、スキルレーティングを更新（Retryは同じ問題の再挑戦なので除く）
+  // 保存されたレーティングがない場合は、次に取得するときに解答記録から計算する。
+  async saveTrial(record: TrialRecord): Promise<void> {
+    const store = await this.getStore();
+    await store.saveTrial(record);
+    if (!record.isRetry) {
+      await store.updateSkillRating((current) => (current ? updateSkillRating(current, record.settings, record.isCorrect, record.timestamp) : null));
     }
+    this.notify(record.settingsKey);
   }
 
-  // 統計情報を取得
-  async getStats(settings: GameSettings): Promise<GameStats> {
-    await this.init();
+  // 未保存の解答記録を追加（同じIDの記録は上書きしない）し、追加した件数を返す
+  async importTrials(records: TrialRecord[]): Promise<number> {
+    const store = await this.getStore();
+    const existingIds = new Set((await store.getTrials()).map((record) => record.id));
+    const newRecords = records.filter((record) => !existingIds.has(record.id));
+
+    for (const record of newRecords) {
+      await store.saveTrial(record);
+    }
+    if (newRecords.length > 0) {
+      // 追加した記録は途中の時刻の場合があるため、レーティングは計算し直す
+      await this.invalidateSkillRating();
+      this.notify(null);
+    }
+    return newRecords.length;
+  }
+
+  // 解答記録を取得（古い順）
+  async getTrialHistory(query: TrialHistoryQuery = {}): Promise<TrialRecord[]> {
+    const store = await this.getStore();
+    return await store.getTrials(query);
+  }
 
-    if (this.env.isPWA && this.pwaManager) {
-      // PWA: IndexedDB
-      const pwaStats = await this.pwaManager.getStats(settings);
+  // 解答記録から統計情報を再計算
+  async recalculateStats(settingsKey: string): Promise<GameStats> {
+    const records = await this.getTrialHistory({ settingsKey });
+    return calculateStatsFromTrials(records);
+  }
 
-      // PWAの統計データを正規化（bestAccuracyプロパティの確認）
-      if (pwaStats && !pwaStats.hasOwnProperty("bestAccuracy")) {
-        pwaStats.bestAccuracy = 0;
-      }
+  // スキルレーティング（解答を保存するたびに更新した値。保存されていない場合は解答記録から計算して保存する）
+  async getSkillRating(): Promise<SkillRating> {
+    const store = await this.getStore();
+    return (await store.getSkillRating()) || (await this.recalculateSkillRating());
+  }
+
+  // 全ての解答記録からスキルレーティングを計算し直して保存（旧データの移行や、記録を追加・削除した後の修復用）
+  // 圧縮済みの期間は圧縮時点のレーティングから続けて計算する。
+  async recalculateSkillRating(): Promise<SkillRating> {
+    const store = await this.getStore();
+    const archive = loadTrialArchiveFromStorage(this.profileId);
+    const skillRating = archive
+      ? calculateSkillRatingFromTrials(await store.getTrials({ since: archive.archivedBefore }), archive.skillRating || undefined)
+      : calculateSkillRatingFromTrials(await store.getTrials());
+
+    await store.updateSkillRating(() => skillRating);
+    return skillRating;
+  }
 
-      return pwaStats;
-    } else {
-      // Web: ローカルストレージ
-      return getStatsForSettings(getStatsFromStorage(), settings);
+  // 保存したスキルレーティングを破棄（次に取得するときに解答記録から計算し直す）
+  private async invalidateSkillRating(): Promise<void> {
+    const store = await this.getStore();
+    await store.updateSkillRating(() => null);
+  }
+
+  // 指定した時刻より前の解答記録を日ごとの集計に置き換え、圧縮した記録の数を返す
+  // 時刻を指定しない場合は空き容量に応じた期間より前の記録を圧縮する。
+  async compactTrialHistory(before?: number): Promise<number> {
+    const store = await this.getStore();
+    if (before === undefined) {
+      before = (await this.getStorageDiagnostics()).compactionCutoff;
+    }
+    const records = await store.getTrials({ until: before - 1 });
+    if (records.length === 0) return 0;
+
+    // 集計を保存できた場合のみ解答記録を削除する
+    const archive = compactTrials(loadTrialArchiveFromStorage(this.profileId), records, before);
+    if (!saveTrialArchiveToStorage(archive, this.profileId)) {
+      throw new Error("Failed to save the trial archive");
     }
+    await store.deleteTrialsBefore(before);
+    this.notify(null);
+    return records.length;
   }
 
-  // 全統計情報を取得
-  async getAllStats(): Promise<GameStatsMap> {
-    await this.init();
+  getTrialArchive(): TrialArchive | null {
+    return loadTrialArchiveFromStorage(this.profileId);
+  }
+
+  // 圧縮記録を現在の圧縮記録にまとめて保存（バックアップの復元用）
+  async importTrialArchive(archive: TrialArchive): Promise<void> {
+    if (!saveTrialArchiveToStorage(mergeArchives(loadTrialArchiveFromStorage(this.profileId), archive), this.profileId)) {
+      throw new Error("Failed to save the trial archive");
+    }
+    await this.invalidateSkillRating();
+    this.notify(null);
+  }
+
+  // 保存容量と保存しているデータの量
+  async getStorageDiagnostics(now: number = Date.now()): Promise<StorageDiagnostics> {
+    const store = await this.getStore();
+    const [usage, statsMap, trialCount] = await Promise.all([getStorageUsage(store.type), store.getAllStats(), store.countTrials()]);
+    const level = getStorageHealthLevel(usage);
+    const keepDays = getCompactionKeepDays(level);
+    const cutoff = getCompactionCutoff(now, keepDays);
+
+    return {
+      usage,
+      level,
+      settingsCount: Object.keys(statsMap).length,
+      trialCount,
+      keepDays,
+      compactionCutoff: cutoff,
+      compactableTrials: await store.countTrials(cutoff),
+      archive: loadTrialArchiveFromStorage(this.profileId),
+    };
+  }
+
+  // 実績の判定に使うデータ（連続プレイ日数の判定に必要な期間の解答記録のみ読み込む）
+  async getAchievementContext(now: number = Date.now()): Promise<AchievementContext> {
+    const since = now - (MAX_DAILY_STREAK_DAYS + 1) * 24 * 60 * 60 * 1000;
+    const [statsMap, trials] = await Promise.all([this.getAllStats(), this.getTrialHistory({ since })]);
+    return { statsMap, playDates: trials.map((record) => record.date) };
+  }
 
-    if (this.env.isPWA && this.pwaManager) {
-      // PWA: IndexedDB
-      return await this.pwaManager.getAllStats();
-    } else {
-      // Web: ローカルストレージ
-      return getStatsFromStorage();
+  // 解答後に実績を判定し、新たに達成したものを解除日時とともに保存して返す
+  async checkAchievements(now: number = Date.now()): Promise<AchievementDefinition[]> {
+    const context = await this.getAchievementContext(now);
+    // 解答記録の保存より先に判定する場合もあるため、今日はプレイ済みとして扱う
+    context.playDates.push(toDateKey(now));
+
+    const unlocked = loadAchievementsFromStorage(this.profileId);
+    const newAchievements = findNewAchievements(context, unlocked);
+    if (newAchievements.length > 0) {
+      const unlockedAt = new Date(now).toISOString();
+      saveAchievementsToStorage([...unlocked, ...newAchievements.map((achievement) => ({ id: achievement.id, unlockedAt }))], this.profileId);
     }
+    return newAchievements;
+  }
+
+  // 統計情報を取得
+  async getStats(settings: GameSettings): Promise<GameStats> {
+    return (await this.getStatsByKey(generateSettingsKey(settings))) || initializeStats();
+  }
+
+  // 全統計情報を取得
+  async getAllStats(): Promise<GameStatsMap> {
+    const store = await this.getStore();
+    return await store.getAllStats();
   }
 
   // 統計情報をエクスポート
   async exportStats(): Promise<string> {
-    await this.init();
+    const statsMap = await this.getAllStats();
+    return JSON.stringify(statsMap, null, 2);
+  }
 
-    if (this.env.isPWA && this.pwaManager) {
-      // PWA: IndexedDB
-      return await this.pwaManager.exportStats();
-    } else {
-      // Web: ローカルストレージ
-      const statsMap = getStatsFromStorage();
-      return JSON.stringify(statsMap, null, 2);
+  // 統計情報をインポート（検証に失敗した場合は何も保存せずにStatsImportErrorを投げる）
+  async importStats(jsonData: string, options: StatsImportOptions = {}): Promise<StatsImportPreview> {
+    const store = await this.getStore();
+    const incomingMap = parseStatsImport(jsonData);
+    const preview = previewStatsImport(await store.getAllStats(), incomingMap, options.strategy || "keepNewer");
+
+    if (!options.dryRun) {
+      // プレビュー後に他のタブで更新された場合も、その値とマージする（途中で失敗して一部だけ保存されないよう、まとめて保存）
+      const changed = preview.changes.filter((change) => change.type !== "unchanged");
+      await store.updateManyStats(
+        Object.fromEntries(
+          changed.map((change) => [
+            change.settingsKey,
+            (current: GameStats | null) => mergeStats(current, incomingMap[change.settingsKey], preview.strategy),
+          ]),
+        ),
+      );
+      this.notify(null);
     }
+
+    return preview;
   }
 
-  // 統計情報をインポート
-  async importStats(jsonData: string): Promise<void> {
-    await this.init();
+  // WebとPWAの両方の保存先が使えるか
+  canSyncEnvironments(): boolean {
+    return this.env.hasIndexedDB && this.env.hasLocalStorage;
+  }
+
+  // WebとPWAのデータを統合（どちらかが使えない場合はnull）
+  async syncEnvironments(): Promise<SyncReport | null> {
+    if (!this.canSyncEnvironments()) return null;
 
-    if (this.env.isPWA && this.pwaManager) {
-      // PWA: IndexedDB
-      await this.pwaManager.importStats(jsonData);
-    } else {
-      // Web: ローカルストレージ
-      const statsMap: GameStatsMap = JSON.parse(jsonData);
-      saveStatsToStorage(statsMap);
+    const store = await this.getStore();
+    const webStore = store.type === "localStorage" ? store : createStatsStore("localStorage", this.profileId);
+    const pwaStore = store.type === "indexeddb" ? store : createStatsStore("indexeddb", this.profileId);
+
+    try {
+      await webStore.init();
+      await pwaStore.init();
+    } catch (error) {
+      console.log("Environment sync not available:", error);
+      return null;
     }
+
+    // 前回の統合結果を記録する前に統合したことがある場合は、前回から増えた分が分からないため合算しない
+    const baseMap = loadSyncBaseFromStorage(this.profileId) || (loadSyncReportFromStorage(this.profileId) ? null : {});
+    const report = await mergeStatsStores(webStore, pwaStore, baseMap);
+    saveSyncReportToStorage(report, this.profileId);
+    saveSyncBaseToStorage(await webStore.getAllStats(), this.profileId);
+    this.notify(null);
+    return report;
   }
 
-  // 環境間でデータを同期
-  async syncDataBetweenEnvironments(): Promise<void> {
+  // PWAとして初めて起動したときにWebのデータを統合
+  async syncOnFirstLaunch(): Promise<SyncReport | null> {
     await this.init();
-
-    if (this.env.isPWA && this.pwaManager) {
-      // PWAからWebへの同期
-      const pwaStats = await this.pwaManager.getAllStats();
-      saveStatsToStorage(pwaStats);
-    } else if (this.env.hasIndexedDB) {
-      // WebからPWAへの同期（PWAが利用可能な場合）
-      const webStats = getStatsFromStorage();
-      if (Object.keys(webStats).length > 0) {
-        try {
-          const pwaManager = new PWAStatsManager();
-          await pwaManager.init();
-          await pwaManager.importStats(JSON.stringify(webStats));
-        } catch (error) {
-          console.log("PWA sync not available:", error);
-        }
-      }
-    }
+    if (!this.env.isPWA || loadSyncReportFromStorage(this.profileId)) return null;
+    return await this.syncEnvironments();
   }
 
   // 統計情報をクリア
   async clearAllStats(): Promise<void> {
-    await this.init();
+    const store = await this.getStore();
+    await store.clearStats();
+    this.notify(null);
+  }
 
-    if (this.env.isPWA && this.pwaManager) {
-      // PWA: IndexedDB
-      const pwaManager = new PWAStatsManager();
-      await pwaManager.init();
-      // クリア機能を追加する必要があります
-    } else {
-      // Web: ローカルストレージ
-      localStorage.removeItem("gameStatsMap");
-    }
+  // 設定キーの統計情報と解答記録を削除（適応難易度では解答記録のキーが異なる）
+  async resetStats(settingsKey: string, trialKey: string = settingsKey): Promise<ResetSnapshot> {
+    const store = await this.getStore();
+    const stats = await store.getStats(settingsKey);
+    const trials = await store.getTrials({ settingsKey: trialKey });
+    const archive = loadTrialArchiveFromStorage(this.profileId);
+
+    await store.deleteStats(settingsKey);
+    await store.deleteTrials(trialKey);
+    if (archive) saveTrialArchiveToStorage(removeArchivedSettings(archive, trialKey), this.profileId);
+    await this.invalidateSkillRating();
+    this.notify(settingsKey);
+
+    return this.rememberReset({ scope: "key", settingsKey, stats: stats ? { [settingsKey]: stats } : {}, trials, archive });
   }
 
-  // 環境情報を取得
-  getEnvironmentInfo() {
-    return {
-      ...this.env,
-      initialized: this.initialized,
-    };
+  // 全ての統計情報と解答記録を削除
+  async resetAllStats(): Promise<ResetSnapshot> {
+    const store = await this.getStore();
+    const stats = await store.getAllStats();
+    const trials = await store.getTrials();
+    const archive = loadTrialArchiveFromStorage(this.profileId);
+
+    await store.clearStats();
+    await store.clearTrials();
+    saveTrialArchiveToStorage(null, this.profileId);
+    await this.invalidateSkillRating();
+    this.notify(null);
+
+    return this.rememberReset({ scope: "all", settingsKey: null, stats, trials, archive });
   }
 
-  // データベースサイズを取得
-  async getDatabaseSize(): Promise<number> {
-    await this.init();
+  // 他のタブへ変更を通知
+  private notify(settingsKey: string | null): void {
+    notifyStatsChanged({ profileId: this.profileId, settingsKey });
+  }
 
-    if (this.env.isPWA && this.pwaManager) {
-      // PWA: IndexedDB
-      const statsMap = await this.pwaManager.getAllStats();
-      return Object.keys(statsMap).length;
-    } else {
-      // Web: ローカルストレージ
-      const statsMap = getStatsFromStorage();
-      return Object.keys(statsMap).length;
-    }
+  private rememberReset(snapshot: Omit<ResetSnapshot, "expiresAt">): ResetSnapshot {
+    this.lastReset = { ...snapshot, expiresAt: Date.now() + RESET_UNDO_DURATION };
+    return this.lastReset;
   }
 
-  // 設定キーごとの統計情報を取得
-  async getStatsByKey(settingsKey: string): Promise<GameStats | null> {
-    await this.init();
+  canUndoReset(): boolean {
+    return !!this.lastReset && Date.now() <= this.lastReset.expiresAt;
+  }
 
-    if (this.env.isPWA && this.pwaManager) {
-      // PWA: IndexedDB
-      const statsMap = await this.pwaManager.getAllStats();
-      return statsMap[settingsKey] || null;
-    } else {
-      // Web: ローカルストレージ
-      const statsMap = getStatsFromStorage();
-      return statsMap[settingsKey] || null;
+  // 直前のリセットを取り消す（期限切れの場合はfalse）
+  // 取り消すまでの間に保存した解答が失われないよう、リセット前のデータと合算して戻す。
+  async undoReset(): Promise<boolean> {
+    if (!this.canUndoReset()) {
+      this.lastReset = null;
+      return false;
     }
-  }
 
-  // 統計情報のバックアップを作成
-  async createBackup(): Promise<{ data: string; timestamp: string; environment: string }> {
-    await this.init();
+    const snapshot = this.lastReset!;
+    this.lastReset = null;
 
-    const data = await this.exportStats();
-    const timestamp = new Date().toISOString();
-    const environment = this.env.isPWA ? "pwa" : "web";
+    const store = await this.getStore();
+    for (const [settingsKey, stats] of Object.entries(snapshot.stats)) {
+      await store.updateStats(settingsKey, (current) => mergeStats(current, stats, "combine"));
+    }
+    // リセット後の解答記録はIDが異なるため、リセット前の記録を追加しても上書きされない
+    for (const record of snapshot.trials) {
+      await store.saveTrial(record);
+    }
+    if (snapshot.archive) {
+      saveTrialArchiveToStorage(mergeArchives(loadTrialArchiveFromStorage(this.profileId), snapshot.archive), this.profileId);
+    }
+    await this.invalidateSkillRating();
+    this.notify(snapshot.settingsKey);
+    return true;
+  }
 
+  // 環境情報を取得
+  getEnvironmentInfo() {
     return {
-      data,
-      timestamp,
-      environment,
+      ...this.env,
+      initialized: this.initialized,
     };
   }
 
-  // バックアップから復元
-  async restoreFromBackup(backup: { data: string; timestamp: string; environment: string }): Promise<void> {
-    await this.init();
-
-    await this.importStats(backup.data);
+  // 統計情報を保存している設定キーの数（保存容量はgetStorageDiagnostics）
+  async getDatabaseSize(): Promise<number> {
+    const statsMap = await this.getAllStats();
+    return Object.keys(statsMap).length;
+  }
 
-    // 復元完了のログ
-    console.log(`Stats restored from ${backup.environment} backup (${backup.timestamp})`);
+  // 設定キーごとの統計情報を取得
+  async getStatsByKey(settingsKey: string): Promise<GameStats | null> {
+    const store = await this.getStore();
+    return await store.getStats(settingsKey);
   }
 }
 
-// シングルトンインスタンス
-let unifiedStatsManager: UnifiedStatsManager | null = null;
+// プロフィールごとのインスタンス
+const unifiedStatsManagers = new Map<string, UnifiedStatsManager>();
 
-export const getUnifiedStatsManager = (): UnifiedStatsManager => {
-  if (!unifiedStatsManager) {
-    unifiedStatsManager = new UnifiedStatsManager();
+// プロフィールを省略した場合は使用中のプロフィール
+export const getUnifiedStatsManager = (profileId: string = getActiveProfileId()): UnifiedStatsManager => {
+  let manager = unifiedStatsManagers.get(profileId);
+  if (!manager) {
+    manager = new UnifiedStatsManager(undefined, profileId);
+    unifiedStatsManagers.set(profileId, manager);
   }
-  return unifiedStatsManager;
+  return manager;
 };
 
 // 便利な関数
-export const saveStats = async (settings: GameSettings, isCorrect: boolean): Promise<void> => {
+export const saveStats = async (settings: GameSettings, isCorrect: boolean, score?: TrialScore, timedOut: boolean = false): Promise<void> => {
+  const manager = getUnifiedStatsManager();
+  await manager.saveStats(settings, isCorrect, score, timedOut);
+};
+
+export const saveStatsByKey = async (settingsKey: string, isCorrect: boolean, score?: TrialScore, timedOut: boolean = false): Promise<void> => {
+  const manager = getUnifiedStatsManager();
+  await manager.saveStatsByKey(settingsKey, isCorrect, score, timedOut);
+};
+
+export const saveTrial = async (record: TrialRecord): Promise<void> => {
   const manager = getUnifiedStatsManager();
-  await manager.saveStats(settings, isCorrect);
+  await manager.saveTrial(record);
+};
+
+export const getTrialHistory = async (query: TrialHistoryQuery = {}): Promise<TrialRecord[]> => {
+  const manager = getUnifiedStatsManager();
+  return await manager.getTrialHistory(query);
 };
 
 export const getStats = async (settings: GameSettings): Promise<GameStats> => {
@@ -238,12 +486,12 @@ export const getAllStats = async (): Promise<GameStatsMap> => {
   return await manager.getAllStats();
 };
 
-export const exportStats = async (): Promise<string> => {
-  const manager = getUnifiedStatsManager();
+export const exportStats = async (profileId?: string): Promise<string> => {
+  const manager = getUnifiedStatsManager(profileId);
   return await manager.exportStats();
 };
 
-export const importStats = async (jsonData: string): Promise<void> => {
-  const manager = getUnifiedStatsManager();
-  await manager.importStats(jsonData);
+export const importStats = async (jsonData: string, options: StatsImportOptions = {}, profileId?: string): Promise<StatsImportPreview> => {
+  const manager = getUnifiedStatsManager(profileId);
+  return await manager.importStats(jsonData, options);
 };
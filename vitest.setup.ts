@@ -0,0 +1,20 @@
+import "fake-indexeddb/auto";
+import { afterEach } from "vitest";
+
+// jsdomにはmatchMediaがないため、ブラウザで開いた状態（インストールしたアプリではない）として扱う
+window.matchMedia = (query: string) =>
+  ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: () => {},
+    removeListener: () => {},
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    dispatchEvent: () => false,
+  }) as MediaQueryList;
+
+// テストごとにlocalStorageを空にする（IndexedDBはテストごとに別のデータベース名を使う）
+afterEach(() => {
+  localStorage.clear();
+});